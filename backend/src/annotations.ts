@@ -0,0 +1,256 @@
+import { EventEmitter } from 'events';
+import { readFile, writeFile, mkdir, rename } from 'fs/promises';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DATA_DIR } from './config.js';
+
+// A saved message, or a highlighted range within one
+export interface MessageSnippet {
+  id: string;
+  messageIndex: number;
+  role: string;
+  // [start, end) offsets into the message content
+  highlight?: [number, number];
+  // Highlighted text, or the start of the message; kept so the snippet reads on its own
+  excerpt: string;
+  note: string;
+  createdAt: string;
+}
+
+export interface SessionAnnotation {
+  project: string;
+  sessionId: string;
+  bookmarked: boolean;
+  tags: string[];
+  note: string;
+  snippets: MessageSnippet[];
+  updatedAt: string;
+}
+
+export type SavedSnippet = MessageSnippet & { project: string; sessionId: string };
+
+export type AnnotationUpdate = Partial<Pick<SessionAnnotation, 'bookmarked' | 'tags' | 'note'>>;
+
+// Shape of the browser's old localStorage data, keyed by `${project}:${sessionId}`
+export interface LegacyAnnotations {
+  bookmarks?: string[];
+  tags?: Record<string, string[]>;
+  notes?: Record<string, string>;
+}
+
+interface AnnotationFile {
+  version: number;
+  annotations: SessionAnnotation[];
+}
+
+const STORE_VERSION = 1;
+const STORE_PATH = join(DATA_DIR, 'annotations.json');
+
+export function annotationKey(project: string, sessionId: string): string {
+  return `${project}:${sessionId}`;
+}
+
+// Session ids never contain ':', project directory names can
+function parseLegacyKey(key: string): { project: string; sessionId: string } | null {
+  const idx = key.lastIndexOf(':');
+  if (idx <= 0 || idx === key.length - 1) return null;
+  return { project: key.slice(0, idx), sessionId: key.slice(idx + 1) };
+}
+
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(t => t.trim()).filter(Boolean))];
+}
+
+function isEmpty(annotation: SessionAnnotation): boolean {
+  return !annotation.bookmarked && annotation.tags.length === 0 && !annotation.note && annotation.snippets.length === 0;
+}
+
+/**
+ * Bookmarks, tags, notes and message snippets per session, kept in DATA_DIR/annotations.json.
+ * Emits 'annotation:changed' with the updated (or removed) annotation.
+ */
+export class AnnotationStore extends EventEmitter {
+  private annotations: Map<string, SessionAnnotation> = new Map();
+  private loading: Promise<void> | null = null;
+  // Writes are chained so two quick updates never interleave on disk
+  private saving: Promise<void> = Promise.resolve();
+  // Bumped on every change so callers can tell cached results are stale
+  generation = 0;
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.doLoad();
+    }
+    return this.loading;
+  }
+
+  private async doLoad(): Promise<void> {
+    try {
+      const data: AnnotationFile = JSON.parse(await readFile(STORE_PATH, 'utf-8'));
+      for (const annotation of data.annotations || []) {
+        this.annotations.set(annotationKey(annotation.project, annotation.sessionId), {
+          ...annotation,
+          snippets: annotation.snippets || []
+        });
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error loading annotations:', error);
+      }
+    }
+  }
+
+  async list(): Promise<SessionAnnotation[]> {
+    await this.load();
+    return [...this.annotations.values()];
+  }
+
+  async get(project: string, sessionId: string): Promise<SessionAnnotation | null> {
+    await this.load();
+    return this.annotations.get(annotationKey(project, sessionId)) || null;
+  }
+
+  // Synchronous lookup for hot paths (search); only valid once load() has resolved
+  peek(project: string, sessionId: string): SessionAnnotation | undefined {
+    return this.annotations.get(annotationKey(project, sessionId));
+  }
+
+  async update(project: string, sessionId: string, update: AnnotationUpdate): Promise<SessionAnnotation> {
+    await this.load();
+    const annotation = this.apply(project, sessionId, update);
+    await this.save();
+    return annotation;
+  }
+
+  // Every saved snippet across sessions, newest first
+  async listSnippets(): Promise<SavedSnippet[]> {
+    await this.load();
+    return [...this.annotations.values()]
+      .flatMap(a => a.snippets.map(s => ({ ...s, project: a.project, sessionId: a.sessionId })))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async addSnippet(project: string, sessionId: string, snippet: Omit<MessageSnippet, 'id' | 'createdAt'>): Promise<MessageSnippet> {
+    await this.load();
+    const created: MessageSnippet = { ...snippet, id: uuidv4(), createdAt: new Date().toISOString() };
+    const existing = this.annotations.get(annotationKey(project, sessionId))?.snippets || [];
+    this.apply(project, sessionId, { snippets: [...existing, created] });
+    await this.save();
+    return created;
+  }
+
+  async updateSnippet(project: string, sessionId: string, snippetId: string, note: string): Promise<MessageSnippet | null> {
+    await this.load();
+    const snippets = this.annotations.get(annotationKey(project, sessionId))?.snippets || [];
+    const snippet = snippets.find(s => s.id === snippetId);
+    if (!snippet) return null;
+
+    const updated = { ...snippet, note: note.trim() };
+    this.apply(project, sessionId, { snippets: snippets.map(s => s.id === snippetId ? updated : s) });
+    await this.save();
+    return updated;
+  }
+
+  async removeSnippet(project: string, sessionId: string, snippetId: string): Promise<boolean> {
+    await this.load();
+    const snippets = this.annotations.get(annotationKey(project, sessionId))?.snippets || [];
+    if (!snippets.some(s => s.id === snippetId)) return false;
+
+    this.apply(project, sessionId, { snippets: snippets.filter(s => s.id !== snippetId) });
+    await this.save();
+    return true;
+  }
+
+  async remove(project: string, sessionId: string): Promise<boolean> {
+    await this.load();
+    const key = annotationKey(project, sessionId);
+    const existing = this.annotations.get(key);
+    if (!existing) return false;
+
+    this.annotations.delete(key);
+    this.generation++;
+    this.emit('annotation:changed', { ...existing, bookmarked: false, tags: [], note: '', snippets: [] });
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Merge annotations exported from the browser. Safe to run more than once:
+   * tags are unioned and an existing note is never overwritten.
+   */
+  async importLegacy(data: LegacyAnnotations): Promise<number> {
+    await this.load();
+    const touched = new Set<string>();
+
+    for (const key of data.bookmarks || []) {
+      const parsed = parseLegacyKey(key);
+      if (!parsed) continue;
+      this.apply(parsed.project, parsed.sessionId, { bookmarked: true });
+      touched.add(key);
+    }
+
+    for (const [key, tags] of Object.entries(data.tags || {})) {
+      const parsed = parseLegacyKey(key);
+      if (!parsed || !Array.isArray(tags) || tags.length === 0) continue;
+      const existing = this.annotations.get(annotationKey(parsed.project, parsed.sessionId));
+      this.apply(parsed.project, parsed.sessionId, { tags: [...(existing?.tags || []), ...tags.map(String)] });
+      touched.add(key);
+    }
+
+    for (const [key, note] of Object.entries(data.notes || {})) {
+      const parsed = parseLegacyKey(key);
+      if (!parsed || typeof note !== 'string' || !note) continue;
+      if (this.annotations.get(annotationKey(parsed.project, parsed.sessionId))?.note) continue;
+      this.apply(parsed.project, parsed.sessionId, { note });
+      touched.add(key);
+    }
+
+    if (touched.size > 0) {
+      await this.save();
+    }
+    return touched.size;
+  }
+
+  private apply(project: string, sessionId: string, update: AnnotationUpdate & Partial<Pick<SessionAnnotation, 'snippets'>>): SessionAnnotation {
+    const key = annotationKey(project, sessionId);
+    const annotation: SessionAnnotation = {
+      ...(this.annotations.get(key) || { project, sessionId, bookmarked: false, tags: [], note: '', snippets: [] }),
+      ...update,
+      updatedAt: new Date().toISOString()
+    };
+    annotation.tags = normalizeTags(annotation.tags);
+    annotation.note = annotation.note.trim();
+
+    // Nothing left to remember about this session
+    if (isEmpty(annotation)) {
+      this.annotations.delete(key);
+    } else {
+      this.annotations.set(key, annotation);
+    }
+
+    this.generation++;
+    this.emit('annotation:changed', annotation);
+    return annotation;
+  }
+
+  private save(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      const data: AnnotationFile = {
+        version: STORE_VERSION,
+        annotations: [...this.annotations.values()]
+      };
+
+      try {
+        await mkdir(DATA_DIR, { recursive: true });
+        const tmpPath = `${STORE_PATH}.tmp`;
+        await writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+        await rename(tmpPath, STORE_PATH);
+      } catch (error) {
+        console.error('Error saving annotations:', error);
+      }
+    });
+    return this.saving;
+  }
+}
+
+export const annotationStore = new AnnotationStore();
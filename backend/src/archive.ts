@@ -0,0 +1,252 @@
+import { Writable } from 'stream';
+import { deflateRaw } from 'zlib';
+import { promisify } from 'util';
+
+const deflateRawAsync = promisify(deflateRaw);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS timestamp fields used by zip headers (local time, 2 second resolution)
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+interface CentralEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+// General purpose flag: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+const DEFLATE = 8;
+const VERSION = 20;
+
+/**
+ * Minimal streaming zip writer. Each file is deflated and written as soon as it
+ * is added, so only one file is held in memory at a time. No zip64 support:
+ * archives are limited to 65535 files and 4 GB.
+ */
+export class ZipWriter {
+  private entries: CentralEntry[] = [];
+  private offset = 0;
+
+  constructor(private out: Writable) {}
+
+  async addFile(name: string, content: string | Buffer, modified = new Date()): Promise<void> {
+    const data = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+    const compressed = await deflateRawAsync(data);
+    const { time, date } = dosDateTime(modified);
+    const entry: CentralEntry = {
+      name: Buffer.from(name, 'utf-8'),
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      offset: this.offset,
+      time,
+      date
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(UTF8_FLAG, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    await this.write(Buffer.concat([header, entry.name]));
+    await this.write(compressed);
+    this.entries.push(entry);
+  }
+
+  // Write the central directory; the archive is complete once this resolves
+  async finish(): Promise<void> {
+    const start = this.offset;
+
+    for (const entry of this.entries) {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(VERSION, 4);
+      record.writeUInt16LE(VERSION, 6);
+      record.writeUInt16LE(UTF8_FLAG, 8);
+      record.writeUInt16LE(DEFLATE, 10);
+      record.writeUInt16LE(entry.time, 12);
+      record.writeUInt16LE(entry.date, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      // Extra field, comment, disk number, internal and external attributes stay zero
+      record.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([record, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.write(end);
+
+    await new Promise<void>(resolve => this.out.end(resolve));
+  }
+
+  // Respect backpressure so a slow download doesn't buffer the whole archive
+  private async write(chunk: Buffer): Promise<void> {
+    if (this.out.destroyed) {
+      throw new Error('Archive stream closed');
+    }
+    this.offset += chunk.length;
+    if (!this.out.write(chunk)) {
+      await new Promise<void>(resolve => {
+        const done = () => {
+          this.out.off('drain', done);
+          this.out.off('close', done);
+          resolve();
+        };
+        this.out.on('drain', done);
+        this.out.on('close', done);
+      });
+    }
+  }
+}
+
+export interface TarEntry {
+  name: string;
+  data: Buffer;
+}
+
+// Pulls exact byte counts out of a chunked stream
+class ChunkReader {
+  private chunks: Buffer[] = [];
+  private buffered = 0;
+  private done = false;
+  private iterator: AsyncIterator<Buffer>;
+
+  constructor(input: AsyncIterable<Buffer>) {
+    this.iterator = input[Symbol.asyncIterator]();
+  }
+
+  // Fewer than `size` bytes only once the input has ended
+  async read(size: number): Promise<Buffer> {
+    while (this.buffered < size && !this.done) {
+      const next = await this.iterator.next();
+      if (next.done) {
+        this.done = true;
+      } else {
+        this.chunks.push(next.value);
+        this.buffered += next.value.length;
+      }
+    }
+
+    const all = this.chunks.length === 1 ? this.chunks[0] : Buffer.concat(this.chunks);
+    const taken = all.subarray(0, size);
+    const rest = all.subarray(taken.length);
+    this.chunks = rest.length > 0 ? [rest] : [];
+    this.buffered = rest.length;
+    return taken;
+  }
+
+  // Stop the input early, e.g. at the end-of-archive marker
+  async close(): Promise<void> {
+    if (!this.done) await this.iterator.return?.();
+  }
+}
+
+/**
+ * Regular files of an uncompressed tar archive (ustar, with GNU and PAX long
+ * names), read as the chunks arrive. Directories, links and other entry types
+ * are skipped.
+ */
+export async function readTar(input: AsyncIterable<Buffer>): Promise<TarEntry[]> {
+  const reader = new ChunkReader(input);
+  const entries: TarEntry[] = [];
+  // Set by a GNU `L` or PAX `x` entry for the entry that follows it
+  let longName: string | null = null;
+
+  try {
+    for (;;) {
+      const header = await reader.read(512);
+      // Zero blocks mark the end of the archive
+      if (header.length < 512 || header.every(byte => byte === 0)) break;
+
+      const field = (start: number, length: number) => {
+        const raw = header.subarray(start, start + length);
+        const end = raw.indexOf(0);
+        return raw.subarray(0, end === -1 ? length : end).toString('utf-8');
+      };
+
+      // The checksum is computed with its own field read as spaces
+      let checksum = 8 * 0x20;
+      for (let i = 0; i < 512; i++) {
+        if (i < 148 || i >= 156) checksum += header[i];
+      }
+      if (parseInt(field(148, 8).trim(), 8) !== checksum) {
+        throw new Error('Not a tar archive or corrupt header');
+      }
+
+      const size = parseInt(field(124, 12).trim() || '0', 8);
+      const data = await reader.read(size);
+      if (data.length < size) {
+        throw new Error('Truncated tar archive');
+      }
+      await reader.read(Math.ceil(size / 512) * 512 - size);
+
+      const type = field(156, 1);
+      if (type === 'L') {
+        longName = data.toString('utf-8').replace(/\0+$/, '');
+        continue;
+      }
+      if (type === 'x') {
+        longName = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data.toString('utf-8'))?.[1] ?? null;
+        continue;
+      }
+
+      const prefix = field(257, 5) === 'ustar' ? field(345, 155) : '';
+      const name = longName ?? (prefix ? `${prefix}/${field(0, 100)}` : field(0, 100));
+      longName = null;
+
+      // '0' and, from pre-POSIX tars, an empty type are regular files
+      if (type === '0' || type === '') {
+        entries.push({ name, data });
+      }
+    }
+  } finally {
+    await reader.close();
+  }
+
+  return entries;
+}
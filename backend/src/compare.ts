@@ -0,0 +1,231 @@
+import { HistoryMessage, HistorySession, summarizeSession } from './history.js';
+
+export type DiffType = 'equal' | 'insert' | 'delete';
+
+// `delete` is only in the left session, `insert` only in the right one
+export interface DiffOp {
+  type: DiffType;
+  text: string;
+}
+
+// One user prompt and everything up to the next one
+export interface Turn {
+  // Index of the prompt in the session's messages; null for messages before the first prompt
+  promptIndex: number | null;
+  prompt: string;
+  // Non-thinking assistant text, joined
+  answer: string;
+  tools: string[];
+  // Message indices the turn spans, [start, end)
+  start: number;
+  end: number;
+}
+
+export interface TurnPair {
+  left: Turn | null;
+  right: Turn | null;
+  // Prompt similarity, 0 to 1; 0 when one side is missing
+  similarity: number;
+  answerDiff: DiffOp[];
+  // One op per tool call
+  toolDiff: DiffOp[];
+}
+
+export interface ComparedSession {
+  id: string;
+  project: string;
+  source: string;
+  summary?: string;
+  createdAt: Date;
+  messageCount: number;
+}
+
+export interface SessionComparison {
+  left: ComparedSession;
+  right: ComparedSession;
+  pairs: TurnPair[];
+}
+
+// Prompts less alike than this are treated as different questions
+const MIN_PROMPT_SIMILARITY = 0.3;
+
+// Above this many LCS cells a diff falls back to lines, then to replacing the whole text
+const MAX_DIFF_CELLS = 4_000_000;
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+function splitTurns(messages: HistoryMessage[]): Turn[] {
+  const turns: Turn[] = [];
+  let current: Turn | null = null;
+
+  messages.forEach((message, index) => {
+    if (message.role === 'user' && message.content.trim()) {
+      if (current) current.end = index;
+      current = { promptIndex: index, prompt: message.content, answer: '', tools: [], start: index, end: messages.length };
+      turns.push(current);
+      return;
+    }
+    if (!current) {
+      current = { promptIndex: null, prompt: '', answer: '', tools: [], start: index, end: messages.length };
+      turns.push(current);
+    }
+    if (message.role === 'assistant' && !message.isThinking && message.content.trim()) {
+      current.answer += (current.answer ? '\n\n' : '') + message.content;
+    } else if (message.role === 'tool') {
+      current.tools.push(message.toolName || 'Unknown');
+    }
+  });
+
+  return turns;
+}
+
+// Dice coefficient over the prompts' distinct words
+function promptSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.toLowerCase().match(WORD_PATTERN) || []);
+  const wordsB = new Set(b.toLowerCase().match(WORD_PATTERN) || []);
+  if (wordsA.size === 0 && wordsB.size === 0) return a.trim() === b.trim() ? 1 : 0;
+  let shared = 0;
+  wordsA.forEach(word => { if (wordsB.has(word)) shared++; });
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+/**
+ * Pair up turns in order, maximising the total similarity of the paired
+ * prompts (the way an LCS pairs up equal items). Unpaired turns appear on
+ * their own, in position.
+ */
+function alignTurns(left: Turn[], right: Turn[]): Array<[Turn | null, Turn | null, number]> {
+  const n = left.length;
+  const m = right.length;
+  const sim = (i: number, j: number) => {
+    // The preambles before the first prompt always line up with each other
+    if (left[i].promptIndex === null || right[j].promptIndex === null) {
+      return left[i].promptIndex === right[j].promptIndex ? 1 : 0;
+    }
+    return promptSimilarity(left[i].prompt, right[j].prompt);
+  };
+
+  const sims: number[][] = left.map((_, i) => right.map((_, j) => sim(i, j)));
+  // best[i][j]: best total for left[i..] and right[j..]
+  const best: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      const paired = sims[i][j] >= MIN_PROMPT_SIMILARITY ? sims[i][j] + best[i + 1][j + 1] : -1;
+      best[i][j] = Math.max(paired, best[i + 1][j], best[i][j + 1]);
+    }
+  }
+
+  const aligned: Array<[Turn | null, Turn | null, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && sims[i][j] >= MIN_PROMPT_SIMILARITY && best[i][j] === sims[i][j] + best[i + 1][j + 1]) {
+      aligned.push([left[i], right[j], sims[i][j]]);
+      i++;
+      j++;
+    } else if (j >= m || (i < n && best[i][j] === best[i + 1][j])) {
+      aligned.push([left[i++], null, 0]);
+    } else {
+      aligned.push([null, right[j++], 0]);
+    }
+  }
+  return aligned;
+}
+
+/**
+ * LCS diff of two token lists, one op per token. Common prefix and suffix are
+ * trimmed first; returns null when the rest is too large to diff.
+ */
+function diffTokens(a: string[], b: string[]): DiffOp[] | null {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) return null;
+
+  // lcs[i * (m + 1) + j]: LCS length of midA[i..] and midB[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = a.slice(0, prefix).map(text => ({ type: 'equal', text }));
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      ops.push({ type: 'equal', text: midA[i++] });
+      j++;
+    } else if (j >= m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      ops.push({ type: 'delete', text: midA[i++] });
+    } else {
+      ops.push({ type: 'insert', text: midB[j++] });
+    }
+  }
+  return ops.concat(a.slice(a.length - suffix).map(text => ({ type: 'equal', text })));
+}
+
+// Join runs of the same op type so the client gets a handful of chunks
+function mergeOps(ops: DiffOp[]): DiffOp[] {
+  const merged: DiffOp[] = [];
+  for (const op of ops) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === op.type) last.text += op.text;
+    else merged.push({ ...op });
+  }
+  return merged;
+}
+
+// Word-level diff, or line-level for long texts
+export function diffText(a: string, b: string): DiffOp[] {
+  const words = diffTokens(a.match(/\s+|[^\s]+/g) || [], b.match(/\s+|[^\s]+/g) || []);
+  if (words) return mergeOps(words);
+
+  const lines = diffTokens(a.match(/[^\n]*\n|[^\n]+$/g) || [], b.match(/[^\n]*\n|[^\n]+$/g) || []);
+  if (lines) return mergeOps(lines);
+
+  return [{ type: 'delete', text: a }, { type: 'insert', text: b }].filter(op => op.text) as DiffOp[];
+}
+
+// One op per line (without its newline); too-large inputs come back as a full replace
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  return diffTokens(a, b) || [
+    ...a.map(text => ({ type: 'delete' as const, text })),
+    ...b.map(text => ({ type: 'insert' as const, text }))
+  ];
+}
+
+function describe(session: HistorySession): ComparedSession {
+  return {
+    id: session.id,
+    project: session.project,
+    source: session.source,
+    summary: session.summary ?? summarizeSession(session.messages),
+    createdAt: session.createdAt,
+    messageCount: session.messages.length
+  };
+}
+
+export function compareSessions(left: HistorySession, right: HistorySession): SessionComparison {
+  const pairs = alignTurns(splitTurns(left.messages), splitTurns(right.messages))
+    .map(([l, r, similarity]): TurnPair => ({
+      left: l,
+      right: r,
+      similarity,
+      answerDiff: diffText(l?.answer || '', r?.answer || ''),
+      toolDiff: diffTokens(l?.tools || [], r?.tools || []) ||
+        [...(l?.tools || []).map(text => ({ type: 'delete' as const, text })), ...(r?.tools || []).map(text => ({ type: 'insert' as const, text }))]
+    }));
+
+  return { left: describe(left), right: describe(right), pairs };
+}
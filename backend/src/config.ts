@@ -0,0 +1,8 @@
+import { join } from 'path';
+import { homedir } from 'os';
+
+// Where Claude Code writes its per-project JSONL transcripts
+export const CLAUDE_PROJECTS_DIR = process.env.CLAUDE_PROJECTS_DIR || join(homedir(), '.claude', 'projects');
+
+// Where Déjà Claude keeps its own state (search index, caches)
+export const DATA_DIR = process.env.DEJA_CLAUDE_DATA_DIR || join(homedir(), '.deja-claude');
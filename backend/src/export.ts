@@ -0,0 +1,504 @@
+import { EventEmitter } from 'events';
+import { Writable } from 'stream';
+import { HistoryMessage, HistorySession, getSession } from './history.js';
+import { searchIndex } from './search.js';
+import { SearchMode } from './match.js';
+import { ZipWriter } from './archive.js';
+import { RedactionConfig, redactSession } from './redact.js';
+
+export type ExportFormat = 'md' | 'html' | 'json' | 'txt';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'html', 'json', 'txt'];
+
+export interface ExportOptions {
+  // Message roles to include, as filtered in the UI
+  roles: Set<string>;
+  thinking: boolean;
+  // Indices of tool messages shown collapsed: exported without input and output
+  collapsed: Set<number>;
+  // Mask detected secrets before rendering; null exports the transcript as is
+  redaction: RedactionConfig | null;
+}
+
+export interface ExportedFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+export interface SessionRef {
+  project: string;
+  sessionId: string;
+}
+
+// Which sessions go into an archive. Explicit sessions win; otherwise a search
+// result set or a project, optionally narrowed to a date range (YYYY-MM-DD).
+// A date range alone selects across all projects.
+export interface ArchiveSelection {
+  sessions?: SessionRef[];
+  project?: string;
+  query?: string;
+  mode?: SearchMode;
+  from?: string;
+  to?: string;
+}
+
+export interface ExportProgress {
+  jobId: string;
+  done: number;
+  total: number;
+  current?: string;
+  finished: boolean;
+  error?: string;
+}
+
+interface ExportEntry {
+  index: number;
+  message: HistoryMessage;
+  collapsed: boolean;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  txt: 'text/plain; charset=utf-8'
+};
+
+const FOOTER_LINK = 'https://github.com/consigcody94/deja-claude';
+
+export function exportSession(original: HistorySession, format: ExportFormat, options: ExportOptions): ExportedFile {
+  const session = options.redaction ? redactSession(original, options.redaction) : original;
+  const entries: ExportEntry[] = session.messages
+    .map((message, index) => ({ index, message, collapsed: message.role === 'tool' && options.collapsed.has(index) }))
+    .filter(({ message }) => options.roles.has(message.role) && (options.thinking || !message.isThinking));
+
+  const render = { md: toMarkdown, html: toHtml, json: toJson, txt: toText }[format];
+
+  return {
+    filename: `deja-claude-${session.id.slice(0, 8)}.${format}`,
+    contentType: CONTENT_TYPES[format],
+    body: render(session, entries)
+  };
+}
+
+function label(message: HistoryMessage): string {
+  if (message.isThinking) return 'Thinking';
+  if (message.role === 'user') return 'You';
+  if (message.role === 'tool') return `Tool: ${message.toolName || 'Unknown'}`;
+  return 'Claude';
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+// --- Markdown ---
+
+function toMarkdown(session: HistorySession, entries: ExportEntry[]): string {
+  const parts: string[] = [
+    `# Chat Session\n\n`,
+    `| Property | Value |\n`,
+    `|----------|-------|\n`,
+    `| **Project** | \`${session.project || 'Unknown'}\` |\n`,
+    `| **Session ID** | \`${session.id}\` |\n`,
+    `| **Date** | ${session.createdAt.toLocaleString()} |\n`,
+    `| **Messages** | ${session.messages.length} |\n`,
+    `\n---\n\n`
+  ];
+
+  for (const { index, message, collapsed } of entries) {
+    const timestamp = message.timestamp ? `\n> *${new Date(message.timestamp).toLocaleString()}*\n` : '';
+
+    if (message.isThinking) {
+      parts.push(`## 💭 Thinking (Message ${index + 1})\n${timestamp}\n${message.content.split('\n').map(l => `> ${l}`).join('\n')}\n\n---\n\n`);
+    } else if (message.role === 'user') {
+      parts.push(`## 💬 You (Message ${index + 1})\n${timestamp}\n${message.content}\n\n---\n\n`);
+    } else if (message.role === 'tool') {
+      parts.push(`## 🔧 Tool: \`${message.toolName || 'Unknown'}\` (Message ${index + 1})\n${timestamp}\n`);
+      if (collapsed) {
+        parts.push(`${message.content}\n\n`);
+      } else {
+        if (message.toolInput) {
+          parts.push(`### Input\n\n\`\`\`json\n${message.toolInput}\n\`\`\`\n\n`);
+        }
+        if (message.toolOutput) {
+          parts.push(`### ${message.isError ? 'Error' : 'Output'}\n\n\`\`\`\n${message.toolOutput}\n\`\`\`\n\n`);
+        }
+      }
+      parts.push(`---\n\n`);
+    } else {
+      parts.push(`## 🤖 Claude (Message ${index + 1})\n${timestamp}\n${message.content}\n\n---\n\n`);
+    }
+  }
+
+  parts.push(`\n---\n\n*Exported from [Déjà Claude](${FOOTER_LINK}) on ${new Date().toLocaleString()}*\n`);
+  return parts.join('');
+}
+
+// --- Plain text ---
+
+function toText(session: HistorySession, entries: ExportEntry[]): string {
+  const rule = '='.repeat(72);
+  const parts: string[] = [
+    `Chat Session\n`,
+    `Project:    ${session.project || 'Unknown'}\n`,
+    `Session ID: ${session.id}\n`,
+    `Date:       ${session.createdAt.toLocaleString()}\n`,
+    `Messages:   ${session.messages.length}\n`,
+    `${rule}\n\n`
+  ];
+
+  for (const { index, message, collapsed } of entries) {
+    const details = [
+      message.timestamp && new Date(message.timestamp).toLocaleString(),
+      message.durationMs !== undefined && formatDuration(message.durationMs),
+      message.isError && 'error'
+    ].filter(Boolean).join(', ');
+    parts.push(`[${index + 1}] ${label(message)}${details ? ` (${details})` : ''}\n\n`);
+
+    if (message.role === 'tool' && !collapsed && (message.toolInput || message.toolOutput)) {
+      if (message.toolInput) parts.push(`Input:\n${message.toolInput}\n\n`);
+      if (message.toolOutput) parts.push(`${message.isError ? 'Error' : 'Output'}:\n${message.toolOutput}\n\n`);
+    } else {
+      parts.push(`${message.content}\n\n`);
+    }
+    parts.push(`${'-'.repeat(72)}\n\n`);
+  }
+
+  parts.push(`Exported from Déjà Claude on ${new Date().toLocaleString()}\n`);
+  return parts.join('');
+}
+
+// --- JSON ---
+
+// Tool input is stored pretty-printed; hand it back as data where possible
+function parseToolInput(input: string): unknown {
+  try {
+    return JSON.parse(input);
+  } catch {
+    return input;
+  }
+}
+
+function toJson(session: HistorySession, entries: ExportEntry[]): string {
+  return JSON.stringify({
+    format: 'deja-claude-session',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    session: {
+      id: session.id,
+      project: session.project,
+      createdAt: session.createdAt.toISOString(),
+      summary: session.summary,
+      cwd: session.cwd,
+      gitBranch: session.gitBranch,
+      version: session.version,
+      models: session.models,
+      usage: session.usage,
+      messageCount: session.messages.length
+    },
+    messages: entries.map(({ index, message, collapsed }) => ({
+      index,
+      role: message.role,
+      type: message.isThinking ? 'thinking' : message.role === 'tool' ? 'tool_call' : 'text',
+      content: message.content,
+      timestamp: message.timestamp,
+      turnId: message.turnId,
+      model: message.model,
+      usage: message.usage,
+      tool: message.role === 'tool' ? {
+        name: message.toolName,
+        id: message.toolUseId,
+        input: !collapsed && message.toolInput ? parseToolInput(message.toolInput) : undefined,
+        output: !collapsed ? message.toolOutput : undefined,
+        isError: message.isError || false,
+        durationMs: message.durationMs
+      } : undefined
+    }))
+  }, null, 2);
+}
+
+// --- HTML ---
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const KEYWORDS = new Set([
+  // JavaScript / TypeScript
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else',
+  'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'implements', 'import', 'in', 'instanceof',
+  'interface', 'let', 'new', 'of', 'private', 'public', 'readonly', 'return', 'static', 'super', 'switch',
+  'this', 'throw', 'try', 'type', 'typeof', 'var', 'void', 'while', 'yield',
+  // Python
+  'and', 'as', 'def', 'elif', 'except', 'global', 'is', 'lambda', 'not', 'or', 'pass', 'raise', 'with',
+  // Go / Rust
+  'func', 'go', 'impl', 'mod', 'mut', 'package', 'pub', 'struct', 'trait', 'use',
+  // Shell
+  'done', 'esac', 'fi', 'then',
+  // Literals
+  'true', 'false', 'null', 'undefined', 'None', 'True', 'False', 'nil'
+]);
+
+const HASH_COMMENT_LANGUAGES = new Set(['python', 'py', 'bash', 'sh', 'shell', 'zsh', 'yaml', 'yml', 'toml', 'ruby', 'rb', 'dockerfile']);
+
+/**
+ * Small language-agnostic highlighter so exported HTML needs no scripts:
+ * comments, strings, numbers and common keywords.
+ */
+function highlightCode(code: string, language = ''): string {
+  const comment = HASH_COMMENT_LANGUAGES.has(language.toLowerCase())
+    ? '#[^\\n]*'
+    : language === 'json' ? '(?!)' : '\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/';
+  const token = new RegExp(
+    `(${comment})|("(?:\\\\.|[^"\\\\\\n])*"|'(?:\\\\.|[^'\\\\\\n])*'|\`(?:\\\\.|[^\`\\\\])*\`)|(\\b\\d+(?:\\.\\d+)?\\b)|(\\b[A-Za-z_]\\w*\\b)`,
+    'g'
+  );
+
+  let html = '';
+  let last = 0;
+  for (const match of code.matchAll(token)) {
+    const [text, isComment, isString, isNumber, word] = match;
+    const cls = isComment ? 'c' : isString ? 's' : isNumber ? 'n' : word && KEYWORDS.has(word) ? 'k' : null;
+    if (!cls) continue;
+    html += escapeHtml(code.slice(last, match.index)) + `<span class="${cls}">${escapeHtml(text)}</span>`;
+    last = match.index! + text.length;
+  }
+  return html + escapeHtml(code.slice(last));
+}
+
+// Prose with fenced code blocks and inline code; everything else stays preformatted text
+function renderContent(content: string): string {
+  const blocks: string[] = [];
+  const fence = /```(\w+)?\n?([\s\S]*?)```/g;
+  let last = 0;
+
+  const prose = (text: string) => {
+    if (!text.trim()) return;
+    const html = escapeHtml(text).replace(/`([^`\n]+)`/g, '<code>$1</code>');
+    blocks.push(`<div class="prose">${html}</div>`);
+  };
+
+  for (const match of content.matchAll(fence)) {
+    prose(content.slice(last, match.index));
+    const language = match[1] || '';
+    blocks.push(`<pre class="code"${language ? ` data-lang="${escapeHtml(language)}"` : ''}><code>${highlightCode(match[2].replace(/\n$/, ''), language)}</code></pre>`);
+    last = match.index! + match[0].length;
+  }
+  prose(content.slice(last));
+
+  return blocks.join('\n');
+}
+
+function renderMessage({ index, message, collapsed }: ExportEntry): string {
+  const role = message.isThinking ? 'thinking' : message.role;
+  const meta = [
+    message.timestamp && new Date(message.timestamp).toLocaleString(),
+    message.durationMs !== undefined && formatDuration(message.durationMs)
+  ].filter(Boolean).map(m => escapeHtml(String(m))).join(' · ');
+
+  const header = `<header><span class="who">${escapeHtml(label(message))}</span>` +
+    `${message.isError ? '<span class="badge">Error</span>' : ''}` +
+    `<span class="meta">#${index + 1}${meta ? ` · ${meta}` : ''}</span></header>`;
+
+  let body: string;
+  if (message.role === 'tool' && (message.toolInput || message.toolOutput)) {
+    body = `<details${collapsed ? '' : ' open'}><summary>${escapeHtml(message.content)}</summary>` +
+      (message.toolInput ? `<pre class="code" data-lang="json"><code>${highlightCode(message.toolInput, 'json')}</code></pre>` : '') +
+      (message.toolOutput ? `<pre class="output${message.isError ? ' error' : ''}">${escapeHtml(message.toolOutput)}</pre>` : '') +
+      `</details>`;
+  } else if (message.isThinking) {
+    body = `<details><summary>Show thinking</summary>${renderContent(message.content)}</details>`;
+  } else {
+    body = renderContent(message.content);
+  }
+
+  return `<section class="msg ${role}" id="m${index}">${header}${body}</section>`;
+}
+
+const HTML_STYLES = `
+  :root { color-scheme: dark; }
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #0a0a12; color: #e6e6ef; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 40px 24px; }
+  h1 { font-size: 22px; margin: 0 0 8px; }
+  table.props { border-collapse: collapse; font-size: 13px; margin-bottom: 32px; }
+  table.props td { padding: 2px 16px 2px 0; }
+  table.props td:first-child { color: #8a8aa0; }
+  .msg { padding: 16px 20px; margin: 12px 0; border-radius: 10px; border: 1px solid #1f1f2e; page-break-inside: avoid; }
+  .msg.user { background: #10101c; }
+  .msg.assistant { background: #0d1a1f; }
+  .msg.tool { background: #150f1f; }
+  .msg.thinking { background: #1c0f18; color: #b9a3b0; font-style: italic; }
+  header { display: flex; align-items: baseline; gap: 10px; margin-bottom: 8px; }
+  .who { font-weight: 600; }
+  .user .who { color: #60a5fa; } .assistant .who { color: #fb923c; } .tool .who { color: #c084fc; } .thinking .who { color: #f472b6; }
+  .meta { margin-left: auto; color: #6b6b80; font-size: 12px; font-family: ui-monospace, monospace; }
+  .badge { font-size: 11px; padding: 0 6px; border-radius: 4px; background: #7f1d1d; color: #fecaca; }
+  .prose { white-space: pre-wrap; word-wrap: break-word; }
+  code { font-family: "JetBrains Mono", ui-monospace, monospace; font-size: 13px; }
+  .prose code { background: #1b1b2a; padding: 1px 5px; border-radius: 4px; }
+  pre { margin: 10px 0; padding: 12px 14px; border-radius: 8px; overflow-x: auto; white-space: pre-wrap; word-wrap: break-word; font-size: 13px; }
+  pre.code { background: #05050a; border: 1px solid #1f1f2e; }
+  pre.output { background: #05050a; color: #a0a0b4; max-height: 480px; overflow-y: auto; font-family: ui-monospace, monospace; }
+  pre.output.error { color: #fca5a5; border: 1px solid #7f1d1d; }
+  summary { cursor: pointer; color: #c4c4d4; }
+  .c { color: #6a737d; font-style: italic; } .s { color: #98c379; } .n { color: #d19a66; } .k { color: #c678dd; }
+  footer { margin-top: 40px; color: #6b6b80; font-size: 12px; }
+  footer a { color: #22d3ee; }
+  @media print {
+    :root { color-scheme: light; }
+    body { background: #fff; color: #111; font-size: 12px; }
+    main { max-width: none; padding: 0; }
+    .msg, .msg.user, .msg.assistant, .msg.tool, .msg.thinking { background: #fff; border-color: #ddd; color: #111; }
+    pre.code, pre.output, .prose code { background: #f6f6f8; border-color: #ddd; color: #222; max-height: none; }
+    pre.output.error { color: #b91c1c; }
+    details > summary { list-style: none; }
+    details:not([open]) > *:not(summary) { display: none; }
+  }
+`;
+
+function toHtml(session: HistorySession, entries: ExportEntry[]): string {
+  const title = session.summary || 'Chat Session';
+  const props: Array<[string, string | undefined]> = [
+    ['Project', session.project || 'Unknown'],
+    ['Session ID', session.id],
+    ['Date', session.createdAt.toLocaleString()],
+    ['Messages', String(session.messages.length)],
+    ['Models', session.models?.join(', ')],
+    ['Branch', session.gitBranch],
+    ['Directory', session.cwd]
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(title)}</h1>
+<table class="props">
+${props.filter(([, value]) => value).map(([key, value]) => `<tr><td>${key}</td><td>${escapeHtml(value!)}</td></tr>`).join('\n')}
+</table>
+${entries.map(renderMessage).join('\n')}
+<footer>Exported from <a href="${FOOTER_LINK}">Déjà Claude</a> on ${escapeHtml(new Date().toLocaleString())}</footer>
+</main>
+</body>
+</html>
+`;
+}
+
+// --- Archives ---
+
+const SEARCH_PAGE = 200;
+
+/**
+ * A `YYYY-MM-DD` selection bound as a local-time instant: the start of the
+ * day, or its last millisecond when `endOfDay`. Null for anything else,
+ * including days that don't exist such as 2026-02-30.
+ */
+export function parseSelectionDate(day: string, endOfDay = false): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day);
+  if (!match) return null;
+  const [year, month, date] = match.slice(1).map(Number);
+  const parsed = endOfDay
+    ? new Date(year, month - 1, date, 23, 59, 59, 999)
+    : new Date(year, month - 1, date);
+  return parsed.getMonth() === month - 1 && parsed.getDate() === date ? parsed : null;
+}
+
+export async function resolveSelection(selection: ArchiveSelection): Promise<SessionRef[]> {
+  if (selection.sessions) {
+    return selection.sessions;
+  }
+
+  let candidates: Array<{ project: string; id: string; createdAt: string | Date }>;
+  if (selection.query) {
+    candidates = [];
+    let cursor: string | undefined;
+    do {
+      const page = await searchIndex.search(selection.query, { mode: selection.mode, limit: SEARCH_PAGE, cursor });
+      candidates.push(...page.results);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  } else {
+    candidates = await searchIndex.listSessions();
+  }
+
+  const from = selection.from ? parseSelectionDate(selection.from) : null;
+  const to = selection.to ? parseSelectionDate(selection.to, true) : null;
+
+  return candidates
+    .map(s => ({ project: s.project, sessionId: s.id, createdAt: new Date(s.createdAt) }))
+    .filter(s => !selection.project || s.project === selection.project)
+    .filter(s => (!from || s.createdAt >= from) && (!to || s.createdAt <= to))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map(({ project, sessionId }) => ({ project, sessionId }));
+}
+
+/**
+ * Writes a zip with one export per session (grouped by project folder) and a
+ * manifest.json index. Emits 'export:progress' as each session is added.
+ */
+export class ArchiveExporter extends EventEmitter {
+  async write(jobId: string, refs: SessionRef[], format: ExportFormat, options: ExportOptions, out: Writable): Promise<void> {
+    const zip = new ZipWriter(out);
+    const sessions: object[] = [];
+    const skipped: SessionRef[] = [];
+    const progress = (done: number, extra: Partial<ExportProgress> = {}) =>
+      this.emit('export:progress', { jobId, done, total: refs.length, finished: false, ...extra });
+
+    try {
+      for (const [i, ref] of refs.entries()) {
+        progress(i, { current: ref.sessionId });
+
+        const original = await getSession(ref.project, ref.sessionId);
+        if (!original) {
+          skipped.push(ref);
+          continue;
+        }
+
+        // Redact once up front so the manifest's summaries are masked too
+        const session = options.redaction ? redactSession(original, options.redaction) : original;
+        const file = exportSession(session, format, { ...options, redaction: null });
+        // Projects from other history roots are `<source>:<dir>`; colons are not allowed in Windows paths
+        const path = `${ref.project.replace(/:/g, '__')}/${session.id}.${format}`;
+        await zip.addFile(path, file.body, session.createdAt);
+        sessions.push({
+          project: session.project,
+          id: session.id,
+          summary: session.summary,
+          createdAt: session.createdAt.toISOString(),
+          messageCount: session.messages.length,
+          models: session.models,
+          file: path
+        });
+      }
+
+      await zip.addFile('manifest.json', JSON.stringify({
+        format: 'deja-claude-archive',
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        exportFormat: format,
+        sessions,
+        skipped
+      }, null, 2));
+      await zip.finish();
+      progress(refs.length, { finished: true });
+    } catch (error) {
+      progress(sessions.length, { finished: true, error: (error as Error).message });
+      out.destroy();
+    }
+  }
+}
+
+export const archiveExporter = new ArchiveExporter();
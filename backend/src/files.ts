@@ -1,5 +1,5 @@
 import { readdir, readFile, writeFile, stat, mkdir } from 'fs/promises';
-import { join, dirname, extname, basename } from 'path';
+import { join, dirname, extname, basename, relative } from 'path';
 import chokidar from 'chokidar';
 import { EventEmitter } from 'events';
 
@@ -49,6 +49,9 @@ const LANGUAGE_MAP: Record<string, string> = {
   '.svelte': 'svelte'
 };
 
+// Watched paths to ignore: dotfiles, node_modules and .git (matched relative to the watch root)
+const IGNORED_WATCH_PATTERN = /(^|[\/\\])(\.|node_modules|\.git)/;
+
 // Directories to ignore
 const IGNORED_DIRS = new Set([
   'node_modules',
@@ -155,14 +158,19 @@ export class FileManager extends EventEmitter {
     }
   }
 
-  watchDirectory(dirPath: string): void {
+  /**
+   * Watch a directory for changes. `depth` limits how many levels below
+   * `dirPath` are watched; pass `undefined` to watch the whole tree.
+   */
+  watchDirectory(dirPath: string, depth: number | undefined = 1): void {
     if (this.watchers.has(dirPath)) return;
 
     const watcher = chokidar.watch(dirPath, {
-      ignored: /(^|[\/\\])(\.|node_modules|\.git)/,
+      // Match relative to the root so watching inside a dot-directory (e.g. ~/.claude) still works
+      ignored: (path: string) => IGNORED_WATCH_PATTERN.test(relative(dirPath, path)),
       persistent: true,
       ignoreInitial: true,
-      depth: 1
+      depth
     });
 
     watcher.on('add', (path) => {
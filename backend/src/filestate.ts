@@ -0,0 +1,234 @@
+import { diffLines } from './compare.js';
+import { HistoryMessage, HistorySession } from './history.js';
+
+export type FileStepKind = 'write' | 'edit';
+
+// One Write, Edit or MultiEdit call that changed the file
+export interface FileStep {
+  messageIndex: number;
+  toolName: string;
+  kind: FileStepKind;
+  timestamp?: string;
+  // False when an edit's old_string was not in the reconstructed content, so its result is partly guessed
+  applied: boolean;
+}
+
+export interface SessionFile {
+  path: string;
+  steps: FileStep[];
+}
+
+export interface FileState {
+  // Latest step at or before the requested message; null for the file as it was before the session changed it
+  at: number | null;
+  content: string;
+  // False when the file existed before the session and was never read in full: only the edited regions are known
+  complete: boolean;
+}
+
+export interface FileHistory extends FileState {
+  path: string;
+  steps: FileStep[];
+  // Present when a second step is asked for with `from`
+  from?: FileState;
+  diff?: string;
+}
+
+export class FileStateError extends Error {}
+
+const FILE_TOOLS: Record<string, FileStepKind> = {
+  Write: 'write',
+  Edit: 'edit',
+  MultiEdit: 'edit'
+};
+
+// Stands between edited regions of a file whose other contents are unknown
+const FRAGMENT_SEPARATOR = '\n⋯\n';
+
+const DIFF_CONTEXT_LINES = 3;
+
+// Read output is `cat -n` style: right-aligned line number, then a tab or arrow
+const READ_LINE_PATTERN = /^\s*(\d+)(?:\t|→)(.*)$/;
+
+interface FileEdit {
+  old_string?: unknown;
+  new_string?: unknown;
+  replace_all?: unknown;
+}
+
+interface FileCall {
+  messageIndex: number;
+  message: HistoryMessage;
+  input: Record<string, unknown>;
+}
+
+function parseInput(message: HistoryMessage): Record<string, unknown> | null {
+  if (message.role !== 'tool' || !message.toolInput || message.isError) return null;
+  try {
+    const input = JSON.parse(message.toolInput);
+    return input && typeof input.file_path === 'string' ? input : null;
+  } catch {
+    return null;
+  }
+}
+
+// Successful calls of the given tools, per file path, in message order
+function collectCalls(session: HistorySession, tools: string[]): Map<string, FileCall[]> {
+  const calls = new Map<string, FileCall[]>();
+  session.messages.forEach((message, messageIndex) => {
+    if (!message.toolName || !tools.includes(message.toolName)) return;
+    const input = parseInput(message);
+    if (!input) return;
+    const path = input.file_path as string;
+    if (!calls.has(path)) calls.set(path, []);
+    calls.get(path)!.push({ messageIndex, message, input });
+  });
+  return calls;
+}
+
+/**
+ * Full file contents from a Read call's output, or null if the read was
+ * partial (offset/limit) or the output does not number every line from 1.
+ */
+function readContents(call: FileCall): string | null {
+  if (call.input.offset !== undefined || call.input.limit !== undefined || !call.message.toolOutput) return null;
+  const lines: string[] = [];
+  for (const line of call.message.toolOutput.split('\n')) {
+    const match = line.match(READ_LINE_PATTERN);
+    // Output can end in a blank line or a system reminder after the numbered lines
+    if (!match) break;
+    if (Number(match[1]) !== lines.length + 1) return null;
+    lines.push(match[2]);
+  }
+  return lines.length > 0 ? lines.join('\n') : null;
+}
+
+function applyEdit(state: FileState, edit: FileEdit): boolean {
+  const oldString = typeof edit.old_string === 'string' ? edit.old_string : '';
+  const newString = typeof edit.new_string === 'string' ? edit.new_string : '';
+  if (oldString && state.content.includes(oldString)) {
+    state.content = edit.replace_all === true
+      ? state.content.split(oldString).join(newString)
+      : state.content.replace(oldString, () => newString);
+    return true;
+  }
+  // Never saw that region of the file; keep what was written there
+  state.content = state.content ? `${state.content}${FRAGMENT_SEPARATOR}${newString}` : newString;
+  state.complete = false;
+  return false;
+}
+
+/**
+ * Replay one file's Write and Edit calls. The starting point is empty, or the
+ * last full Read of the file before its first change. Returns every step and
+ * the state after each one.
+ */
+function replayFile(changes: FileCall[], reads: FileCall[]): { initial: FileState; states: Array<{ step: FileStep; state: FileState }> } {
+  const firstChange = changes[0]?.messageIndex ?? Infinity;
+  const base = reads
+    .filter(read => read.messageIndex < firstChange)
+    .map(readContents)
+    .filter((content): content is string => content !== null)
+    .pop();
+  const firstIsWrite = changes[0]?.message.toolName === 'Write';
+  const initial: FileState = { at: null, content: base ?? '', complete: base !== undefined || firstIsWrite };
+
+  let current = { ...initial };
+  const states = changes.map(({ messageIndex, message, input }) => {
+    const next: FileState = { ...current, at: messageIndex };
+    let applied = true;
+    if (message.toolName === 'Write') {
+      next.content = typeof input.content === 'string' ? input.content : '';
+      next.complete = true;
+    } else if (message.toolName === 'Edit') {
+      applied = applyEdit(next, input);
+    } else if (Array.isArray(input.edits)) {
+      for (const edit of input.edits) {
+        applied = applyEdit(next, edit) && applied;
+      }
+    }
+    current = next;
+    return {
+      step: { messageIndex, toolName: message.toolName!, kind: FILE_TOOLS[message.toolName!], timestamp: message.timestamp, applied },
+      state: next
+    };
+  });
+
+  return { initial, states };
+}
+
+// Files the session wrote or edited, with the steps that changed each
+export function listSessionFiles(session: HistorySession): SessionFile[] {
+  const reads = collectCalls(session, ['Read']);
+  return [...collectCalls(session, Object.keys(FILE_TOOLS)).entries()]
+    .map(([path, calls]) => ({ path, steps: replayFile(calls, reads.get(path) || []).states.map(s => s.step) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Standard unified diff with DIFF_CONTEXT_LINES lines of context
+export function unifiedDiff(path: string, before: string, after: string): string {
+  const ops = diffLines(before ? before.split('\n') : [], after ? after.split('\n') : []);
+  const changed = ops.map((op, i) => (op.type === 'equal' ? -1 : i)).filter(i => i !== -1);
+  if (changed.length === 0) return '';
+
+  // Runs of changes close enough to share context form one hunk
+  const ranges: Array<[number, number]> = [];
+  for (const i of changed) {
+    const last = ranges[ranges.length - 1];
+    if (last && i - last[1] <= 2 * DIFF_CONTEXT_LINES + 1) last[1] = i;
+    else ranges.push([i, i]);
+  }
+
+  // Line numbers before each op, 1-based
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let oldCount = 1;
+  let newCount = 1;
+  for (const op of ops) {
+    oldLine.push(oldCount);
+    newLine.push(newCount);
+    if (op.type !== 'insert') oldCount++;
+    if (op.type !== 'delete') newCount++;
+  }
+
+  const lines = [`--- a/${path.replace(/^\//, '')}`, `+++ b/${path.replace(/^\//, '')}`];
+  for (const [first, last] of ranges) {
+    const start = Math.max(0, first - DIFF_CONTEXT_LINES);
+    const end = Math.min(ops.length - 1, last + DIFF_CONTEXT_LINES);
+    const hunk = ops.slice(start, end + 1);
+    const oldLength = hunk.filter(op => op.type !== 'insert').length;
+    const newLength = hunk.filter(op => op.type !== 'delete').length;
+    // An empty side is numbered from the line before it, as diff(1) does
+    const oldStart = oldLength === 0 ? oldLine[start] - 1 : oldLine[start];
+    const newStart = newLength === 0 ? newLine[start] - 1 : newLine[start];
+    lines.push(`@@ -${oldStart},${oldLength} +${newStart},${newLength} @@`);
+    for (const op of hunk) {
+      lines.push(`${op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+'}${op.text}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * A file as it stood after message `at` (or at the end of the session), and
+ * optionally a unified diff against how it stood after message `from`.
+ * Pass -1 for the file before the session's first change.
+ */
+export function getFileHistory(session: HistorySession, path: string, at?: number, from?: number): FileHistory {
+  const changes = collectCalls(session, Object.keys(FILE_TOOLS)).get(path);
+  if (!changes) {
+    throw new FileStateError(`The session did not write or edit ${path}`);
+  }
+  const { initial, states } = replayFile(changes, collectCalls(session, ['Read']).get(path) || []);
+
+  const stateAt = (index: number) =>
+    states.filter(s => s.step.messageIndex <= index).pop()?.state ?? initial;
+
+  const current = stateAt(at ?? Infinity);
+  const history: FileHistory = { path, steps: states.map(s => s.step), ...current };
+  if (from !== undefined) {
+    history.from = stateAt(from);
+    history.diff = unifiedDiff(path, history.from.content, current.content);
+  }
+  return history;
+}
@@ -0,0 +1,189 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { HistorySession } from './history.js';
+
+const execFileAsync = promisify(execFile);
+
+export type CommitMatch = 'time' | 'bash';
+
+export interface LinkedCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: string;
+  subject: string;
+  filesChanged: number;
+  insertions: number;
+  deletions: number;
+  // How the commit was tied to the session; both when it was committed from a Bash call in the window
+  matchedBy: CommitMatch[];
+  // Message of the Bash call that made the commit
+  messageIndex?: number;
+}
+
+export interface SessionCommits {
+  // False when the session has no working directory or it is not (or no longer) a git repository
+  available: boolean;
+  reason?: string;
+  repo?: string;
+  commits: LinkedCommit[];
+}
+
+export class GitError extends Error {}
+
+// Commits made shortly after the last message still belong to the session
+const COMMIT_GRACE_MS = 15 * 60 * 1000;
+
+const GIT_TIMEOUT_MS = 10_000;
+
+// Larger diffs are cut off; the UI only shows them inline
+const MAX_DIFF_BYTES = 512 * 1024;
+
+const HASH_PATTERN = /^[0-9a-f]{4,40}$/i;
+
+// `git commit` prints "[main 1a2b3c4] Subject", or "[main (root-commit) 1a2b3c4] …"
+const COMMIT_OUTPUT_PATTERN = /^\[[^\]\s]+(?: \([^)]*\))? ([0-9a-f]{7,40})\]/gm;
+
+const LOG_FORMAT = '%x1e%H%x1f%h%x1f%an%x1f%cI%x1f%s';
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', ['-C', cwd, ...args], {
+    timeout: GIT_TIMEOUT_MS,
+    maxBuffer: 16 * 1024 * 1024,
+    encoding: 'utf-8'
+  });
+  return stdout;
+}
+
+async function findRepo(cwd: string): Promise<string | null> {
+  try {
+    return (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  } catch {
+    return null;
+  }
+}
+
+// `git log --shortstat` output: one record per commit, header fields then the stat line
+function parseLog(output: string): Omit<LinkedCommit, 'matchedBy'>[] {
+  return output.split('\x1e').filter(record => record.trim()).map(record => {
+    const [header, ...rest] = record.split('\n');
+    const [hash, shortHash, author, date, subject] = header.split('\x1f');
+    const stat = rest.join(' ');
+    const count = (pattern: RegExp) => Number(stat.match(pattern)?.[1] || 0);
+    return {
+      hash,
+      shortHash,
+      author,
+      date,
+      subject,
+      filesChanged: count(/(\d+) files? changed/),
+      insertions: count(/(\d+) insertions?\(\+\)/),
+      deletions: count(/(\d+) deletions?\(-\)/)
+    };
+  });
+}
+
+// Short hashes printed by `git commit` calls in the session, with the message they came from
+function findBashCommits(session: HistorySession): Array<{ shortHash: string; messageIndex: number }> {
+  const found: Array<{ shortHash: string; messageIndex: number }> = [];
+  session.messages.forEach((message, messageIndex) => {
+    if (message.toolName !== 'Bash' || !message.toolInput || !message.toolOutput) return;
+    try {
+      const command = JSON.parse(message.toolInput).command;
+      if (typeof command !== 'string' || !/\bgit\b[^\n]*\bcommit\b/.test(command)) return;
+    } catch {
+      return;
+    }
+    for (const match of message.toolOutput.matchAll(COMMIT_OUTPUT_PATTERN)) {
+      found.push({ shortHash: match[1], messageIndex });
+    }
+  });
+  return found;
+}
+
+function sessionWindow(session: HistorySession): { since: Date; until: Date } {
+  const times = session.messages
+    .map(m => (m.timestamp ? Date.parse(m.timestamp) : NaN))
+    .filter(t => !isNaN(t));
+  const start = times.length > 0 ? Math.min(...times) : session.createdAt.getTime();
+  const end = times.length > 0 ? Math.max(...times) : start;
+  return { since: new Date(start), until: new Date(end + COMMIT_GRACE_MS) };
+}
+
+/**
+ * Commits in the session's repository that were committed while it ran (up
+ * to COMMIT_GRACE_MS after the last message), plus any commit whose hash a
+ * `git commit` Bash call printed, oldest first.
+ */
+export async function findSessionCommits(session: HistorySession): Promise<SessionCommits> {
+  if (!session.cwd) {
+    return { available: false, reason: 'The transcript does not record a working directory', commits: [] };
+  }
+
+  const repo = await findRepo(session.cwd);
+  if (!repo) {
+    return { available: false, reason: `${session.cwd} is not a git repository on this machine`, commits: [] };
+  }
+
+  const { since, until } = sessionWindow(session);
+  const commits = new Map<string, LinkedCommit>();
+
+  let inWindow: Omit<LinkedCommit, 'matchedBy'>[];
+  try {
+    inWindow = parseLog(await git(repo, [
+      'log', '--all', '--shortstat', `--format=${LOG_FORMAT}`,
+      `--since=${since.toISOString()}`, `--until=${until.toISOString()}`
+    ]));
+  } catch (error) {
+    // Timed out, or the repository has no commits yet
+    return { available: false, reason: `Could not read the history of ${repo}: ${(error as Error).message}`, commits: [] };
+  }
+  for (const commit of inWindow) {
+    commits.set(commit.hash, { ...commit, matchedBy: ['time'] });
+  }
+
+  for (const { shortHash, messageIndex } of findBashCommits(session)) {
+    const existing = [...commits.values()].find(c => c.hash.startsWith(shortHash));
+    if (existing) {
+      if (!existing.matchedBy.includes('bash')) existing.matchedBy.push('bash');
+      existing.messageIndex ??= messageIndex;
+      continue;
+    }
+    try {
+      // May be on another branch or already rebased away
+      const [commit] = parseLog(await git(repo, ['log', '-1', '--shortstat', `--format=${LOG_FORMAT}`, `${shortHash}^{commit}`]));
+      if (commit) commits.set(commit.hash, { ...commit, matchedBy: ['bash'], messageIndex });
+    } catch {
+      // Hash no longer exists in the repository
+    }
+  }
+
+  const sorted = [...commits.values()].sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+  return { available: true, repo, commits: sorted };
+}
+
+// Patch of one commit in the session's repository
+export async function getCommitDiff(session: HistorySession, hash: string): Promise<{ diff: string; truncated: boolean }> {
+  if (!HASH_PATTERN.test(hash)) {
+    throw new GitError(`Invalid commit hash "${hash}"`);
+  }
+  const repo = session.cwd ? await findRepo(session.cwd) : null;
+  if (!repo) {
+    throw new GitError('The session is not linked to a git repository');
+  }
+
+  let diff: string;
+  try {
+    diff = await git(repo, ['show', '--format=', '--patch', '--no-color', `${hash}^{commit}`]);
+  } catch (error) {
+    const { code, stdout } = error as NodeJS.ErrnoException & { stdout?: string };
+    // Output beyond git()'s buffer: what was read is already more than gets returned
+    if (code !== 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER' || !stdout) {
+      throw new GitError(`Commit ${hash} not found in ${repo}`);
+    }
+    diff = stdout;
+  }
+
+  const truncated = Buffer.byteLength(diff) > MAX_DIFF_BYTES;
+  return { diff: truncated ? Buffer.from(diff).subarray(0, MAX_DIFF_BYTES).toString('utf-8') : diff, truncated };
+}
@@ -1,6 +1,14 @@
-import { readdir, readFile, stat } from 'fs/promises';
+import { readdir, stat } from 'fs/promises';
 import { join } from 'path';
-import { homedir } from 'os';
+import { TranscriptDiagnostics, readTranscript } from './transcript.js';
+import { loadSources, parseProjectId, resolveProjectDir, resolveSessionFile, toProjectId } from './sources.js';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
 
 export interface HistoryMessage {
   role: 'user' | 'assistant' | 'tool';
@@ -8,37 +16,63 @@ export interface HistoryMessage {
   timestamp?: string;
   toolName?: string;
   toolInput?: string;
+  // Tool calls are paired with their result by tool_use id
+  toolUseId?: string;
+  // Assistant turn that issued the call; calls sharing a turn ran in parallel
+  turnId?: string;
+  toolOutput?: string;
+  isError?: boolean;
+  // Time from the tool call to its result
+  durationMs?: number;
   isThinking?: boolean;
+  model?: string;
+  // Usage of the API response this message came from, counted once per response
+  usage?: TokenUsage;
 }
 
 export interface HistorySession {
   id: string;
   project: string;
+  // Id of the history root the transcript was read from
+  source: string;
   messages: HistoryMessage[];
   createdAt: Date;
   summary?: string;
+  models?: string[];
+  usage?: TokenUsage;
+  cwd?: string;
+  gitBranch?: string;
+  version?: string;
 }
 
 export interface ProjectInfo {
   path: string;
   name: string;
+  source: string;
   sessionCount: number;
   lastActivity: Date;
 }
 
-const CLAUDE_PROJECTS_DIR = join(homedir(), '.claude', 'projects');
-
 export async function getProjects(): Promise<ProjectInfo[]> {
   const projects: ProjectInfo[] = [];
 
-  try {
-    const entries = await readdir(CLAUDE_PROJECTS_DIR);
+  for (const source of await loadSources()) {
+    let entries: string[];
+    try {
+      entries = await readdir(source.path);
+    } catch (error) {
+      // Configured roots may be unmounted, and the import archive only exists after the first import
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Error reading projects in ${source.path}:`, error);
+      }
+      continue;
+    }
 
     for (const entry of entries) {
-      const projectPath = join(CLAUDE_PROJECTS_DIR, entry);
-      const projectStat = await stat(projectPath);
+      const projectPath = join(source.path, entry);
+      const projectStat = await stat(projectPath).catch(() => null);
 
-      if (projectStat.isDirectory()) {
+      if (projectStat?.isDirectory()) {
         const sessions = await readdir(projectPath);
         const jsonlFiles = sessions.filter(f => f.endsWith('.jsonl'));
 
@@ -52,35 +86,58 @@ export async function getProjects(): Promise<ProjectInfo[]> {
         }
 
         // Get actual filtered session count (only count meaningful sessions)
-        const filteredSessions = await getProjectSessions(entry);
+        const filteredSessions = await getProjectSessions(toProjectId(source.id, entry));
 
         // Skip projects with no meaningful sessions
         if (filteredSessions.length === 0) continue;
 
-        // Decode project path (they're URL-encoded with dashes)
-        const decodedPath = entry.replace(/-/g, '/');
-
         projects.push({
-          path: entry,
-          name: decodedPath,
+          path: toProjectId(source.id, entry),
+          name: resolveProjectPath(entry, filteredSessions),
+          source: source.id,
           sessionCount: filteredSessions.length,
           lastActivity
         });
       }
     }
-
-    // Sort by last activity
-    projects.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
-  } catch (error) {
-    console.error('Error reading projects:', error);
   }
 
+  // Sort by last activity
+  projects.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
+
   return projects;
 }
 
+// Claude Code names project directories after the working directory with
+// every character other than letters and digits replaced by a dash
+export function encodeProjectPath(path: string): string {
+  return path.replace(/[^a-zA-Z0-9]/g, '-');
+}
+
+/**
+ * Best-effort decode of a project directory name. Lossy: dashes, dots and
+ * underscores in the original path all come back as separators.
+ */
+export function decodeProjectDir(entry: string): string {
+  // C:\Users\me\app is stored as C--Users-me-app
+  const windows = entry.match(/^([a-zA-Z])--(.*)$/);
+  if (windows) {
+    return `${windows[1]}:\\${windows[2].replace(/-/g, '\\')}`;
+  }
+  return entry.replace(/-/g, '/');
+}
+
+// The real path comes from the cwd recorded in the project's transcripts
+function resolveProjectPath(entry: string, sessions: HistorySession[]): string {
+  const cwds = sessions.map(s => s.cwd).filter((cwd): cwd is string => !!cwd);
+  // Prefer a cwd that encodes to this directory's name; long paths may be shortened in the name
+  return cwds.find(cwd => encodeProjectPath(cwd) === entry) || cwds[0] || decodeProjectDir(entry);
+}
+
 export async function getProjectSessions(projectPath: string): Promise<HistorySession[]> {
   const sessions: HistorySession[] = [];
-  const fullPath = join(CLAUDE_PROJECTS_DIR, projectPath);
+  const fullPath = await resolveProjectDir(projectPath);
+  if (!fullPath) return sessions;
 
   try {
     const entries = await readdir(fullPath);
@@ -89,34 +146,29 @@ export async function getProjectSessions(projectPath: string): Promise<HistorySe
     for (const file of jsonlFiles) {
       const sessionId = file.replace('.jsonl', '');
       const filePath = join(fullPath, file);
-      const fileStat = await stat(filePath);
-
-      const content = await readFile(filePath, 'utf-8');
-      const messages = parseJsonlMessages(content);
-
-      // Only include sessions with actual meaningful content
-      // Skip empty sessions, warmups, and sessions with only 1-2 messages
-      if (messages.length < 3) continue;
-
-      // Skip warmup/test sessions
-      const firstUserMsg = messages.find(m => m.role === 'user' && m.content.length > 0);
-      const firstContent = firstUserMsg?.content.toLowerCase() || '';
-      if (firstContent === 'warmup' ||
-          firstContent === 'test' ||
-          firstContent === 'hi' ||
-          firstContent === 'hello' ||
-          firstContent.length < 5) continue;
-
-      // Generate summary from first user message (already found above)
-      const summary = firstUserMsg?.content.slice(0, 100) || 'Empty session';
-
-      sessions.push({
-        id: sessionId,
-        project: projectPath,
-        messages,
-        createdAt: fileStat.birthtime,
-        summary
-      });
+
+      // One unreadable transcript must not hide the rest of the project
+      try {
+        const fileStat = await stat(filePath);
+        const { messages, metadata } = await readTranscript(filePath);
+
+        // Only include sessions with actual meaningful content
+        if (!isMeaningfulSession(messages)) continue;
+
+        const summary = summarizeSession(messages);
+
+        sessions.push({
+          id: sessionId,
+          project: projectPath,
+          source: parseProjectId(projectPath).source,
+          messages,
+          createdAt: fileStat.birthtime,
+          summary,
+          ...metadata
+        });
+      } catch (error) {
+        console.error(`Error reading session ${filePath}:`, error);
+      }
     }
 
     // Sort by creation date (newest first)
@@ -129,234 +181,73 @@ export async function getProjectSessions(projectPath: string): Promise<HistorySe
 }
 
 export async function getSession(projectPath: string, sessionId: string): Promise<HistorySession | null> {
-  const filePath = join(CLAUDE_PROJECTS_DIR, projectPath, `${sessionId}.jsonl`);
+  const filePath = await resolveSessionFile(projectPath, sessionId);
+  if (!filePath) return null;
 
   try {
     const fileStat = await stat(filePath);
-    const content = await readFile(filePath, 'utf-8');
-    const messages = parseJsonlMessages(content);
+    const { messages, metadata } = await readTranscript(filePath);
 
     return {
       id: sessionId,
       project: projectPath,
+      source: parseProjectId(projectPath).source,
       messages,
-      createdAt: fileStat.birthtime
+      createdAt: fileStat.birthtime,
+      summary: summarizeSession(messages),
+      ...metadata
     };
   } catch {
     return null;
   }
 }
 
-export interface SearchMatch {
-  messageIndex: number;
-  preview: string;
-  role: string;
-}
-
-export interface SearchResult extends HistorySession {
-  matches: SearchMatch[];
-}
-
-export async function searchHistory(query: string, limit: number = 50): Promise<SearchResult[]> {
-  const results: SearchResult[] = [];
-  const queryLower = query.toLowerCase();
-
-  const projects = await getProjects();
-
-  for (const project of projects) {
-    const sessions = await getProjectSessions(project.path);
-
-    for (const session of sessions) {
-      const matches: SearchMatch[] = [];
-
-      session.messages.forEach((m, idx) => {
-        const contentLower = m.content.toLowerCase();
-        if (contentLower.includes(queryLower)) {
-          // Extract preview with context around match
-          const matchIdx = contentLower.indexOf(queryLower);
-          const start = Math.max(0, matchIdx - 40);
-          const end = Math.min(m.content.length, matchIdx + query.length + 40);
-          let preview = m.content.slice(start, end).replace(/\n/g, ' ');
-          if (start > 0) preview = '...' + preview;
-          if (end < m.content.length) preview = preview + '...';
-
-          matches.push({
-            messageIndex: idx,
-            preview,
-            role: m.role
-          });
-        }
-      });
-
-      if (matches.length > 0) {
-        results.push({
-          ...session,
-          matches
-        });
-        if (results.length >= limit) break;
-      }
-    }
+// The session `claude --continue` would pick in the project: the transcript written to last
+export async function getLatestSessionId(projectPath: string): Promise<string | null> {
+  const dir = await resolveProjectDir(projectPath);
+  if (!dir) return null;
 
-    if (results.length >= limit) break;
+  try {
+    const transcripts = await Promise.all(
+      (await readdir(dir))
+        .filter(f => f.endsWith('.jsonl'))
+        .map(async f => ({ id: f.replace('.jsonl', ''), mtime: (await stat(join(dir, f))).mtimeMs }))
+    );
+    transcripts.sort((a, b) => b.mtime - a.mtime);
+    return transcripts[0]?.id ?? null;
+  } catch {
+    return null;
   }
-
-  return results;
 }
 
-function parseJsonlMessages(content: string): HistoryMessage[] {
-  const messages: HistoryMessage[] = [];
-  const lines = content.trim().split('\n').filter(l => l);
-
-  // Track seen UUIDs to avoid duplicates
-  const seenUuids = new Set<string>();
-  // Track message content to merge consecutive assistant messages
-  let lastAssistantContent = '';
-  let lastAssistantTimestamp = '';
-
-  for (const line of lines) {
-    try {
-      const parsed = JSON.parse(line);
-
-      // Skip non-message types
-      if (!parsed.type || parsed.type === 'summary' || parsed.type === 'file-history-snapshot') {
-        continue;
-      }
-
-      // Skip duplicates
-      if (parsed.uuid && seenUuids.has(parsed.uuid)) {
-        continue;
-      }
-      if (parsed.uuid) {
-        seenUuids.add(parsed.uuid);
-      }
-
-      const timestamp = parsed.timestamp;
-
-      if (parsed.type === 'user') {
-        // Flush any pending assistant message
-        if (lastAssistantContent) {
-          messages.push({
-            role: 'assistant',
-            content: lastAssistantContent.trim(),
-            timestamp: lastAssistantTimestamp
-          });
-          lastAssistantContent = '';
-        }
-
-        const userContent = extractUserContent(parsed.message?.content);
-        if (userContent) {
-          messages.push({
-            role: 'user',
-            content: userContent,
-            timestamp
-          });
-        }
-      } else if (parsed.type === 'assistant') {
-        const assistantContent = extractAssistantContent(parsed.message?.content);
-
-        // Accumulate assistant content
-        if (assistantContent.text) {
-          if (lastAssistantContent) {
-            lastAssistantContent += '\n' + assistantContent.text;
-          } else {
-            lastAssistantContent = assistantContent.text;
-            lastAssistantTimestamp = timestamp;
-          }
-        }
+export async function getSessionDiagnostics(projectPath: string, sessionId: string): Promise<TranscriptDiagnostics | null> {
+  const filePath = await resolveSessionFile(projectPath, sessionId);
+  if (!filePath) return null;
 
-        // Tool use is added as a separate message
-        if (assistantContent.toolUse) {
-          // Flush any pending text first
-          if (lastAssistantContent) {
-            messages.push({
-              role: 'assistant',
-              content: lastAssistantContent.trim(),
-              timestamp: lastAssistantTimestamp
-            });
-            lastAssistantContent = '';
-          }
-
-          messages.push({
-            role: 'tool',
-            content: `Using tool: ${assistantContent.toolUse.name}`,
-            toolName: assistantContent.toolUse.name,
-            toolInput: JSON.stringify(assistantContent.toolUse.input, null, 2),
-            timestamp
-          });
-        }
-      }
-    } catch {
-      // Skip malformed lines
-    }
-  }
-
-  // Flush any remaining assistant content
-  if (lastAssistantContent) {
-    messages.push({
-      role: 'assistant',
-      content: lastAssistantContent.trim(),
-      timestamp: lastAssistantTimestamp
-    });
+  try {
+    await stat(filePath);
+    const { diagnostics } = await readTranscript(filePath);
+    return diagnostics;
+  } catch {
+    return null;
   }
-
-  return messages;
 }
 
-function extractUserContent(content: any): string {
-  if (!content) return '';
-
-  if (typeof content === 'string') {
-    return content;
-  }
-
-  if (Array.isArray(content)) {
-    const parts: string[] = [];
-
-    for (const block of content) {
-      if (block.type === 'text') {
-        parts.push(block.text);
-      } else if (block.type === 'tool_result') {
-        // Tool results - extract the text content
-        if (Array.isArray(block.content)) {
-          for (const resultBlock of block.content) {
-            if (resultBlock.type === 'text' && resultBlock.text) {
-              parts.push(`[Tool Result]\n${resultBlock.text}`);
-            }
-          }
-        } else if (typeof block.content === 'string') {
-          parts.push(`[Tool Result]\n${block.content}`);
-        }
-      }
-    }
-
-    return parts.join('\n');
-  }
-
-  return '';
+// Skip empty sessions, warmups, and sessions with only 1-2 messages
+export function isMeaningfulSession(messages: HistoryMessage[]): boolean {
+  if (messages.length < 3) return false;
+
+  const firstUserMsg = messages.find(m => m.role === 'user' && m.content.length > 0);
+  const firstContent = firstUserMsg?.content.toLowerCase() || '';
+  return !(firstContent === 'warmup' ||
+    firstContent === 'test' ||
+    firstContent === 'hi' ||
+    firstContent === 'hello' ||
+    firstContent.length < 5);
 }
 
-function extractAssistantContent(content: any): { text: string; toolUse: { name: string; input: any } | null } {
-  if (!content) return { text: '', toolUse: null };
-
-  if (typeof content === 'string') {
-    return { text: content, toolUse: null };
-  }
-
-  if (Array.isArray(content)) {
-    const textParts: string[] = [];
-    let toolUse: { name: string; input: any } | null = null;
-
-    for (const block of content) {
-      if (block.type === 'text' && block.text) {
-        textParts.push(block.text);
-      } else if (block.type === 'tool_use') {
-        toolUse = { name: block.name, input: block.input };
-      }
-      // Skip 'thinking' blocks - they're internal
-    }
-
-    return { text: textParts.join('\n'), toolUse };
-  }
-
-  return { text: '', toolUse: null };
+// Generate summary from first user message
+export function summarizeSession(messages: HistoryMessage[]): string {
+  const firstUserMsg = messages.find(m => m.role === 'user' && m.content.length > 0);
+  return firstUserMsg?.content.slice(0, 100) || 'Empty session';
 }
@@ -0,0 +1,137 @@
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { join, posix } from 'path';
+import { Readable } from 'stream';
+import { createGunzip } from 'zlib';
+import { readTar } from './archive.js';
+import { encodeProjectPath } from './history.js';
+import { ARCHIVE_DIR, ARCHIVE_SOURCE, SAFE_NAME, toProjectId } from './sources.js';
+
+export interface ImportResult {
+  imported: Array<{ project: string; sessionId: string }>;
+  skipped: Array<{ name: string; reason: string }>;
+}
+
+export class ImportError extends Error {}
+
+// Transcripts whose project cannot be worked out from the archive or their cwd
+const FALLBACK_PROJECT = 'imported';
+
+// Decompressed archives beyond this are rejected rather than inflated into memory (gzip bombs)
+const MAX_UNPACKED_BYTES = 1024 * 1024 * 1024;
+
+// How far into a transcript to look for the recorded working directory
+const CWD_SCAN_LINES = 50;
+
+function isGzip(data: Buffer): boolean {
+  return data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+class UnpackLimitError extends Error {}
+
+// Inflates on the zlib thread pool, chunk by chunk, and stops once `maxBytes` is passed
+async function* gunzip(data: Buffer, maxBytes: number): AsyncGenerator<Buffer> {
+  const stream = createGunzip();
+  stream.end(data);
+  let total = 0;
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    total += chunk.length;
+    if (total > maxBytes) throw new UnpackLimitError();
+    yield chunk;
+  }
+}
+
+// First parseable line's cwd; null when the file is not JSONL at all
+function inspectTranscript(data: Buffer): { cwd?: string } | null {
+  const lines = data.toString('utf-8').split('\n', CWD_SCAN_LINES).filter(line => line.trim());
+  if (lines.length === 0) return null;
+
+  let parsed = false;
+  for (const line of lines) {
+    try {
+      const entry = JSON.parse(line);
+      parsed = true;
+      if (typeof entry?.cwd === 'string') return { cwd: entry.cwd };
+    } catch {
+      // Transcripts cut off mid-write end in a partial line; keep looking
+    }
+  }
+  return parsed ? {} : null;
+}
+
+/**
+ * Copy uploaded transcripts into the managed archive root. `filename` picks
+ * the format: a single `.jsonl` transcript, or a `.tar` / `.tar.gz` / `.tgz`
+ * of project directories (e.g. a tarball of someone's ~/.claude/projects).
+ * Transcripts without a project directory go to `project` if given, else to
+ * the directory Claude Code would have used for their recorded cwd.
+ */
+export async function importHistory(
+  filename: string,
+  upload: Buffer,
+  project?: string,
+  maxUnpackedBytes = MAX_UNPACKED_BYTES
+): Promise<ImportResult> {
+  if (project !== undefined && !SAFE_NAME.test(project)) {
+    throw new ImportError(`Invalid project directory name "${project}"`);
+  }
+
+  let files: Array<{ name: string; data: Buffer }>;
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.jsonl')) {
+    files = [{ name: posix.basename(filename), data: upload }];
+  } else if (/\.(tar|tar\.gz|tgz)$/.test(lower)) {
+    try {
+      files = await readTar(isGzip(upload) ? gunzip(upload, maxUnpackedBytes) : Readable.from([upload]));
+    } catch (error) {
+      if (error instanceof UnpackLimitError) {
+        throw new ImportError(`${filename} unpacks to more than ${maxUnpackedBytes / 1024 / 1024} MB`);
+      }
+      throw new ImportError(`Could not read ${filename}: ${(error as Error).message}`);
+    }
+  } else {
+    throw new ImportError('Upload .jsonl transcripts or .tar, .tar.gz or .tgz archives of them');
+  }
+
+  const result: ImportResult = { imported: [], skipped: [] };
+
+  for (const file of files) {
+    const segments = file.name.split('/').filter(s => s && s !== '.');
+    const basename = segments.pop() || '';
+    // Subagent transcripts live under <session>/subagents/ and are not sessions of their own
+    if (!basename.endsWith('.jsonl') || segments.includes('subagents')) continue;
+
+    const sessionId = basename.slice(0, -'.jsonl'.length);
+    if (!SAFE_NAME.test(sessionId)) {
+      result.skipped.push({ name: file.name, reason: 'Unsupported file name' });
+      continue;
+    }
+
+    const transcript = inspectTranscript(file.data);
+    if (!transcript) {
+      result.skipped.push({ name: file.name, reason: 'Not a JSONL transcript' });
+      continue;
+    }
+
+    const parent = segments.pop();
+    const dir = parent && SAFE_NAME.test(parent) ? parent
+      : project || (transcript.cwd ? encodeProjectPath(transcript.cwd) : FALLBACK_PROJECT);
+
+    // Write then rename so the watcher and index never see a half-written file
+    const target = join(ARCHIVE_DIR, dir, basename);
+    try {
+      await mkdir(join(ARCHIVE_DIR, dir), { recursive: true });
+      await writeFile(`${target}.tmp`, file.data);
+      await rename(`${target}.tmp`, target);
+    } catch (error) {
+      result.skipped.push({ name: file.name, reason: `Could not write: ${(error as Error).message}` });
+      continue;
+    }
+    result.imported.push({ project: toProjectId(ARCHIVE_SOURCE, dir), sessionId });
+  }
+
+  if (result.imported.length === 0 && result.skipped.length === 0) {
+    throw new ImportError(`No .jsonl transcripts found in ${filename}`);
+  }
+
+  return result;
+}
@@ -0,0 +1,177 @@
+import { RE2JS } from 're2js';
+import { QueryParseError } from './query.js';
+
+export type SearchMode = 'literal' | 'regex' | 'fuzzy';
+
+export const SEARCH_MODES: SearchMode[] = ['literal', 'regex', 'fuzzy'];
+
+// [start, end) character offsets into a message or preview
+export type Span = [number, number];
+
+// A located match plus how far it is from what was typed (0 = exact).
+// Fuzzy hits also record which query word they stand in for.
+export interface TermHit {
+  span: Span;
+  distance: number;
+  word?: string;
+}
+
+export interface TermMatcher {
+  find(term: string, text: string): TermHit[];
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+export const literalMatcher: TermMatcher = {
+  find(term, text) {
+    const hits: TermHit[] = [];
+    const textLower = text.toLowerCase();
+    let idx = textLower.indexOf(term);
+    while (idx !== -1 && term.length > 0) {
+      hits.push({ span: [idx, idx + term.length], distance: 0 });
+      idx = textLower.indexOf(term, idx + term.length);
+    }
+    return hits;
+  }
+};
+
+// Typo budget grows with word length: short words must match exactly
+export function maxEditDistance(word: string): number {
+  if (word.length <= 3) return 0;
+  if (word.length <= 6) return 1;
+  return 2;
+}
+
+/**
+ * Levenshtein distance, giving up as soon as it must exceed `max`
+ * (returns max + 1 in that case).
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Typo-tolerant matching. Every word of the term has to appear in the text
+ * within its edit-distance budget. `vocabulary` maps each query word to the
+ * indexed words that are close enough, computed once per search.
+ */
+export function createFuzzyMatcher(vocabulary: Map<string, Map<string, number>>): TermMatcher {
+  return {
+    find(term, text) {
+      const queryWords = term.match(WORD_PATTERN) || [];
+      if (queryWords.length === 0) return [];
+
+      const hits: TermHit[] = [];
+      const found = new Set<string>();
+
+      for (const match of text.matchAll(WORD_PATTERN)) {
+        const word = match[0].toLowerCase();
+        for (const queryWord of queryWords) {
+          const distance = vocabulary.get(queryWord)?.get(word);
+          if (distance === undefined) continue;
+          found.add(queryWord);
+          hits.push({ span: [match.index!, match.index! + match[0].length], distance, word: queryWord });
+          break;
+        }
+      }
+
+      return queryWords.every(w => found.has(w)) ? hits : [];
+    }
+  };
+}
+
+// Patterns are user-supplied and run against every message, so they compile to
+// RE2, which matches in time linear in the text: no pattern can backtrack forever
+const MAX_REGEX_LENGTH = 200;
+// RE2 has no backreferences; reject them with a clearer message than its parser's
+const BACKREFERENCE_PATTERN = /\\[1-9]|\\k</;
+
+export function compileSafeRegex(pattern: string): RE2JS {
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    throw new QueryParseError(`Regex too long (max ${MAX_REGEX_LENGTH} characters)`, MAX_REGEX_LENGTH);
+  }
+  const backreference = pattern.search(BACKREFERENCE_PATTERN);
+  if (backreference !== -1) {
+    throw new QueryParseError('Backreferences are not allowed in regex search', backreference);
+  }
+
+  try {
+    return RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+  } catch (error) {
+    throw new QueryParseError((error as Error).message, 0);
+  }
+}
+
+export function findRegexHits(regex: RE2JS, text: string): TermHit[] {
+  const hits: TermHit[] = [];
+  const matcher = regex.matcher(text);
+  // find() steps past zero-width matches itself; they have nothing to highlight
+  while (matcher.find()) {
+    if (matcher.end() > matcher.start()) {
+      hits.push({ span: [matcher.start(), matcher.end()], distance: 0 });
+    }
+  }
+  return hits;
+}
+
+// Sort and merge overlapping spans
+export function mergeSpans(spans: Span[]): Span[] {
+  const sorted = [...spans].sort((a, b) => a[0] - b[0]);
+  const merged: Span[] = [];
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && span[0] <= last[1]) {
+      last[1] = Math.max(last[1], span[1]);
+    } else {
+      merged.push([span[0], span[1]]);
+    }
+  }
+  return merged;
+}
+
+const PREVIEW_CONTEXT = 40;
+const PREVIEW_MAX_LENGTH = 200;
+
+/**
+ * Preview centred on the first match, stretched to take in as many of the
+ * following matches as fit. Returned spans are offsets into the preview.
+ */
+export function buildPreview(content: string, spans: Span[]): { preview: string; spans: Span[] } {
+  if (spans.length === 0) {
+    const end = Math.min(content.length, PREVIEW_CONTEXT * 2);
+    const preview = content.slice(0, end).replace(/\n/g, ' ');
+    return { preview: end < content.length ? preview + '...' : preview, spans: [] };
+  }
+
+  const start = Math.max(0, spans[0][0] - PREVIEW_CONTEXT);
+  let lastSpanEnd = spans[0][1];
+  for (const span of spans) {
+    if (span[1] - start > PREVIEW_MAX_LENGTH - PREVIEW_CONTEXT) break;
+    lastSpanEnd = span[1];
+  }
+  const end = Math.min(content.length, lastSpanEnd + PREVIEW_CONTEXT);
+
+  const prefix = start > 0 ? '...' : '';
+  const suffix = end < content.length ? '...' : '';
+  const preview = prefix + content.slice(start, end).replace(/\n/g, ' ') + suffix;
+
+  const previewSpans = spans
+    .filter(([s, e]) => s >= start && e <= end)
+    .map(([s, e]): Span => [s - start + prefix.length, e - start + prefix.length]);
+
+  return { preview, spans: previewSpans };
+}
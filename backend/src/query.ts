@@ -0,0 +1,301 @@
+/**
+ * History search query language.
+ *
+ *   jwt refresh              both words (implicit AND)
+ *   "refresh token"          exact phrase
+ *   jwt OR oauth             either term
+ *   NOT docker, -docker      exclude a term
+ *   (jwt OR oauth) AND role:user
+ *
+ * Field filters: role:user|assistant|tool, tool:Bash, project:api-server,
+ * file:src/auth.ts, before:2026-09-01, after:2026-08-01, and the session's own
+ * annotations: tag:auth, note:"follow up". Filter values can be quoted
+ * (project:"my app"). Operators are only recognised in upper case so
+ * lower-case "and"/"or"/"not" stay searchable words.
+ */
+
+export type QueryField = 'role' | 'tool' | 'project' | 'file' | 'before' | 'after' | 'tag' | 'note';
+
+export type QueryNode =
+  | { type: 'term'; value: string; phrase: boolean }
+  | { type: 'field'; field: QueryField; value: string; date?: number }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+// What a query is evaluated against: one message plus its session context
+export interface QueryTarget {
+  role: string;
+  content: string;
+  timestamp?: string;
+  toolName?: string;
+  files?: string[];
+  project: string;
+  sessionCreatedAt: string;
+  tags?: string[];
+  note?: string;
+}
+
+export class QueryParseError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QueryParseError';
+    this.position = position;
+  }
+}
+
+const FIELDS = new Set<QueryField>(['role', 'tool', 'project', 'file', 'before', 'after', 'tag', 'note']);
+const ROLES = new Set(['user', 'assistant', 'tool']);
+
+type Token =
+  | { kind: 'word'; value: string; pos: number }
+  | { kind: 'phrase'; value: string; pos: number }
+  | { kind: 'field'; field: QueryField; value: string; pos: number }
+  | { kind: 'and' | 'or' | 'not' | 'lparen' | 'rparen'; pos: number };
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new QueryParseError('Unterminated quote', start);
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(') {
+      tokens.push({ kind: 'lparen', pos: i++ });
+    } else if (ch === ')') {
+      tokens.push({ kind: 'rparen', pos: i++ });
+    } else if (ch === '"') {
+      const { value, end } = readQuoted(input, i);
+      tokens.push({ kind: 'phrase', value, pos: i });
+      i = end;
+    } else if (ch === '-' && i + 1 < input.length && !/[\s)]/.test(input[i + 1]) &&
+               (i === 0 || /[\s(]/.test(input[i - 1]))) {
+      // Leading dash negates the following term or filter
+      tokens.push({ kind: 'not', pos: i++ });
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+      const word = input.slice(start, i);
+
+      const colon = word.indexOf(':');
+      const field = colon > 0 ? word.slice(0, colon).toLowerCase() : '';
+
+      if (FIELDS.has(field as QueryField)) {
+        let value = word.slice(colon + 1);
+        if (!value && input[i] === '"') {
+          const quoted = readQuoted(input, i);
+          value = quoted.value;
+          i = quoted.end;
+        }
+        if (!value) {
+          throw new QueryParseError(`Missing value for ${field}:`, start);
+        }
+        tokens.push({ kind: 'field', field: field as QueryField, value, pos: start });
+      } else if (word === 'AND') {
+        tokens.push({ kind: 'and', pos: start });
+      } else if (word === 'OR') {
+        tokens.push({ kind: 'or', pos: start });
+      } else if (word === 'NOT') {
+        tokens.push({ kind: 'not', pos: start });
+      } else {
+        tokens.push({ kind: 'word', value: word, pos: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function parseDate(value: string, pos: number): number {
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T00:00:00`).getTime()
+    : new Date(value).getTime();
+  if (isNaN(time)) {
+    throw new QueryParseError(`Invalid date "${value}" (expected YYYY-MM-DD)`, pos);
+  }
+  return time;
+}
+
+class Parser {
+  private tokens: Token[];
+  private pos = 0;
+  private inputLength: number;
+
+  constructor(tokens: Token[], inputLength: number) {
+    this.tokens = tokens;
+    this.inputLength = inputLength;
+  }
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new QueryParseError(extra.kind === 'rparen' ? 'Unmatched ")"' : 'Unexpected token', extra.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private endPos(): number {
+    return this.peek()?.pos ?? this.inputLength;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.kind === 'or') {
+      this.pos++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+    for (;;) {
+      const next = this.peek();
+      if (!next || next.kind === 'or' || next.kind === 'rparen') break;
+      if (next.kind === 'and') this.pos++;
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(): QueryNode {
+    if (this.peek()?.kind === 'not') {
+      this.pos++;
+      return { type: 'not', child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+    if (!token) {
+      throw new QueryParseError('Expected a search term', this.endPos());
+    }
+    this.pos++;
+
+    switch (token.kind) {
+      case 'word':
+        return { type: 'term', value: token.value.toLowerCase(), phrase: false };
+      case 'phrase':
+        if (!token.value.trim()) {
+          throw new QueryParseError('Empty phrase', token.pos);
+        }
+        return { type: 'term', value: token.value.toLowerCase(), phrase: true };
+      case 'field':
+        return this.parseField(token.field, token.value, token.pos);
+      case 'lparen': {
+        const node = this.parseOr();
+        if (this.peek()?.kind !== 'rparen') {
+          throw new QueryParseError('Missing ")"', token.pos);
+        }
+        this.pos++;
+        return node;
+      }
+      default:
+        throw new QueryParseError('Expected a search term', token.pos);
+    }
+  }
+
+  private parseField(field: QueryField, value: string, pos: number): QueryNode {
+    if (field === 'role') {
+      const role = value.toLowerCase();
+      if (!ROLES.has(role)) {
+        throw new QueryParseError(`Unknown role "${value}" (use user, assistant or tool)`, pos);
+      }
+      return { type: 'field', field, value: role };
+    }
+    if (field === 'before' || field === 'after') {
+      return { type: 'field', field, value, date: parseDate(value, pos) };
+    }
+    return { type: 'field', field, value: value.toLowerCase() };
+  }
+}
+
+export function parseQuery(input: string): QueryNode {
+  const tokens = lex(input);
+  if (tokens.length === 0) {
+    throw new QueryParseError('Empty query', 0);
+  }
+  return new Parser(tokens, input.length).parse();
+}
+
+function matchesField(node: Extract<QueryNode, { type: 'field' }>, target: QueryTarget): boolean {
+  switch (node.field) {
+    case 'role':
+      return target.role === node.value;
+    case 'tool':
+      return target.toolName?.toLowerCase() === node.value;
+    case 'project': {
+      // Project directories encode path separators as dashes
+      const project = target.project.toLowerCase();
+      return project.includes(node.value) || project.includes(node.value.replace(/[\\/]/g, '-'));
+    }
+    case 'file':
+      return !!target.files?.some(f => f.toLowerCase().includes(node.value));
+    case 'tag':
+      return !!target.tags?.some(t => t.toLowerCase() === node.value);
+    case 'note':
+      return !!target.note?.toLowerCase().includes(node.value);
+    case 'before':
+    case 'after': {
+      const time = new Date(target.timestamp || target.sessionCreatedAt).getTime();
+      if (isNaN(time)) return false;
+      return node.field === 'before' ? time < node.date! : time >= node.date!;
+    }
+  }
+}
+
+// How a text term is tested against message content; plain substring by default
+export type TermPredicate = (term: string, content: string) => boolean;
+
+const containsTerm: TermPredicate = (term, content) => content.toLowerCase().includes(term);
+
+export function evaluateQuery(node: QueryNode, target: QueryTarget, matchTerm: TermPredicate = containsTerm): boolean {
+  switch (node.type) {
+    case 'term':
+      return matchTerm(node.value, target.content);
+    case 'field':
+      return matchesField(node, target);
+    case 'and':
+      return node.children.every(child => evaluateQuery(child, target, matchTerm));
+    case 'or':
+      return node.children.some(child => evaluateQuery(child, target, matchTerm));
+    case 'not':
+      return !evaluateQuery(node.child, target, matchTerm);
+  }
+}
+
+/**
+ * Text terms in the query. By default only positive (non-negated) terms are
+ * returned, which is what previews and highlights are built from.
+ */
+export function getQueryTerms(node: QueryNode, includeNegated: boolean = false): string[] {
+  switch (node.type) {
+    case 'term':
+      return [node.value];
+    case 'field':
+      return [];
+    case 'not':
+      return includeNegated ? getQueryTerms(node.child, true) : [];
+    case 'and':
+    case 'or':
+      return [...new Set(node.children.flatMap(child => getQueryTerms(child, includeNegated)))];
+  }
+}
@@ -0,0 +1,29 @@
+// BM25 parameters: term-frequency saturation and document-length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+// A hit in your own prompt says more about a session than the same word in tool output
+export const ROLE_WEIGHTS: Record<string, number> = {
+  user: 2,
+  assistant: 1,
+  tool: 0.5
+};
+
+// Recent sessions get up to this much extra weight, halving every RECENCY_HALF_LIFE_DAYS
+const RECENCY_WEIGHT = 0.5;
+const RECENCY_HALF_LIFE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function idf(docFreq: number, docCount: number): number {
+  return Math.log(1 + (docCount - docFreq + 0.5) / (docFreq + 0.5));
+}
+
+export function bm25(termFreq: number, docFreq: number, docCount: number, docLength: number, avgDocLength: number): number {
+  const norm = 1 - B + B * (docLength / (avgDocLength || 1));
+  return idf(docFreq, docCount) * (termFreq * (K1 + 1)) / (termFreq + K1 * norm);
+}
+
+export function recencyBoost(mtimeMs: number, now: number = Date.now()): number {
+  const ageDays = Math.max(0, (now - mtimeMs) / DAY_MS);
+  return 1 + RECENCY_WEIGHT * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
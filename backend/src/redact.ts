@@ -0,0 +1,266 @@
+import { readFile, writeFile, mkdir, rename } from 'fs/promises';
+import { join } from 'path';
+import { DATA_DIR } from './config.js';
+import { HistoryMessage, HistorySession } from './history.js';
+import { compileSafeRegex, findRegexHits } from './match.js';
+
+export interface RedactionRule {
+  name: string;
+  pattern: string;
+}
+
+// Kept in DATA_DIR/redaction.json
+export interface RedactionConfig {
+  // Redact exports unless a request explicitly opts out
+  applyToExports: boolean;
+  // Built-in detectors by id; missing ids are enabled
+  detectors: Record<string, boolean>;
+  rules: RedactionRule[];
+}
+
+export interface DetectorInfo {
+  id: string;
+  label: string;
+  description: string;
+}
+
+export type RedactedField = 'content' | 'toolInput' | 'toolOutput';
+
+export interface Redaction {
+  messageIndex: number;
+  field: RedactedField;
+  start: number;
+  end: number;
+  // Detector id or user rule name
+  label: string;
+}
+
+interface Detector extends DetectorInfo {
+  find: (text: string) => Array<[number, number]>;
+}
+
+const CONFIG_PATH = join(DATA_DIR, 'redaction.json');
+
+const DEFAULT_CONFIG: RedactionConfig = { applyToExports: true, detectors: {}, rules: [] };
+
+const REDACTED_FIELDS: RedactedField[] = ['content', 'toolInput', 'toolOutput'];
+
+function regexDetector(pattern: RegExp, group = 0): (text: string) => Array<[number, number]> {
+  return (text) => {
+    const spans: Array<[number, number]> = [];
+    for (const match of text.matchAll(pattern)) {
+      const value = match[group];
+      if (!value) continue;
+      const start = match.index! + match[0].indexOf(value);
+      spans.push([start, start + value.length]);
+    }
+    return spans;
+  };
+}
+
+// Bits per character; random keys sit well above natural language and hex ids
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) || 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+const HIGH_ENTROPY_MIN_LENGTH = 24;
+const HIGH_ENTROPY_THRESHOLD = 4.2;
+
+function findHighEntropy(text: string): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+  for (const match of text.matchAll(/[A-Za-z0-9+_-]{24,}={0,2}/g)) {
+    const value = match[0];
+    // Needs letters and digits in both cases; rules out identifiers and words
+    if (!/[a-z]/.test(value) || !/[A-Z]/.test(value) || !/\d/.test(value)) continue;
+    if (value.length >= HIGH_ENTROPY_MIN_LENGTH && shannonEntropy(value) >= HIGH_ENTROPY_THRESHOLD) {
+      spans.push([match.index!, match.index! + value.length]);
+    }
+  }
+  return spans;
+}
+
+export const DETECTORS: Detector[] = [
+  {
+    id: 'private-key',
+    label: 'Private key',
+    description: 'PEM private key blocks',
+    find: regexDetector(/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g)
+  },
+  {
+    id: 'aws-access-key',
+    label: 'AWS access key',
+    description: 'AKIA… / ASIA… key ids',
+    find: regexDetector(/\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g)
+  },
+  {
+    id: 'aws-secret-key',
+    label: 'AWS secret key',
+    description: 'aws_secret_access_key values',
+    find: regexDetector(/aws_secret_access_key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})/gi, 1)
+  },
+  {
+    id: 'jwt',
+    label: 'JWT',
+    description: 'JSON Web Tokens',
+    find: regexDetector(/\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g)
+  },
+  {
+    id: 'service-token',
+    label: 'Service token',
+    description: 'GitHub, Slack, Stripe, OpenAI and Anthropic style tokens',
+    find: regexDetector(/\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,}|xox[abprs]-[A-Za-z0-9-]{10,}|sk_(?:live|test)_[A-Za-z0-9]{16,}|sk-(?:ant-)?[A-Za-z0-9_-]{20,})/g)
+  },
+  {
+    id: 'env-secret',
+    label: 'Secret assignment',
+    description: '.env style PASSWORD=…, API_KEY: … and similar',
+    find: regexDetector(/\b[A-Za-z0-9_]*(?:SECRET|PASSWORD|PASSWD|TOKEN|API_?KEY|PRIVATE_KEY|CREDENTIALS?)[A-Za-z0-9_]*["']?\s*[:=]\s*["']?([^\s"'`,;]{6,})/gi, 1)
+  },
+  {
+    id: 'email',
+    label: 'Email',
+    description: 'Email addresses',
+    find: regexDetector(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g)
+  },
+  {
+    id: 'high-entropy',
+    label: 'High-entropy string',
+    description: `Random-looking strings of ${HIGH_ENTROPY_MIN_LENGTH}+ characters`,
+    find: findHighEntropy
+  }
+];
+
+export class RedactionConfigError extends Error {}
+
+// Read on every request so edits to redaction.json apply without a restart
+export async function loadRedactionConfig(): Promise<RedactionConfig> {
+  try {
+    const data = JSON.parse(await readFile(CONFIG_PATH, 'utf-8'));
+    return { ...DEFAULT_CONFIG, ...data };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Ignoring invalid ${CONFIG_PATH}:`, error);
+    }
+    return DEFAULT_CONFIG;
+  }
+}
+
+export function validateRedactionConfig(config: RedactionConfig): void {
+  if (!config || typeof config !== 'object') {
+    throw new RedactionConfigError('Expected a redaction config object');
+  }
+  if (typeof config.applyToExports !== 'boolean') {
+    throw new RedactionConfigError('applyToExports must be a boolean');
+  }
+  if (!config.detectors || typeof config.detectors !== 'object' ||
+      Object.values(config.detectors).some(v => typeof v !== 'boolean')) {
+    throw new RedactionConfigError('detectors must map detector ids to booleans');
+  }
+  if (!Array.isArray(config.rules)) {
+    throw new RedactionConfigError('rules must be a list');
+  }
+  for (const rule of config.rules) {
+    if (!rule || typeof rule.name !== 'string' || !rule.name.trim() || typeof rule.pattern !== 'string') {
+      throw new RedactionConfigError('Each rule needs a name and a pattern');
+    }
+    try {
+      compileSafeRegex(rule.pattern);
+    } catch (error) {
+      throw new RedactionConfigError(`Rule "${rule.name}": ${(error as Error).message}`);
+    }
+  }
+}
+
+export async function saveRedactionConfig(config: RedactionConfig): Promise<RedactionConfig> {
+  validateRedactionConfig(config);
+  const saved: RedactionConfig = {
+    applyToExports: config.applyToExports,
+    detectors: config.detectors,
+    rules: config.rules.map(r => ({ name: r.name.trim(), pattern: r.pattern }))
+  };
+  await mkdir(DATA_DIR, { recursive: true });
+  const tmpPath = `${CONFIG_PATH}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(saved, null, 2), 'utf-8');
+  await rename(tmpPath, CONFIG_PATH);
+  return saved;
+}
+
+/**
+ * Compiled detectors for one config. Rules that fail to compile are skipped
+ * (they were validated on save, but the file can be edited by hand).
+ */
+export function createRedactor(config: RedactionConfig): (text: string) => Array<{ start: number; end: number; label: string }> {
+  const active: Array<{ label: string; find: (text: string) => Array<[number, number]> }> =
+    DETECTORS.filter(d => config.detectors[d.id] !== false).map(d => ({ label: d.label, find: d.find }));
+
+  for (const rule of config.rules) {
+    try {
+      const regex = compileSafeRegex(rule.pattern);
+      active.push({ label: rule.name, find: text => findRegexHits(regex, text).map(h => h.span) });
+    } catch (error) {
+      console.error(`Skipping redaction rule "${rule.name}":`, (error as Error).message);
+    }
+  }
+
+  return (text) => {
+    const found = active.flatMap(d => d.find(text).map(([start, end]) => ({ start, end, label: d.label })));
+    // Earliest first, longest first on ties; drop anything overlapping an earlier span
+    found.sort((a, b) => a.start - b.start || b.end - a.end);
+    const spans: typeof found = [];
+    for (const span of found) {
+      if (span.end > span.start && (spans.length === 0 || span.start >= spans[spans.length - 1].end)) {
+        spans.push(span);
+      }
+    }
+    return spans;
+  };
+}
+
+export function findRedactions(session: HistorySession, config: RedactionConfig): Redaction[] {
+  const redactor = createRedactor(config);
+  const redactions: Redaction[] = [];
+  session.messages.forEach((message, messageIndex) => {
+    for (const field of REDACTED_FIELDS) {
+      const text = message[field];
+      if (!text) continue;
+      for (const span of redactor(text)) {
+        redactions.push({ messageIndex, field, ...span });
+      }
+    }
+  });
+  return redactions;
+}
+
+function mask(text: string, spans: Array<{ start: number; end: number; label: string }>): string {
+  let result = '';
+  let last = 0;
+  for (const { start, end, label } of spans) {
+    result += text.slice(last, start) + `[REDACTED:${label}]`;
+    last = end;
+  }
+  return result + text.slice(last);
+}
+
+// Copy of the session with every detected secret replaced by [REDACTED:<label>]
+export function redactSession(session: HistorySession, config: RedactionConfig): HistorySession {
+  const redactor = createRedactor(config);
+  const redactField = (text: string | undefined) => text ? mask(text, redactor(text)) : text;
+
+  return {
+    ...session,
+    summary: redactField(session.summary),
+    messages: session.messages.map((message): HistoryMessage => ({
+      ...message,
+      content: redactField(message.content) || '',
+      toolInput: redactField(message.toolInput),
+      toolOutput: redactField(message.toolOutput)
+    }))
+  };
+}
@@ -0,0 +1,853 @@
+import { readdir, readFile, writeFile, stat, mkdir, rename } from 'fs/promises';
+import { join } from 'path';
+import { DATA_DIR } from './config.js';
+import { HistoryMessage, TokenUsage, isMeaningfulSession, summarizeSession } from './history.js';
+import { readTranscript } from './transcript.js';
+import { QueryNode, evaluateQuery, getQueryTerms, parseQuery } from './query.js';
+import {
+  SearchMode, Span, TermHit, TermMatcher, buildPreview, compileSafeRegex, createFuzzyMatcher,
+  editDistance, findRegexHits, literalMatcher, maxEditDistance, mergeSpans
+} from './match.js';
+import { ROLE_WEIGHTS, bm25, recencyBoost } from './rank.js';
+import { annotationStore } from './annotations.js';
+import { loadSources, parseProjectId, toProjectId } from './sources.js';
+
+export interface SearchMatch {
+  messageIndex: number;
+  preview: string;
+  // Match offsets into `preview`
+  previewSpans: Span[];
+  // Match offsets into the full message content
+  spans: Span[];
+  role: string;
+  // Fuzzy mode only: total edit distance from the query (0 = exact)
+  distance?: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  mode?: SearchMode;
+  sort?: SearchSort;
+  cursor?: string;
+}
+
+interface RankedSearch {
+  generation: number;
+  // tag: and note: filters read annotations, so their edits invalidate results too
+  annotationGeneration: number;
+  results: SearchResult[];
+  totalMatches: number;
+  truncated: boolean;
+}
+
+export interface SearchResult {
+  id: string;
+  project: string;
+  source: string;
+  createdAt: Date;
+  summary?: string;
+  messageCount: number;
+  matches: SearchMatch[];
+  score: number;
+}
+
+export type SearchSort = 'relevance' | 'date';
+
+export const SEARCH_SORTS: SearchSort[] = ['relevance', 'date'];
+
+export interface SearchPage {
+  results: SearchResult[];
+  // Matching sessions and matching messages across all pages
+  total: number;
+  totalMatches: number;
+  // Pass back as `cursor` to get the next page; null on the last page
+  nextCursor: string | null;
+  // Regex scan hit its time budget, so older messages were not searched
+  truncated: boolean;
+}
+
+interface IndexedMessage {
+  role: HistoryMessage['role'];
+  content: string;
+  timestamp?: string;
+  toolName?: string;
+  files?: string[];
+  // Kept (without content) so match indices line up with the session's messages, but never matched
+  isThinking?: boolean;
+}
+
+export type FileAction = 'read' | 'write' | 'edit' | 'other';
+
+// One tool call that operated on a file
+export interface FileTouch {
+  file: string;
+  action: FileAction;
+  toolName: string;
+  id: string;
+  project: string;
+  source: string;
+  summary: string;
+  messageIndex: number;
+  // The tool call's timestamp, or the session's start when the transcript has none
+  timestamp: string;
+}
+
+// Token usage of one session on one day with one model
+export interface UsageEntry extends TokenUsage {
+  day: string;
+  model: string;
+}
+
+export interface SessionUsage {
+  id: string;
+  project: string;
+  source: string;
+  summary: string;
+  createdAt: string;
+  usage: UsageEntry[];
+}
+
+interface IndexedSession {
+  id: string;
+  project: string;
+  mtimeMs: number;
+  size: number;
+  createdAt: string;
+  summary: string;
+  messages: IndexedMessage[];
+  terms: string[];
+  // Token count, for BM25 length normalisation
+  length: number;
+  usage: UsageEntry[];
+}
+
+interface IndexFile {
+  version: number;
+  sessions: IndexedSession[];
+  skipped: Record<string, { mtimeMs: number; size: number }>;
+}
+
+// Regex matching is linear but still scans every message, so stop scanning after this
+const REGEX_TIME_BUDGET_MS = 2000;
+
+// Bump whenever IndexedSession changes shape so stale index files get rebuilt
+const INDEX_VERSION = 7;
+const INDEX_PATH = join(DATA_DIR, 'search-index.json');
+
+// Recent result sets kept so paging through them does not re-run the query
+const RESULT_CACHE_SIZE = 20;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) || [];
+}
+
+// Input keys Claude Code tools use for the file they operate on
+const FILE_INPUT_KEYS = ['file_path', 'path', 'notebook_path'];
+
+const FILE_ACTIONS: Record<string, FileAction> = {
+  Read: 'read',
+  NotebookRead: 'read',
+  Write: 'write',
+  Edit: 'edit',
+  MultiEdit: 'edit',
+  NotebookEdit: 'edit'
+};
+
+// Forward slashes and no leading ./, so Windows paths and relative queries compare
+const normalizeFilePath = (path: string) => path.trim().replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+
+// Exact path, or a trailing part of it that starts at a directory boundary
+function fileMatches(file: string, query: string): boolean {
+  const normalized = normalizeFilePath(file);
+  return normalized === query || normalized.endsWith(`/${query}`);
+}
+
+function extractFiles(toolInput?: string): string[] | undefined {
+  if (!toolInput) return undefined;
+
+  try {
+    const input = JSON.parse(toolInput);
+    const files = FILE_INPUT_KEYS
+      .map(key => input?.[key])
+      .filter((value): value is string => typeof value === 'string' && value.length > 0);
+    return files.length > 0 ? files : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toIndexedMessage(m: HistoryMessage): IndexedMessage {
+  return {
+    role: m.role,
+    // Tool output is searchable alongside the call that produced it; thinking
+    // is hidden by default in the UI, so it is left out to keep hits visible
+    content: m.isThinking ? '' : m.toolOutput ? `${m.content}\n${m.toolOutput}` : m.content,
+    timestamp: m.timestamp,
+    toolName: m.toolName,
+    files: extractFiles(m.toolInput),
+    isThinking: m.isThinking || undefined
+  };
+}
+
+// Local calendar day, matching how the activity heatmap buckets sessions
+function toDay(timestamp: string): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function collectUsage(messages: HistoryMessage[], fallbackDay: string): UsageEntry[] {
+  const entries = new Map<string, UsageEntry>();
+
+  for (const m of messages) {
+    if (!m.usage) continue;
+    const day = m.timestamp && !isNaN(Date.parse(m.timestamp)) ? toDay(m.timestamp) : fallbackDay;
+    const model = m.model || 'unknown';
+    const key = `${day}/${model}`;
+
+    const entry = entries.get(key) || { day, model, inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0 };
+    entry.inputTokens += m.usage.inputTokens;
+    entry.outputTokens += m.usage.outputTokens;
+    entry.cacheCreationTokens += m.usage.cacheCreationTokens;
+    entry.cacheReadTokens += m.usage.cacheReadTokens;
+    entries.set(key, entry);
+  }
+
+  return [...entries.values()];
+}
+
+function sessionKey(project: string, sessionId: string): string {
+  return `${project}/${sessionId}`;
+}
+
+// History root a session key belongs to; neither project dirs nor session ids contain '/'
+function sourceOfKey(key: string): string {
+  return parseProjectId(key.slice(0, key.lastIndexOf('/'))).source;
+}
+
+function trigramsOf(term: string): Set<string> {
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= term.length; i++) grams.add(term.slice(i, i + 3));
+  return grams;
+}
+
+// Cursors are opaque to clients; today they carry the offset into the ranked result set
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch {
+    return null;
+  }
+}
+
+export class SearchIndex {
+  // Session key -> indexed transcript (only meaningful sessions are stored)
+  private sessions: Map<string, IndexedSession> = new Map();
+  // Session key -> mtime/size of files that were parsed but skipped as noise
+  private skipped: Map<string, { mtimeMs: number; size: number }> = new Map();
+  // Term -> keys of sessions containing it
+  private postings: Map<string, Set<string>> = new Map();
+  // File path from tool inputs -> keys of sessions whose tools used it
+  private filePostings: Map<string, Set<string>> = new Map();
+  // Trigram -> indexed terms containing it, so substring lookups skip most of the vocabulary
+  private trigrams: Map<string, Set<string>> = new Map();
+  private totalLength = 0;
+  // Bumped on every index change; cached result sets from older generations are stale
+  private generation = 0;
+  private resultCache: Map<string, RankedSearch> = new Map();
+  private loaded = false;
+  private refreshing: Promise<void> | null = null;
+  // Ids of history roots changed since the last refresh; null means rescan every root
+  private dirtySources: Set<string> | null = null;
+
+  constructor(private regexTimeBudgetMs = REGEX_TIME_BUDGET_MS) {}
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const raw = await readFile(INDEX_PATH, 'utf-8');
+      const data: IndexFile = JSON.parse(raw);
+      if (data.version !== INDEX_VERSION) return;
+
+      for (const session of data.sessions) {
+        this.addSession(session);
+      }
+      this.skipped = new Map(Object.entries(data.skipped || {}));
+    } catch {
+      // Missing or corrupt index - it is rebuilt on the next refresh
+    }
+  }
+
+  /**
+   * Record that something under a history root changed, so the next refresh
+   * rescans it. Without `source` every root is rescanned.
+   */
+  markDirty(source?: string): void {
+    if (source === undefined) {
+      this.dirtySources = null;
+    } else {
+      this.dirtySources?.add(source);
+    }
+  }
+
+  /**
+   * Bring the index in line with the transcripts on disk. Only roots marked
+   * dirty are scanned, and only files whose mtime or size changed since they
+   * were last indexed are re-parsed. Concurrent callers share the same
+   * in-flight refresh.
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async doRefresh(): Promise<void> {
+    await this.load();
+
+    const dirtySources = this.dirtySources;
+    if (dirtySources?.size === 0) return;
+    this.dirtySources = new Set();
+
+    try {
+      await this.rescan(dirtySources);
+    } catch (error) {
+      // Leave everything to be rescanned next time
+      this.markDirty();
+      throw error;
+    }
+  }
+
+  private async rescan(dirtySources: Set<string> | null): Promise<void> {
+    const seen = new Set<string>();
+    let dirty = false;
+
+    const sources = (await loadSources()).filter(source => !dirtySources || dirtySources.has(source.id));
+    for (const source of sources) {
+      let dirs: string[];
+      try {
+        dirs = await readdir(source.path);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error(`Error reading projects in ${source.path}:`, error);
+        }
+        continue;
+      }
+
+      for (const dir of dirs) {
+        const project = toProjectId(source.id, dir);
+        const projectPath = join(source.path, dir);
+        let files: string[];
+        try {
+          if (!(await stat(projectPath)).isDirectory()) continue;
+          files = (await readdir(projectPath)).filter(f => f.endsWith('.jsonl'));
+        } catch {
+          continue;
+        }
+
+        for (const file of files) {
+          const sessionId = file.replace('.jsonl', '');
+          const key = sessionKey(project, sessionId);
+          seen.add(key);
+
+          try {
+            const fileStat = await stat(join(projectPath, file));
+            const known = this.sessions.get(key) || this.skipped.get(key);
+            if (known && known.mtimeMs === fileStat.mtimeMs && known.size === fileStat.size) {
+              continue;
+            }
+
+            const { messages } = await readTranscript(join(projectPath, file));
+
+            this.removeSession(key);
+            dirty = true;
+
+            if (!isMeaningfulSession(messages)) {
+              this.skipped.set(key, { mtimeMs: fileStat.mtimeMs, size: fileStat.size });
+              continue;
+            }
+
+            const indexedMessages = messages.map(toIndexedMessage);
+            const tokens = indexedMessages.flatMap(m => tokenize(m.content));
+            this.addSession({
+              id: sessionId,
+              project,
+              mtimeMs: fileStat.mtimeMs,
+              size: fileStat.size,
+              createdAt: fileStat.birthtime.toISOString(),
+              summary: summarizeSession(messages),
+              messages: indexedMessages,
+              terms: [...new Set(tokens)],
+              length: tokens.length,
+              usage: collectUsage(messages, toDay(fileStat.birthtime.toISOString()))
+            });
+          } catch (error) {
+            console.error(`Error indexing ${file}:`, error);
+          }
+        }
+      }
+    }
+
+    // Drop transcripts that no longer exist in the roots just scanned
+    for (const key of [...this.sessions.keys(), ...this.skipped.keys()]) {
+      if (!seen.has(key) && (!dirtySources || dirtySources.has(sourceOfKey(key)))) {
+        this.removeSession(key);
+        dirty = true;
+      }
+    }
+
+    if (dirty) {
+      this.generation++;
+      await this.save();
+    }
+  }
+
+  private addSession(session: IndexedSession): void {
+    const key = sessionKey(session.project, session.id);
+    this.sessions.set(key, session);
+    this.totalLength += session.length;
+
+    for (const term of session.terms) {
+      let keys = this.postings.get(term);
+      if (!keys) {
+        keys = new Set();
+        this.postings.set(term, keys);
+        for (const gram of trigramsOf(term)) {
+          let terms = this.trigrams.get(gram);
+          if (!terms) {
+            terms = new Set();
+            this.trigrams.set(gram, terms);
+          }
+          terms.add(term);
+        }
+      }
+      keys.add(key);
+    }
+
+    for (const file of new Set(session.messages.flatMap(m => m.files || []))) {
+      let keys = this.filePostings.get(file);
+      if (!keys) {
+        keys = new Set();
+        this.filePostings.set(file, keys);
+      }
+      keys.add(key);
+    }
+  }
+
+  private removeSession(key: string): void {
+    this.skipped.delete(key);
+
+    const session = this.sessions.get(key);
+    if (!session) return;
+
+    for (const term of session.terms) {
+      const keys = this.postings.get(term);
+      if (!keys) continue;
+      keys.delete(key);
+      if (keys.size > 0) continue;
+      this.postings.delete(term);
+      for (const gram of trigramsOf(term)) {
+        const terms = this.trigrams.get(gram);
+        terms?.delete(term);
+        if (terms?.size === 0) this.trigrams.delete(gram);
+      }
+    }
+    for (const file of new Set(session.messages.flatMap(m => m.files || []))) {
+      const keys = this.filePostings.get(file);
+      if (!keys) continue;
+      keys.delete(key);
+      if (keys.size === 0) this.filePostings.delete(file);
+    }
+    this.totalLength -= session.length;
+    this.sessions.delete(key);
+  }
+
+  private async save(): Promise<void> {
+    const data: IndexFile = {
+      version: INDEX_VERSION,
+      sessions: [...this.sessions.values()],
+      skipped: Object.fromEntries(this.skipped)
+    };
+
+    try {
+      await mkdir(DATA_DIR, { recursive: true });
+      // Write to a temp file first so a crash never leaves a half-written index
+      const tmpPath = `${INDEX_PATH}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(data), 'utf-8');
+      await rename(tmpPath, INDEX_PATH);
+    } catch (error) {
+      console.error('Error saving search index:', error);
+    }
+  }
+
+  /**
+   * Keys of sessions containing every token of `term`. `expand` maps a query
+   * token to the indexed terms that count as a hit for it.
+   */
+  private termKeys(term: string, expand: (token: string) => Iterable<string>): Set<string> | null {
+    const tokens = [...new Set(tokenize(term))];
+    if (tokens.length === 0) return null;
+
+    let result: Set<string> | null = null;
+
+    for (const token of tokens) {
+      const matching = new Set<string>();
+      for (const indexed of expand(token)) {
+        this.postings.get(indexed)?.forEach(k => matching.add(k));
+      }
+
+      result = result ? intersect(result, matching) : matching;
+      if (result.size === 0) break;
+    }
+
+    return result;
+  }
+
+  /**
+   * Narrow the search to sessions whose vocabulary can satisfy the query.
+   * `null` means the node cannot prune anything (filters, negations) and
+   * every session is a candidate.
+   */
+  private candidateKeys(node: QueryNode, expand: (token: string) => Iterable<string>): Set<string> | null {
+    switch (node.type) {
+      case 'term':
+        return this.termKeys(node.value, expand);
+      case 'field':
+      case 'not':
+        return null;
+      case 'and': {
+        let result: Set<string> | null = null;
+        for (const child of node.children) {
+          const keys = this.candidateKeys(child, expand);
+          if (keys) result = result ? intersect(result, keys) : keys;
+        }
+        return result;
+      }
+      case 'or': {
+        const result = new Set<string>();
+        for (const child of node.children) {
+          const keys = this.candidateKeys(child, expand);
+          if (!keys) return null;
+          keys.forEach(k => result.add(k));
+        }
+        return result;
+      }
+    }
+  }
+
+  /**
+   * Literal tokens are matched as substrings of indexed terms so partial words
+   * keep working. Only terms sharing the token's rarest trigram are checked;
+   * one- and two-letter tokens match much of the vocabulary anyway and scan it.
+   */
+  private substringTerms(token: string): string[] {
+    if (token.length < 3) {
+      return [...this.postings.keys()].filter(indexed => indexed.includes(token));
+    }
+
+    let rarest: Set<string> | undefined;
+    for (const gram of trigramsOf(token)) {
+      const terms = this.trigrams.get(gram);
+      if (!terms) return [];
+      if (!rarest || terms.size < rarest.size) rarest = terms;
+    }
+    return [...rarest!].filter(indexed => indexed.includes(token));
+  }
+
+  // For each query word, the indexed words within its typo budget and their distance
+  private fuzzyVocabulary(terms: string[]): Map<string, Map<string, number>> {
+    const vocabulary = new Map<string, Map<string, number>>();
+
+    for (const word of new Set(tokenize(terms.join(' ')))) {
+      const max = maxEditDistance(word);
+      const close = new Map<string, number>();
+      for (const indexed of this.postings.keys()) {
+        const distance = editDistance(word, indexed, max);
+        if (distance <= max) close.set(indexed, distance);
+      }
+      vocabulary.set(word, close);
+    }
+
+    return vocabulary;
+  }
+
+  // Every indexed session, without messages
+  async listSessions(): Promise<Array<Omit<SessionUsage, 'usage'>>> {
+    await this.refresh();
+    return [...this.sessions.values()].map(({ id, project, summary, createdAt }) => ({
+      id, project, source: parseProjectId(project).source, summary, createdAt
+    }));
+  }
+
+  /**
+   * Every tool call, across all sessions, whose input names `path` — either
+   * exactly or as a trailing part (`src/auth/jwt.ts` matches
+   * `/home/me/app/src/auth/jwt.ts`). Oldest first.
+   */
+  async findFileTouches(path: string): Promise<FileTouch[]> {
+    await this.refresh();
+    const query = normalizeFilePath(path);
+    const touches: FileTouch[] = [];
+
+    const keys = new Set<string>();
+    for (const [file, sessionKeys] of this.filePostings) {
+      if (fileMatches(file, query)) sessionKeys.forEach(key => keys.add(key));
+    }
+
+    for (const key of keys) {
+      const session = this.sessions.get(key)!;
+      session.messages.forEach((message, messageIndex) => {
+        for (const file of message.files || []) {
+          if (!fileMatches(file, query)) continue;
+          touches.push({
+            file,
+            action: FILE_ACTIONS[message.toolName || ''] || 'other',
+            toolName: message.toolName || 'Unknown',
+            id: session.id,
+            project: session.project,
+            source: parseProjectId(session.project).source,
+            summary: session.summary,
+            messageIndex,
+            timestamp: message.timestamp && !isNaN(Date.parse(message.timestamp)) ? message.timestamp : session.createdAt
+          });
+        }
+      });
+    }
+
+    return touches.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp) || a.messageIndex - b.messageIndex);
+  }
+
+  // Per-session token usage for every indexed session
+  async getUsage(): Promise<SessionUsage[]> {
+    await this.refresh();
+    return [...this.sessions.values()].map(({ id, project, summary, createdAt, usage }) => ({
+      id, project, source: parseProjectId(project).source, summary, createdAt, usage
+    }));
+  }
+
+  /**
+   * Run a query and return one page of ranked results. In `literal` and
+   * `fuzzy` mode the query uses the syntax in query.ts; in `regex` mode the
+   * whole query is one case-insensitive pattern. Throws QueryParseError when
+   * the query or pattern is rejected.
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchPage> {
+    const { mode = 'literal', sort = 'relevance', cursor } = options;
+    // A limit below one returns an empty page whose cursor points back at the same offset
+    const limit = Math.max(1, Math.floor(options.limit ?? 50) || 50);
+    const offset = cursor ? decodeCursor(cursor) ?? 0 : 0;
+
+    await Promise.all([this.refresh(), annotationStore.load()]);
+
+    const cacheKey = JSON.stringify([mode, sort, query]);
+    let ranked = this.resultCache.get(cacheKey);
+    if (!ranked || ranked.generation !== this.generation || ranked.annotationGeneration !== annotationStore.generation) {
+      ranked = this.runQuery(query, mode, sort);
+      this.resultCache.delete(cacheKey);
+      this.resultCache.set(cacheKey, ranked);
+      if (this.resultCache.size > RESULT_CACHE_SIZE) {
+        this.resultCache.delete(this.resultCache.keys().next().value!);
+      }
+    }
+
+    const results = ranked.results.slice(offset, offset + limit);
+    const nextOffset = offset + results.length;
+
+    return {
+      results,
+      total: ranked.results.length,
+      totalMatches: ranked.totalMatches,
+      nextCursor: nextOffset < ranked.results.length ? encodeCursor(nextOffset) : null,
+      truncated: ranked.truncated
+    };
+  }
+
+  private runQuery(query: string, mode: SearchMode, sort: SearchSort): RankedSearch {
+    const regex = mode === 'regex' ? compileSafeRegex(query) : null;
+    const ast = regex ? null : parseQuery(query);
+    // Regex mode scores its pattern as a single term
+    const terms = ast ? getQueryTerms(ast) : [query];
+
+    let matcher: TermMatcher = literalMatcher;
+    // Maps a query token to the indexed terms that count as a hit; regex mode has none
+    let expand: ((token: string) => Iterable<string>) | null = null;
+
+    if (ast && mode === 'fuzzy') {
+      const vocabulary = this.fuzzyVocabulary(getQueryTerms(ast, true));
+      matcher = createFuzzyMatcher(vocabulary);
+      expand = token => vocabulary.get(token)?.keys() || [];
+    } else if (ast) {
+      const expansions = new Map<string, string[]>();
+      expand = token => {
+        if (!expansions.has(token)) expansions.set(token, this.substringTerms(token));
+        return expansions.get(token)!;
+      };
+    }
+    const keys = ast && expand ? this.candidateKeys(ast, expand) : null;
+
+    const candidates = keys ? [...keys].map(k => this.sessions.get(k)!) : [...this.sessions.values()];
+
+    // Scan most recently active sessions first so a regex timeout drops the oldest
+    candidates.sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+    const matched: Array<{ session: IndexedSession; result: SearchResult; termFreqs: Map<string, number> }> = [];
+    // Sessions that matched each term; only used where the postings cannot say (regex patterns)
+    const matchedDocFreqs = new Map<string, number>();
+    const deadline = Date.now() + this.regexTimeBudgetMs;
+    let totalMatches = 0;
+    let truncated = false;
+
+    for (const session of candidates) {
+      const annotation = annotationStore.peek(session.project, session.id);
+
+      const matches: SearchMatch[] = [];
+      // Role-weighted occurrences of each term across the session's matching messages
+      const termFreqs = new Map<string, number>();
+
+      for (const [idx, m] of session.messages.entries()) {
+        if (regex && Date.now() >= deadline) {
+          truncated = true;
+          break;
+        }
+        // Filter-only and negated queries would otherwise match their empty content
+        if (m.isThinking) continue;
+        const termHits = new Map<string, TermHit[]>();
+
+        if (regex) {
+          const hits = findRegexHits(regex, m.content);
+          if (hits.length === 0) continue;
+          termHits.set(query, hits);
+        } else {
+          const find = (term: string) => {
+            if (!termHits.has(term)) termHits.set(term, matcher.find(term, m.content));
+            return termHits.get(term)!;
+          };
+
+          const isMatch = evaluateQuery(ast!, {
+            ...m,
+            project: session.project,
+            sessionCreatedAt: session.createdAt,
+            tags: annotation?.tags,
+            note: annotation?.note
+          }, term => find(term).length > 0);
+          if (!isMatch) continue;
+
+          terms.forEach(find);
+        }
+
+        const hits: TermHit[] = [];
+        for (const term of terms) {
+          const found = termHits.get(term) || [];
+          if (found.length === 0) continue;
+          hits.push(...found);
+          termFreqs.set(term, (termFreqs.get(term) || 0) + found.length * (ROLE_WEIGHTS[m.role] ?? 1));
+        }
+
+        const spans = mergeSpans(hits.map(h => h.span));
+        const { preview, spans: previewSpans } = buildPreview(m.content, spans);
+
+        matches.push({
+          messageIndex: idx,
+          preview,
+          previewSpans,
+          spans,
+          role: m.role,
+          distance: mode === 'fuzzy' ? totalDistance(hits) : undefined
+        });
+      }
+
+      if (matches.length === 0) {
+        if (truncated) break;
+        continue;
+      }
+
+      if (mode === 'fuzzy') {
+        matches.sort((a, b) => a.distance! - b.distance!);
+      }
+      termFreqs.forEach((_, term) => matchedDocFreqs.set(term, (matchedDocFreqs.get(term) || 0) + 1));
+      totalMatches += matches.length;
+
+      matched.push({
+        session,
+        termFreqs,
+        result: {
+          id: session.id,
+          project: session.project,
+          source: parseProjectId(session.project).source,
+          createdAt: new Date(session.createdAt),
+          summary: session.summary,
+          messageCount: session.messages.length,
+          matches,
+          score: 0
+        }
+      });
+    }
+
+    // BM25 over sessions, boosted for recency; fuzzy results are discounted by how far off they were
+    const docCount = this.sessions.size;
+    const avgLength = docCount > 0 ? this.totalLength / docCount : 0;
+    const now = Date.now();
+
+    // Document frequencies over the whole corpus, from the postings kept current on every refresh
+    const docFreqs = new Map<string, number>();
+    matchedDocFreqs.forEach((matchedCount, term) => {
+      const corpusCount = expand ? this.termKeys(term, expand)?.size ?? 0 : 0;
+      docFreqs.set(term, Math.max(corpusCount, matchedCount));
+    });
+
+    for (const { session, result, termFreqs } of matched) {
+      let score = 0;
+      termFreqs.forEach((tf, term) => {
+        score += bm25(tf, docFreqs.get(term)!, docCount, session.length, avgLength);
+      });
+      if (termFreqs.size === 0) {
+        // Filter-only queries: more matching messages rank higher
+        score = Math.log(1 + result.matches.length);
+      }
+      if (mode === 'fuzzy') {
+        score /= 1 + result.matches[0].distance!;
+      }
+      result.score = score * recencyBoost(session.mtimeMs, now);
+    }
+
+    if (sort === 'relevance') {
+      matched.sort((a, b) => b.result.score - a.result.score || b.session.mtimeMs - a.session.mtimeMs);
+    }
+
+    return {
+      generation: this.generation,
+      annotationGeneration: annotationStore.generation,
+      results: matched.map(m => m.result),
+      totalMatches,
+      truncated
+    };
+  }
+}
+
+// Sum, over the query words that were found, of their closest hit's distance
+function totalDistance(hits: TermHit[]): number {
+  const best = new Map<string, number>();
+  for (const hit of hits) {
+    const word = hit.word || '';
+    best.set(word, Math.min(best.get(word) ?? Infinity, hit.distance));
+  }
+  return [...best.values()].reduce((sum, d) => sum + d, 0);
+}
+
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+  return new Set([...a].filter(k => b.has(k)));
+}
+
+export const searchIndex = new SearchIndex();
@@ -1,13 +1,31 @@
-import express from 'express';
+import express, { NextFunction, Request, RequestHandler, Response } from 'express';
 import { createServer } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
 import cors from 'cors';
 import { homedir } from 'os';
+import { stat } from 'fs/promises';
 import { join } from 'path';
 
 import { sessionManager, Session } from './session.js';
-import { getProjects, getProjectSessions, getSession, searchHistory } from './history.js';
+import { getLatestSessionId, getProjects, getProjectSessions, getSession, getSessionDiagnostics, summarizeSession } from './history.js';
+import { searchIndex, decodeCursor, SEARCH_SORTS, SearchSort } from './search.js';
+import { QueryParseError } from './query.js';
+import { SEARCH_MODES, SearchMode } from './match.js';
 import { fileManager } from './files.js';
+import { historyWatcher, HistoryEvent } from './watcher.js';
+import { ARCHIVE_SOURCE, LOCAL_SOURCE, loadSources } from './sources.js';
+import { ImportError, importHistory } from './importer.js';
+import { compareSessions } from './compare.js';
+import { GitError, findSessionCommits, getCommitDiff } from './git.js';
+import { FileStateError, getFileHistory, listSessionFiles } from './filestate.js';
+import { getUsageStats } from './stats.js';
+import { annotationStore, AnnotationUpdate } from './annotations.js';
+import {
+  exportSession, archiveExporter, resolveSelection, parseSelectionDate, EXPORT_FORMATS, ExportFormat, ExportProgress, ArchiveSelection
+} from './export.js';
+import {
+  DETECTORS, RedactionConfig, RedactionConfigError, findRedactions, loadRedactionConfig, saveRedactionConfig
+} from './redact.js';
 
 const app = express();
 const server = createServer(app);
@@ -20,9 +38,16 @@ const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
 app.use(cors({ origin: FRONTEND_URL }));
 app.use(express.json());
 
+// Express 4 does not see rejected promises; hand them to the error handler below instead of crashing the process
+const route = (handler: (req: Request, res: Response) => Promise<void>): RequestHandler =>
+  (req, res, next) => { handler(req, res).catch(next); };
+
 // Track WebSocket connections per session
 const sessionConnections: Map<string, Set<WebSocket>> = new Map();
 
+// Connections that asked for history change notifications
+const historyConnections: Set<WebSocket> = new Set();
+
 // WebSocket handling
 wss.on('connection', (ws) => {
   let subscribedSessionId: string | null = null;
@@ -40,8 +65,8 @@ wss.on('connection', (ws) => {
           }
           sessionConnections.get(message.sessionId)!.add(ws);
 
-          // Send recent logs
-          const logs = sessionManager.getLogs(message.sessionId, 100);
+          // Send recent logs; terminals ask for more scrollback than the default
+          const logs = sessionManager.getLogs(message.sessionId, typeof message.scrollback === 'number' ? message.scrollback : 100);
           ws.send(JSON.stringify({ type: 'logs', logs }));
           break;
 
@@ -65,6 +90,14 @@ wss.on('connection', (ws) => {
             subscribedSessionId = null;
           }
           break;
+
+        case 'subscribe-history':
+          historyConnections.add(ws);
+          break;
+
+        case 'unsubscribe-history':
+          historyConnections.delete(ws);
+          break;
       }
     } catch (error) {
       console.error('WebSocket message error:', error);
@@ -75,6 +108,7 @@ wss.on('connection', (ws) => {
     if (subscribedSessionId) {
       sessionConnections.get(subscribedSessionId)?.delete(ws);
     }
+    historyConnections.delete(ws);
   });
 });
 
@@ -103,6 +137,29 @@ sessionManager.on('session:exit', ({ sessionId, exitCode }) => {
   }
 });
 
+// Forward transcript changes to history subscribers
+historyWatcher.on('history:event', (event: HistoryEvent) => {
+  const message = JSON.stringify(event);
+  historyConnections.forEach(ws => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(message);
+    }
+  });
+});
+
+// Searches only rescan the history roots that changed
+historyWatcher.on('history:changed', (source: string) => searchIndex.markDirty(source));
+
+// Bulk export progress goes to history subscribers; clients match on jobId
+archiveExporter.on('export:progress', (progress: ExportProgress) => {
+  const message = JSON.stringify({ type: 'export:progress', ...progress });
+  historyConnections.forEach(ws => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(message);
+    }
+  });
+});
+
 // REST API Routes
 
 // Sessions
@@ -152,48 +209,541 @@ app.get('/api/sessions/:id/logs', (req, res) => {
 });
 
 // History
-app.get('/api/history/projects', async (req, res) => {
+app.get('/api/history/sources', route(async (req, res) => {
+  const sources = await loadSources();
+  res.json(sources);
+}));
+
+// Raw upload body; ?filename=… (.jsonl, .tar, .tar.gz or .tgz) and optional ?project=<directory name>
+app.post('/api/history/import', express.raw({ type: () => true, limit: '500mb' }), route(async (req, res) => {
+  const filename = req.query.filename as string;
+  const project = req.query.project as string | undefined;
+
+  if (!filename) {
+    res.status(400).json({ error: 'filename parameter required' });
+    return;
+  }
+
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    res.status(400).json({ error: 'Upload is empty' });
+    return;
+  }
+
+  try {
+    const result = await importHistory(filename, req.body, project || undefined);
+    // Don't wait for the watcher: the next search should already see the import
+    searchIndex.markDirty(ARCHIVE_SOURCE);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof ImportError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+}));
+
+app.get('/api/history/projects', route(async (req, res) => {
   const projects = await getProjects();
   res.json(projects);
-});
+}));
 
-app.get('/api/history/projects/:path/sessions', async (req, res) => {
+app.get('/api/history/projects/:path/sessions', route(async (req, res) => {
   const sessions = await getProjectSessions(req.params.path);
   res.json(sessions);
-});
+}));
 
-app.get('/api/history/projects/:path/sessions/:sessionId', async (req, res) => {
+app.get('/api/history/projects/:path/sessions/:sessionId', route(async (req, res) => {
   const session = await getSession(req.params.path, req.params.sessionId);
   if (session) {
     res.json(session);
   } else {
     res.status(404).json({ error: 'Session not found' });
   }
-});
+}));
 
-app.get('/api/history/search', async (req, res) => {
-  const query = req.query.q as string;
-  const limit = parseInt(req.query.limit as string) || 50;
+app.get('/api/history/projects/:path/sessions/:sessionId/diagnostics', route(async (req, res) => {
+  const diagnostics = await getSessionDiagnostics(req.params.path, req.params.sessionId);
+  if (diagnostics) {
+    res.json(diagnostics);
+  } else {
+    res.status(404).json({ error: 'Session not found' });
+  }
+}));
+
+// Pick a historical session back up in a live terminal, in the directory it ran in
+app.post('/api/history/projects/:path/sessions/:sessionId/resume', route(async (req, res) => {
+  const history = await getSession(req.params.path, req.params.sessionId);
+  if (!history) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+  // claude only resumes transcripts in its own ~/.claude/projects
+  if (history.source !== LOCAL_SOURCE) {
+    res.status(400).json({ error: 'Only sessions recorded on this machine can be resumed' });
+    return;
+  }
+  if (!history.cwd) {
+    res.status(400).json({ error: 'The transcript does not record a working directory' });
+    return;
+  }
+  try {
+    if (!(await stat(history.cwd)).isDirectory()) throw new Error();
+  } catch {
+    res.status(400).json({ error: `${history.cwd} no longer exists` });
+    return;
+  }
 
-  if (!query) {
+  const latest = (await getLatestSessionId(req.params.path)) === history.id;
+  const session = sessionManager.createSession(
+    req.body?.name || `Resume: ${(history.summary ?? summarizeSession(history.messages)).slice(0, 60)}`,
+    history.cwd,
+    {
+      claudeArgs: latest ? ['--continue'] : ['--resume', history.id],
+      resumedFrom: `${history.project}/${history.id}`
+    }
+  );
+  if (!sessionManager.startSession(session.id)) {
+    res.status(500).json({ error: 'Failed to start claude' });
+    return;
+  }
+  res.json({ ...session, pty: null });
+}));
+
+// Files the session wrote or edited, rebuilt from its Write and Edit calls
+app.get('/api/history/projects/:path/sessions/:sessionId/files', route(async (req, res) => {
+  const session = await getSession(req.params.path, req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  res.json(listSessionFiles(session));
+}));
+
+// One file as it stood after message `at`, with a unified diff against message `from`
+app.get('/api/history/projects/:path/sessions/:sessionId/files/:file', route(async (req, res) => {
+  const parseStep = (value: unknown) => value === undefined ? undefined : Number(value);
+  const at = parseStep(req.query.at);
+  const from = parseStep(req.query.from);
+  if ([at, from].some(step => step !== undefined && (!Number.isInteger(step) || step < -1))) {
+    res.status(400).json({ error: 'at and from must be message indices, or -1 for before the session' });
+    return;
+  }
+
+  const session = await getSession(req.params.path, req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  try {
+    res.json(getFileHistory(session, req.params.file, at, from));
+  } catch (error) {
+    if (error instanceof FileStateError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+}));
+
+// Commits made in the session's repository while it ran, or by its `git commit` calls
+app.get('/api/history/projects/:path/sessions/:sessionId/commits', route(async (req, res) => {
+  const session = await getSession(req.params.path, req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  res.json(await findSessionCommits(session));
+}));
+
+app.get('/api/history/projects/:path/sessions/:sessionId/commits/:hash', route(async (req, res) => {
+  if (!/^[0-9a-f]{4,40}$/i.test(req.params.hash)) {
+    res.status(400).json({ error: 'Invalid commit hash' });
+    return;
+  }
+
+  const session = await getSession(req.params.path, req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  try {
+    res.json(await getCommitDiff(session, req.params.hash));
+  } catch (error) {
+    if (error instanceof GitError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+}));
+
+app.get('/api/history/projects/:path/sessions/:sessionId/redactions', route(async (req, res) => {
+  const session = await getSession(req.params.path, req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  const redactions = findRedactions(session, await loadRedactionConfig());
+  res.json({ redactions });
+}));
+
+// ?format=md|html|json|txt&roles=user,assistant,tool&thinking=true&collapsed=3,7&redact=true|false
+// Without `redact`, redaction.json's applyToExports decides
+app.get('/api/history/projects/:path/sessions/:sessionId/export', route(async (req, res) => {
+  const format = ((req.query.format as string) || 'md') as ExportFormat;
+  const roles = typeof req.query.roles === 'string' ? req.query.roles.split(',') : ['user', 'assistant', 'tool'];
+  const collapsed = typeof req.query.collapsed === 'string' ? req.query.collapsed.split(',').map(Number) : [];
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    res.status(400).json({ error: `Unknown export format "${format}" (use ${EXPORT_FORMATS.join(', ')})` });
+    return;
+  }
+
+  if (collapsed.some(idx => !Number.isInteger(idx) || idx < 0)) {
+    res.status(400).json({ error: 'collapsed must be a comma-separated list of message indices' });
+    return;
+  }
+
+  const session = await getSession(req.params.path, req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  const redactionConfig = await loadRedactionConfig();
+  const redact = req.query.redact === undefined ? redactionConfig.applyToExports : req.query.redact === 'true';
+  const file = exportSession(session, format, {
+    roles: new Set(roles),
+    thinking: req.query.thinking === 'true',
+    collapsed: new Set(collapsed),
+    redaction: redact ? redactionConfig : null
+  });
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  res.send(file.body);
+}));
+
+// Body: { jobId?, format?, roles?, thinking?, redact?, selection: { sessions? | project? | query? (+ mode), from?, to? } }
+app.post('/api/history/export', route(async (req, res) => {
+  const { jobId = '', format = 'md', roles = ['user', 'assistant', 'tool'], thinking = false, redact, selection = {} } = req.body || {};
+  const { sessions, project, query, mode, from, to } = selection as ArchiveSelection;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    res.status(400).json({ error: `Unknown export format "${format}" (use ${EXPORT_FORMATS.join(', ')})` });
+    return;
+  }
+
+  if (sessions !== undefined && !(Array.isArray(sessions) &&
+      sessions.every(s => s && typeof s.project === 'string' && typeof s.sessionId === 'string'))) {
+    res.status(400).json({ error: 'selection.sessions must be a list of { project, sessionId }' });
+    return;
+  }
+
+  if (!sessions && !project && !query && !from && !to) {
+    res.status(400).json({ error: 'Select sessions, a project, a search query or a date range' });
+    return;
+  }
+
+  if (mode !== undefined && !SEARCH_MODES.includes(mode)) {
+    res.status(400).json({ error: `Unknown search mode "${mode}" (use ${SEARCH_MODES.join(', ')})` });
+    return;
+  }
+
+  for (const [name, day] of Object.entries({ from, to })) {
+    if (day !== undefined && (typeof day !== 'string' || !parseSelectionDate(day))) {
+      res.status(400).json({ error: `selection.${name} must be a date like 2026-01-31` });
+      return;
+    }
+  }
+
+  let refs;
+  try {
+    refs = await resolveSelection({ sessions, project, query, mode, from, to });
+  } catch (error) {
+    if (error instanceof QueryParseError) {
+      res.status(400).json({ error: error.message, position: error.position });
+      return;
+    }
+    res.status(500).json({ error: (error as Error).message });
+    return;
+  }
+
+  if (refs.length === 0) {
+    res.status(404).json({ error: 'No sessions match the selection' });
+    return;
+  }
+
+  const redactionConfig = await loadRedactionConfig();
+  const stamp = new Date().toISOString().slice(0, 10);
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="deja-claude-export-${stamp}.zip"`);
+  await archiveExporter.write(String(jobId), refs, format, {
+    roles: new Set(Array.isArray(roles) ? roles : []),
+    thinking: thinking === true,
+    collapsed: new Set(),
+    redaction: (typeof redact === 'boolean' ? redact : redactionConfig.applyToExports) ? redactionConfig : null
+  }, res);
+}));
+
+// Every Read, Write, Edit, … of a file across all sessions, oldest first.
+// `path` may be absolute or a trailing part such as src/auth/jwt.ts
+app.get('/api/history/files', route(async (req, res) => {
+  const path = req.query.path;
+  if (typeof path !== 'string' || !path.trim()) {
+    res.status(400).json({ error: 'path parameter required' });
+    return;
+  }
+
+  const touches = await searchIndex.findFileTouches(path);
+  res.json(touches);
+}));
+
+// ?left=<project>/<sessionId>&right=<project>/<sessionId>
+app.get('/api/history/compare', route(async (req, res) => {
+  const refs = [req.query.left, req.query.right].map(ref => {
+    const idx = typeof ref === 'string' ? ref.lastIndexOf('/') : -1;
+    return idx > 0 ? { project: (ref as string).slice(0, idx), sessionId: (ref as string).slice(idx + 1) } : null;
+  });
+
+  if (!refs[0] || !refs[1]) {
+    res.status(400).json({ error: 'left and right must both be <project>/<sessionId>' });
+    return;
+  }
+
+  const [left, right] = await Promise.all(refs.map(ref => getSession(ref!.project, ref!.sessionId)));
+  if (!left || !right) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  res.json(compareSessions(left, right));
+}));
+
+app.get('/api/history/stats', route(async (req, res) => {
+  const stats = await getUsageStats();
+  res.json(stats);
+}));
+
+app.get('/api/history/search', route(async (req, res) => {
+  const { q: query, limit: limitParam, cursor } = req.query;
+  const mode = (req.query.mode || 'literal') as SearchMode;
+  const sort = (req.query.sort || 'relevance') as SearchSort;
+
+  // Repeated parameters arrive as arrays
+  if (typeof query !== 'string' || !query) {
     res.status(400).json({ error: 'Query parameter required' });
     return;
   }
 
-  const results = await searchHistory(query, limit);
-  res.json(results);
-});
+  if (limitParam !== undefined && (typeof limitParam !== 'string' || !/^\d+$/.test(limitParam) || Number(limitParam) < 1)) {
+    res.status(400).json({ error: 'limit must be a positive integer' });
+    return;
+  }
+  const limit = limitParam ? Number(limitParam) : 50;
+
+  if (cursor !== undefined && typeof cursor !== 'string') {
+    res.status(400).json({ error: 'Invalid cursor' });
+    return;
+  }
+
+  if (!SEARCH_MODES.includes(mode)) {
+    res.status(400).json({ error: `Unknown search mode "${mode}" (use ${SEARCH_MODES.join(', ')})` });
+    return;
+  }
+
+  if (!SEARCH_SORTS.includes(sort)) {
+    res.status(400).json({ error: `Unknown sort "${sort}" (use ${SEARCH_SORTS.join(', ')})` });
+    return;
+  }
+
+  if (cursor && decodeCursor(cursor) === null) {
+    res.status(400).json({ error: 'Invalid cursor' });
+    return;
+  }
+
+  try {
+    const page = await searchIndex.search(query, { limit, mode, sort, cursor });
+    res.json(page);
+  } catch (error) {
+    if (error instanceof QueryParseError) {
+      res.status(400).json({ error: error.message, position: error.position });
+      return;
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+}));
+
+// Redaction settings
+app.get('/api/redaction', route(async (req, res) => {
+  const config = await loadRedactionConfig();
+  res.json({ config, detectors: DETECTORS.map(({ id, label, description }) => ({ id, label, description })) });
+}));
+
+app.put('/api/redaction', route(async (req, res) => {
+  try {
+    const config = await saveRedactionConfig(req.body as RedactionConfig);
+    res.json({ config });
+  } catch (error) {
+    if (error instanceof RedactionConfigError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+}));
+
+// Annotations (bookmarks, tags, notes)
+app.get('/api/annotations', route(async (req, res) => {
+  const annotations = await annotationStore.list();
+  res.json(annotations);
+}));
+
+app.post('/api/annotations/import', route(async (req, res) => {
+  const { bookmarks, tags, notes } = req.body || {};
+
+  if ((bookmarks !== undefined && !Array.isArray(bookmarks)) ||
+      (tags !== undefined && (typeof tags !== 'object' || tags === null)) ||
+      (notes !== undefined && (typeof notes !== 'object' || notes === null))) {
+    res.status(400).json({ error: 'Expected { bookmarks?: string[], tags?: object, notes?: object }' });
+    return;
+  }
+
+  const imported = await annotationStore.importLegacy({ bookmarks, tags, notes });
+  res.json({ imported });
+}));
+
+app.get('/api/annotations/snippets', route(async (req, res) => {
+  const snippets = await annotationStore.listSnippets();
+  res.json(snippets);
+}));
+
+app.get('/api/annotations/:project/:sessionId', route(async (req, res) => {
+  const annotation = await annotationStore.get(req.params.project, req.params.sessionId);
+  if (annotation) {
+    res.json(annotation);
+  } else {
+    res.status(404).json({ error: 'No annotations for this session' });
+  }
+}));
+
+app.put('/api/annotations/:project/:sessionId', route(async (req, res) => {
+  const { bookmarked, tags, note } = req.body || {};
+  const update: AnnotationUpdate = {};
+
+  if (bookmarked !== undefined) {
+    if (typeof bookmarked !== 'boolean') {
+      res.status(400).json({ error: 'bookmarked must be a boolean' });
+      return;
+    }
+    update.bookmarked = bookmarked;
+  }
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || !tags.every(t => typeof t === 'string')) {
+      res.status(400).json({ error: 'tags must be an array of strings' });
+      return;
+    }
+    update.tags = tags;
+  }
+  if (note !== undefined) {
+    if (typeof note !== 'string') {
+      res.status(400).json({ error: 'note must be a string' });
+      return;
+    }
+    update.note = note;
+  }
+
+  const annotation = await annotationStore.update(req.params.project, req.params.sessionId, update);
+  res.json(annotation);
+}));
+
+app.post('/api/annotations/:project/:sessionId/snippets', route(async (req, res) => {
+  const { messageIndex, highlight, note = '' } = req.body || {};
+  const session = await getSession(req.params.project, req.params.sessionId);
+
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  const message = Number.isInteger(messageIndex) ? session.messages[messageIndex] : undefined;
+  if (!message) {
+    res.status(400).json({ error: 'messageIndex must be the index of a message in the session' });
+    return;
+  }
+
+  if (highlight !== undefined && !(
+    Array.isArray(highlight) && highlight.length === 2 &&
+    Number.isInteger(highlight[0]) && Number.isInteger(highlight[1]) &&
+    highlight[0] >= 0 && highlight[0] < highlight[1] && highlight[1] <= message.content.length
+  )) {
+    res.status(400).json({ error: 'highlight must be a [start, end] range within the message' });
+    return;
+  }
+
+  if (typeof note !== 'string') {
+    res.status(400).json({ error: 'note must be a string' });
+    return;
+  }
+
+  const snippet = await annotationStore.addSnippet(req.params.project, req.params.sessionId, {
+    messageIndex,
+    role: message.role,
+    highlight,
+    excerpt: highlight ? message.content.slice(highlight[0], highlight[1]) : message.content.slice(0, 280),
+    note: note.trim()
+  });
+  res.json(snippet);
+}));
+
+app.patch('/api/annotations/:project/:sessionId/snippets/:snippetId', route(async (req, res) => {
+  const { note } = req.body || {};
+  if (typeof note !== 'string') {
+    res.status(400).json({ error: 'note must be a string' });
+    return;
+  }
+
+  const snippet = await annotationStore.updateSnippet(req.params.project, req.params.sessionId, req.params.snippetId, note);
+  if (snippet) {
+    res.json(snippet);
+  } else {
+    res.status(404).json({ error: 'Snippet not found' });
+  }
+}));
+
+app.delete('/api/annotations/:project/:sessionId/snippets/:snippetId', route(async (req, res) => {
+  const removed = await annotationStore.removeSnippet(req.params.project, req.params.sessionId, req.params.snippetId);
+  if (removed) {
+    res.json({ success: true });
+  } else {
+    res.status(404).json({ error: 'Snippet not found' });
+  }
+}));
+
+app.delete('/api/annotations/:project/:sessionId', route(async (req, res) => {
+  const removed = await annotationStore.remove(req.params.project, req.params.sessionId);
+  if (removed) {
+    res.json({ success: true });
+  } else {
+    res.status(404).json({ error: 'No annotations for this session' });
+  }
+}));
 
 // Files
-app.get('/api/files/list', async (req, res) => {
+app.get('/api/files/list', route(async (req, res) => {
   const path = (req.query.path as string) || homedir();
   const showHidden = req.query.hidden === 'true';
 
   const entries = await fileManager.listDirectory(path, showHidden);
   res.json(entries);
-});
+}));
 
-app.get('/api/files/read', async (req, res) => {
+app.get('/api/files/read', route(async (req, res) => {
   const path = req.query.path as string;
 
   if (!path) {
@@ -207,9 +757,9 @@ app.get('/api/files/read', async (req, res) => {
   } else {
     res.status(404).json({ error: 'File not found' });
   }
-});
+}));
 
-app.post('/api/files/write', async (req, res) => {
+app.post('/api/files/write', route(async (req, res) => {
   const { path, content } = req.body;
 
   if (!path || content === undefined) {
@@ -223,9 +773,9 @@ app.post('/api/files/write', async (req, res) => {
   } else {
     res.status(500).json({ error: 'Failed to write file' });
   }
-});
+}));
 
-app.get('/api/files/info', async (req, res) => {
+app.get('/api/files/info', route(async (req, res) => {
   const path = req.query.path as string;
 
   if (!path) {
@@ -239,17 +789,32 @@ app.get('/api/files/info', async (req, res) => {
   } else {
     res.status(404).json({ error: 'File not found' });
   }
-});
+}));
 
 // Health check
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Anything a route did not handle itself
+app.use((error: Error, req: Request, res: Response, _next: NextFunction) => {
+  console.error(`${req.method} ${req.path} failed:`, error);
+  // A streamed response (e.g. a zip export) is already under way; cut it off rather than corrupt it
+  if (res.headersSent) {
+    res.destroy(error);
+    return;
+  }
+  res.status(500).json({ error: error.message || 'Internal server error' });
+});
+
 // Start server
 server.listen(PORT, () => {
   console.log(`Claude GUI Backend running on http://localhost:${PORT}`);
   console.log(`WebSocket available on ws://localhost:${PORT}`);
+
+  // Build or catch up the search index in the background so the first query is fast
+  searchIndex.refresh().catch(error => console.error('Search index refresh failed:', error));
+  historyWatcher.start();
 });
 
 // Graceful shutdown
@@ -258,6 +823,7 @@ process.on('SIGINT', () => {
   sessionManager.getAllSessions().forEach(session => {
     sessionManager.stopSession(session.id);
   });
+  historyWatcher.stop();
   fileManager.closeAllWatchers();
   server.close();
   process.exit(0);
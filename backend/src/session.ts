@@ -10,6 +10,15 @@ export interface Session {
   status: 'running' | 'stopped' | 'error';
   createdAt: Date;
   logs: LogEntry[];
+  // Arguments passed to claude after --dangerously-skip-permissions, e.g. ['--resume', '<id>']
+  claudeArgs: string[];
+  // History session this one picks up, as `<project>/<sessionId>`
+  resumedFrom?: string;
+}
+
+export interface SessionOptions {
+  claudeArgs?: string[];
+  resumedFrom?: string;
 }
 
 export interface LogEntry {
@@ -18,6 +27,9 @@ export interface LogEntry {
   content: string;
 }
 
+// Arguments go through `bash -c`; quote anything beyond plain ids and flags
+const shellQuote = (arg: string) => /^[A-Za-z0-9_./:=-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+
 export class SessionManager extends EventEmitter {
   private sessions: Map<string, Session> = new Map();
   private claudePath: string;
@@ -27,7 +39,7 @@ export class SessionManager extends EventEmitter {
     this.claudePath = claudePath;
   }
 
-  createSession(name: string, workingDir: string): Session {
+  createSession(name: string, workingDir: string, options: SessionOptions = {}): Session {
     const id = uuidv4();
     const session: Session = {
       id,
@@ -36,7 +48,9 @@ export class SessionManager extends EventEmitter {
       pty: null,
       status: 'stopped',
       createdAt: new Date(),
-      logs: []
+      logs: [],
+      claudeArgs: options.claudeArgs || [],
+      resumedFrom: options.resumedFrom
     };
 
     this.sessions.set(id, session);
@@ -51,7 +65,9 @@ export class SessionManager extends EventEmitter {
     try {
       const shell = process.platform === 'win32' ? 'powershell.exe' : 'bash';
 
-      session.pty = pty.spawn(shell, ['-c', `${this.claudePath} --dangerously-skip-permissions`], {
+      const command = [this.claudePath, '--dangerously-skip-permissions', ...session.claudeArgs.map(shellQuote)].join(' ');
+
+      session.pty = pty.spawn(shell, ['-c', command], {
         name: 'xterm-256color',
         cols: 120,
         rows: 40,
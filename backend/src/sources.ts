@@ -0,0 +1,96 @@
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+import { CLAUDE_PROJECTS_DIR, DATA_DIR } from './config.js';
+
+// A directory laid out like ~/.claude/projects: one subdirectory of transcripts per project
+export interface HistorySource {
+  id: string;
+  label: string;
+  path: string;
+  // The archive /api/history/import writes to
+  managed: boolean;
+}
+
+export const LOCAL_SOURCE = 'local';
+export const ARCHIVE_SOURCE = 'archive';
+
+export const ARCHIVE_DIR = join(DATA_DIR, 'archive');
+
+// { "roots": [{ "id": "alice", "label": "Alice's laptop", "path": "~/archives/alice/projects" }] }
+// The id is optional and defaults to a slug of the label
+const SOURCES_PATH = join(DATA_DIR, 'sources.json');
+
+const SOURCE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// Session ids and project directory names, as Claude Code writes them
+export const SAFE_NAME = /^[A-Za-z0-9_-][A-Za-z0-9._-]*$/;
+
+const slugify = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const expandHome = (path: string) => path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : resolve(path);
+
+/**
+ * This machine's history, the roots listed in sources.json, then the import
+ * archive. Read on every request so edits to sources.json apply without a restart.
+ */
+export async function loadSources(): Promise<HistorySource[]> {
+  const sources: HistorySource[] = [
+    { id: LOCAL_SOURCE, label: 'This machine', path: CLAUDE_PROJECTS_DIR, managed: false }
+  ];
+
+  try {
+    const { roots = [] } = JSON.parse(await readFile(SOURCES_PATH, 'utf-8'));
+    for (const root of roots) {
+      if (!root || typeof root.path !== 'string' || typeof root.label !== 'string') {
+        console.error(`Ignoring history root without a label and path in ${SOURCES_PATH}:`, root);
+        continue;
+      }
+      const id = typeof root.id === 'string' ? root.id : slugify(root.label);
+      if (!SOURCE_ID_PATTERN.test(id) || sources.some(s => s.id === id) || id === ARCHIVE_SOURCE) {
+        console.error(`Ignoring history root with invalid or duplicate id "${id}" in ${SOURCES_PATH}`);
+        continue;
+      }
+      sources.push({ id, label: root.label, path: expandHome(root.path), managed: false });
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Ignoring invalid ${SOURCES_PATH}:`, error);
+    }
+  }
+
+  sources.push({ id: ARCHIVE_SOURCE, label: 'Imported', path: ARCHIVE_DIR, managed: true });
+  return sources;
+}
+
+/**
+ * Projects on this machine keep their bare directory name as id, so bookmarks
+ * and links from before multiple roots still resolve; other roots are prefixed
+ * with `<source>:`. Claude never puts a colon in a project directory name.
+ */
+export function toProjectId(source: string, dir: string): string {
+  return source === LOCAL_SOURCE ? dir : `${source}:${dir}`;
+}
+
+export function parseProjectId(project: string): { source: string; dir: string } {
+  const colon = project.indexOf(':');
+  return colon === -1
+    ? { source: LOCAL_SOURCE, dir: project }
+    : { source: project.slice(0, colon), dir: project.slice(colon + 1) };
+}
+
+// Absolute path of a project's directory, or null for an unknown source
+export async function resolveProjectDir(project: string): Promise<string | null> {
+  const { source, dir } = parseProjectId(project);
+  // Project ids come from URLs; never let one climb out of its root
+  if (!dir || dir === '.' || dir === '..' || /[\\/]/.test(dir)) return null;
+  const root = (await loadSources()).find(s => s.id === source);
+  return root ? join(root.path, dir) : null;
+}
+
+// Path of a session's transcript, or null when the project or session id is not a plain name
+export async function resolveSessionFile(project: string, sessionId: string): Promise<string | null> {
+  if (!SAFE_NAME.test(sessionId)) return null;
+  const dir = await resolveProjectDir(project);
+  return dir ? join(dir, `${sessionId}.jsonl`) : null;
+}
@@ -0,0 +1,163 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { DATA_DIR } from './config.js';
+import { TokenUsage } from './history.js';
+import { UsageEntry, searchIndex } from './search.js';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+// Keyed by model family: the model id without its date suffix, so
+// claude-opus-4-1-20250805 is priced as claude-opus-4-1. Override or extend in
+// ~/.deja-claude/prices.json using the same shape.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-6': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-opus-4-5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-opus-4-1': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4-5': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  'claude-3-opus': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 }
+};
+
+const PRICE_FIELDS: Array<keyof ModelPrice> = ['input', 'output', 'cacheWrite', 'cacheRead'];
+
+// Release date suffix of a model id, e.g. "-20250514"
+const MODEL_DATE_SUFFIX = /-\d{8}$/;
+
+const PRICES_PATH = join(DATA_DIR, 'prices.json');
+
+// Models that are not billed per token (e.g. the "<synthetic>" placeholder)
+const UNBILLED_MODELS = new Set(['<synthetic>', 'unknown']);
+
+const TOP_SESSIONS = 10;
+
+export interface UsageTotals extends TokenUsage {
+  cost: number;
+}
+
+export interface UsageStats {
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byProject: Array<UsageTotals & { project: string }>;
+  byModel: Array<UsageTotals & { model: string; priced: boolean }>;
+  topSessions: Array<UsageTotals & { id: string; project: string; summary: string; createdAt: string }>;
+  prices: Record<string, ModelPrice>;
+}
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  return typeof value === 'object' && value !== null &&
+    PRICE_FIELDS.every(field => {
+      const price = (value as Record<string, unknown>)[field];
+      return typeof price === 'number' && Number.isFinite(price) && price >= 0;
+    });
+}
+
+// Read on every request so edits to prices.json apply without a restart
+async function loadPrices(): Promise<Record<string, ModelPrice>> {
+  try {
+    const overrides: unknown = JSON.parse(await readFile(PRICES_PATH, 'utf-8'));
+    if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+      throw new Error('Expected an object of model prices');
+    }
+    const prices = { ...DEFAULT_PRICES };
+    for (const [model, price] of Object.entries(overrides)) {
+      // A malformed entry would turn every cost for the model into NaN; the default (if any) stays
+      if (isModelPrice(price)) {
+        prices[model] = price;
+      } else {
+        console.error(`Ignoring invalid price for ${model} in ${PRICES_PATH}: expected finite ${PRICE_FIELDS.join(', ')}`);
+      }
+    }
+    return prices;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Ignoring invalid ${PRICES_PATH}:`, error);
+    }
+    return DEFAULT_PRICES;
+  }
+}
+
+// Exact model ids win over their family, so prices.json can price a single snapshot
+export function findPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  const family = model.replace(MODEL_DATE_SUFFIX, '');
+  const key = [model, family].find(k => Object.hasOwn(prices, k));
+  return key ? prices[key] : null;
+}
+
+function emptyTotals(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, cost: 0 };
+}
+
+function addTo(totals: UsageTotals, entry: UsageEntry, cost: number) {
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.cacheCreationTokens += entry.cacheCreationTokens;
+  totals.cacheReadTokens += entry.cacheReadTokens;
+  totals.cost += cost;
+}
+
+function bucket<T extends UsageTotals>(map: Map<string, T>, key: string, create: () => T): T {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = create();
+    map.set(key, totals);
+  }
+  return totals;
+}
+
+export async function getUsageStats(): Promise<UsageStats> {
+  const [sessions, prices] = await Promise.all([searchIndex.getUsage(), loadPrices()]);
+
+  const totals = emptyTotals();
+  const byDay = new Map<string, UsageTotals & { day: string }>();
+  const byProject = new Map<string, UsageTotals & { project: string }>();
+  const byModel = new Map<string, UsageTotals & { model: string; priced: boolean }>();
+  const perSession: UsageStats['topSessions'] = [];
+
+  for (const session of sessions) {
+    if (session.usage.length === 0) continue;
+    const sessionTotals = { ...emptyTotals(), id: session.id, project: session.project, summary: session.summary, createdAt: session.createdAt };
+
+    for (const entry of session.usage) {
+      const price = findPrice(entry.model, prices);
+      const cost = price
+        ? (entry.inputTokens * price.input +
+           entry.outputTokens * price.output +
+           entry.cacheCreationTokens * price.cacheWrite +
+           entry.cacheReadTokens * price.cacheRead) / 1_000_000
+        : 0;
+
+      addTo(totals, entry, cost);
+      addTo(sessionTotals, entry, cost);
+      addTo(bucket(byDay, entry.day, () => ({ ...emptyTotals(), day: entry.day })), entry, cost);
+      addTo(bucket(byProject, session.project, () => ({ ...emptyTotals(), project: session.project })), entry, cost);
+      addTo(bucket(byModel, entry.model, () => ({
+        ...emptyTotals(),
+        model: entry.model,
+        priced: !!price || UNBILLED_MODELS.has(entry.model)
+      })), entry, cost);
+    }
+
+    perSession.push(sessionTotals);
+  }
+
+  return {
+    totals,
+    byDay: [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day)),
+    byProject: [...byProject.values()].sort((a, b) => b.cost - a.cost),
+    byModel: [...byModel.values()].sort((a, b) => b.cost - a.cost),
+    topSessions: perSession.sort((a, b) => b.cost - a.cost).slice(0, TOP_SESSIONS),
+    prices
+  };
+}
@@ -0,0 +1,468 @@
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { HistoryMessage, TokenUsage } from './history.js';
+
+/**
+ * Streaming reader for Claude Code transcripts (one JSON record per line).
+ *
+ * Each line is matched against a list of schema adapters that normalise the
+ * record shapes Claude Code has written over time. Anything that cannot be
+ * parsed or adapted is counted in the per-session diagnostics instead of
+ * disappearing silently, so format drift shows up at
+ * /api/history/projects/:path/sessions/:id/diagnostics.
+ */
+
+// A transcript record reduced to what message building needs
+export interface TranscriptRecord {
+  type: 'user' | 'assistant';
+  uuid?: string;
+  // API message id; streamed records of one assistant response share it
+  messageId?: string;
+  timestamp?: string;
+  content: any;
+  model?: string;
+  usage?: any;
+}
+
+interface SchemaAdapter {
+  schema: string;
+  matches(raw: any): boolean;
+  adapt(raw: any): TranscriptRecord;
+}
+
+// Newest first; the first adapter that matches a record wins
+const SCHEMA_ADAPTERS: SchemaAdapter[] = [
+  {
+    // { type, uuid, timestamp, message: { role, content } }
+    schema: 'v1',
+    matches: raw => (raw.type === 'user' || raw.type === 'assistant') && typeof raw.message === 'object' && raw.message !== null,
+    adapt: raw => ({
+      type: raw.type,
+      uuid: raw.uuid,
+      messageId: raw.message.id,
+      timestamp: raw.timestamp,
+      content: raw.message.content,
+      model: raw.message.model,
+      usage: raw.message.usage
+    })
+  },
+  {
+    // Early transcripts: { role, content } at the top level
+    schema: 'legacy',
+    matches: raw => !raw.type && (raw.role === 'user' || raw.role === 'assistant') && 'content' in raw,
+    adapt: raw => ({ type: raw.role, uuid: raw.uuid ?? raw.id, timestamp: raw.timestamp, content: raw.content })
+  }
+];
+
+// Bookkeeping records that are expected in transcripts but carry no conversation
+const NON_MESSAGE_TYPES = new Set(['summary', 'file-history-snapshot', 'system', 'queue-operation']);
+
+// Only the first few problem lines are kept verbatim
+const MAX_REPORTED_LINES = 20;
+const MAX_EXCERPT_LENGTH = 120;
+
+export interface SkippedLine {
+  line: number;
+  reason: string;
+  excerpt: string;
+}
+
+export interface TranscriptDiagnostics {
+  lines: number;
+  records: number;
+  messages: number;
+  duplicates: number;
+  // Tool results whose tool_use was never seen
+  orphanToolResults: number;
+  skippedLines: number;
+  skipped: SkippedLine[];
+  // Record counts keyed by record type or adapter
+  unknownTypes: Record<string, number>;
+  ignoredTypes: Record<string, number>;
+  schemas: Record<string, number>;
+  // Claude Code versions that wrote the transcript
+  versions: Record<string, number>;
+}
+
+interface ToolResult {
+  toolUseId: string;
+  output: string;
+  isError: boolean;
+}
+
+// Session-wide context gathered from record envelopes
+export interface TranscriptMetadata {
+  models: string[];
+  usage: TokenUsage;
+  // First working directory seen, latest branch and Claude Code version
+  cwd?: string;
+  gitBranch?: string;
+  version?: string;
+}
+
+export interface ParsedTranscript {
+  messages: HistoryMessage[];
+  metadata: TranscriptMetadata;
+  diagnostics: TranscriptDiagnostics;
+}
+
+function increment(counts: Record<string, number>, key: string) {
+  counts[key] = (counts[key] || 0) + 1;
+}
+
+function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0 };
+}
+
+function addUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    cacheCreationTokens: total.cacheCreationTokens + usage.cacheCreationTokens,
+    cacheReadTokens: total.cacheReadTokens + usage.cacheReadTokens
+  };
+}
+
+function toTokenUsage(usage: any): TokenUsage | undefined {
+  if (!usage || typeof usage !== 'object') return undefined;
+  return {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+    cacheReadTokens: usage.cache_read_input_tokens || 0
+  };
+}
+
+export class TranscriptParser {
+  private messages: HistoryMessage[] = [];
+  private seenUuids = new Set<string>();
+  // Index into messages of each tool call still waiting for its result
+  private pendingTools = new Map<string, number>();
+  // Consecutive assistant text is merged into one message
+  private pendingText = '';
+  private pendingTimestamp = '';
+  private pendingModel: string | undefined;
+  private pendingUsage: TokenUsage | undefined;
+  // Streamed responses repeat their usage on every record; count each response once
+  private countedResponses = new Set<string>();
+  // Usage of the current response, given to the first message it produces
+  private unclaimedUsage: TokenUsage | undefined;
+  private models = new Set<string>();
+  private metadata: TranscriptMetadata = { models: [], usage: emptyUsage() };
+  private diagnostics: TranscriptDiagnostics = {
+    lines: 0,
+    records: 0,
+    messages: 0,
+    duplicates: 0,
+    orphanToolResults: 0,
+    skippedLines: 0,
+    skipped: [],
+    unknownTypes: {},
+    ignoredTypes: {},
+    schemas: {},
+    versions: {}
+  };
+
+  pushLine(line: string) {
+    const lineNumber = ++this.diagnostics.lines;
+    if (!line.trim()) return;
+
+    let raw: any;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      this.skip(lineNumber, 'Invalid JSON', line);
+      return;
+    }
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      this.skip(lineNumber, 'Not a JSON object', line);
+      return;
+    }
+
+    this.diagnostics.records++;
+    if (typeof raw.version === 'string') {
+      increment(this.diagnostics.versions, raw.version);
+      this.metadata.version = raw.version;
+    }
+    if (typeof raw.cwd === 'string' && !this.metadata.cwd) {
+      this.metadata.cwd = raw.cwd;
+    }
+    if (typeof raw.gitBranch === 'string' && raw.gitBranch) {
+      this.metadata.gitBranch = raw.gitBranch;
+    }
+
+    if (typeof raw.type === 'string' && NON_MESSAGE_TYPES.has(raw.type)) {
+      increment(this.diagnostics.ignoredTypes, raw.type);
+      return;
+    }
+
+    const adapter = SCHEMA_ADAPTERS.find(a => a.matches(raw));
+    if (!adapter) {
+      if (typeof raw.type === 'string') {
+        increment(this.diagnostics.unknownTypes, raw.type);
+      } else {
+        this.skip(lineNumber, 'Unrecognised record shape', line);
+      }
+      return;
+    }
+    increment(this.diagnostics.schemas, adapter.schema);
+
+    // A record of a known type can still hold values of an unexpected shape; lose the line, not the transcript
+    try {
+      const record = adapter.adapt(raw);
+      if (record.uuid) {
+        if (this.seenUuids.has(record.uuid)) {
+          this.diagnostics.duplicates++;
+          return;
+        }
+        this.seenUuids.add(record.uuid);
+      }
+
+      if (record.type === 'user') {
+        this.addUser(record);
+      } else {
+        this.addAssistant(record);
+      }
+    } catch (error) {
+      this.skip(lineNumber, `Unreadable ${adapter.schema} record: ${(error as Error).message}`, line);
+    }
+  }
+
+  finish(): ParsedTranscript {
+    this.flushText();
+    this.diagnostics.messages = this.messages.length;
+    this.metadata.models = [...this.models];
+    return { messages: this.messages, metadata: this.metadata, diagnostics: this.diagnostics };
+  }
+
+  private skip(line: number, reason: string, text: string) {
+    this.diagnostics.skippedLines++;
+    if (this.diagnostics.skipped.length < MAX_REPORTED_LINES) {
+      this.diagnostics.skipped.push({ line, reason, excerpt: text.slice(0, MAX_EXCERPT_LENGTH) });
+    }
+  }
+
+  private flushText() {
+    if (!this.pendingText) return;
+    this.messages.push({
+      role: 'assistant',
+      content: this.pendingText.trim(),
+      timestamp: this.pendingTimestamp,
+      model: this.pendingModel,
+      usage: this.pendingUsage
+    });
+    this.pendingText = '';
+    this.pendingUsage = undefined;
+  }
+
+  private claimUsage(): TokenUsage | undefined {
+    const usage = this.unclaimedUsage;
+    this.unclaimedUsage = undefined;
+    return usage;
+  }
+
+  private addUser(record: TranscriptRecord) {
+    this.flushText();
+
+    const { text, toolResults } = extractUserContent(record.content);
+    for (const result of toolResults) {
+      this.addToolResult(result, record.timestamp);
+    }
+
+    if (text) {
+      this.messages.push({
+        role: 'user',
+        content: text,
+        timestamp: record.timestamp
+      });
+    }
+  }
+
+  private addToolResult(result: ToolResult, timestamp?: string) {
+    const idx = this.pendingTools.get(result.toolUseId);
+    if (idx === undefined) {
+      // Keep the output even though the call it answers is missing
+      this.diagnostics.orphanToolResults++;
+      this.messages.push({
+        role: 'tool',
+        content: 'Tool result',
+        toolUseId: result.toolUseId || undefined,
+        toolOutput: result.output,
+        isError: result.isError,
+        timestamp
+      });
+      return;
+    }
+    this.pendingTools.delete(result.toolUseId);
+
+    const toolMessage = this.messages[idx];
+    toolMessage.toolOutput = result.output;
+    toolMessage.isError = result.isError;
+
+    const started = Date.parse(toolMessage.timestamp || '');
+    const finished = Date.parse(timestamp || '');
+    if (!isNaN(started) && !isNaN(finished)) {
+      toolMessage.durationMs = Math.max(0, finished - started);
+    }
+  }
+
+  private addAssistant(record: TranscriptRecord) {
+    const assistantContent = extractAssistantContent(record.content);
+    const { model } = record;
+
+    if (model) {
+      this.models.add(model);
+    }
+    const usage = toTokenUsage(record.usage);
+    const responseId = record.messageId || record.uuid;
+    if (usage && !(responseId && this.countedResponses.has(responseId))) {
+      if (responseId) this.countedResponses.add(responseId);
+      this.metadata.usage = addUsage(this.metadata.usage, usage);
+      this.unclaimedUsage = usage;
+    }
+
+    // Thinking gets its own message so the UI can show or hide it
+    for (const thinking of assistantContent.thinking) {
+      this.flushText();
+      this.messages.push({
+        role: 'assistant',
+        content: thinking,
+        isThinking: true,
+        model,
+        usage: this.claimUsage(),
+        timestamp: record.timestamp
+      });
+    }
+
+    if (assistantContent.text) {
+      if (this.pendingText) {
+        this.pendingText += '\n' + assistantContent.text;
+      } else {
+        this.pendingText = assistantContent.text;
+        this.pendingTimestamp = record.timestamp || '';
+      }
+      this.pendingModel = model;
+      const claimed = this.claimUsage();
+      if (claimed) {
+        this.pendingUsage = this.pendingUsage ? addUsage(this.pendingUsage, claimed) : claimed;
+      }
+    }
+
+    // Each tool call is added as a separate message, in the order they were issued
+    if (assistantContent.toolUses.length > 0) {
+      this.flushText();
+    }
+    for (const { id, name, input } of assistantContent.toolUses) {
+      if (id) {
+        this.pendingTools.set(id, this.messages.length);
+      }
+      this.messages.push({
+        role: 'tool',
+        content: `Using tool: ${name}`,
+        toolName: name,
+        toolInput: JSON.stringify(input, null, 2),
+        toolUseId: id,
+        turnId: record.messageId || record.uuid,
+        model,
+        usage: this.claimUsage(),
+        timestamp: record.timestamp
+      });
+    }
+  }
+}
+
+// Reads the transcript line by line, so memory stays flat however large the file
+export async function readTranscript(filePath: string): Promise<ParsedTranscript> {
+  const parser = new TranscriptParser();
+  const lines = createInterface({
+    input: createReadStream(filePath, { encoding: 'utf-8' }),
+    crlfDelay: Infinity
+  });
+
+  for await (const line of lines) {
+    parser.pushLine(line);
+  }
+
+  return parser.finish();
+}
+
+// Content blocks are objects with a type; anything else in a content array is ignored
+const isBlock = (block: unknown): block is Record<string, any> =>
+  typeof block === 'object' && block !== null && !Array.isArray(block);
+
+// Text the user typed, separated from tool results that ride along in user records
+function extractUserContent(content: any): { text: string; toolResults: ToolResult[] } {
+  if (!content) return { text: '', toolResults: [] };
+
+  if (typeof content === 'string') {
+    return { text: content, toolResults: [] };
+  }
+
+  if (Array.isArray(content)) {
+    const parts: string[] = [];
+    const toolResults: ToolResult[] = [];
+
+    for (const block of content) {
+      if (!isBlock(block)) continue;
+      if (block.type === 'text' && typeof block.text === 'string') {
+        parts.push(block.text);
+      } else if (block.type === 'tool_result') {
+        toolResults.push({
+          toolUseId: block.tool_use_id || '',
+          output: extractToolOutput(block.content),
+          isError: block.is_error === true
+        });
+      }
+    }
+
+    return { text: parts.join('\n'), toolResults };
+  }
+
+  return { text: '', toolResults: [] };
+}
+
+function extractToolOutput(content: any): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+
+  return content
+    .map(block => !isBlock(block) ? '' : block.type === 'text' ? block.text : block.type === 'image' ? '[Image]' : '')
+    .filter(Boolean)
+    .join('\n');
+}
+
+interface ToolUse {
+  id?: string;
+  name: string;
+  input: any;
+}
+
+function extractAssistantContent(content: any): { text: string; thinking: string[]; toolUses: ToolUse[] } {
+  if (!content) return { text: '', thinking: [], toolUses: [] };
+
+  if (typeof content === 'string') {
+    return { text: content, thinking: [], toolUses: [] };
+  }
+
+  if (Array.isArray(content)) {
+    const textParts: string[] = [];
+    const thinking: string[] = [];
+    const toolUses: ToolUse[] = [];
+
+    for (const block of content) {
+      if (!isBlock(block)) continue;
+      if (block.type === 'text' && block.text) {
+        textParts.push(block.text);
+      } else if (block.type === 'thinking' && block.thinking) {
+        thinking.push(block.thinking);
+      } else if (block.type === 'tool_use') {
+        toolUses.push({ id: block.id, name: block.name, input: block.input });
+      }
+    }
+
+    return { text: textParts.join('\n'), thinking, toolUses };
+  }
+
+  return { text: '', thinking: [], toolUses: [] };
+}
@@ -0,0 +1,125 @@
+import { EventEmitter } from 'events';
+import { mkdir } from 'fs/promises';
+import { relative, sep } from 'path';
+import { FileManager, fileManager } from './files.js';
+import { ARCHIVE_DIR, HistorySource, loadSources, toProjectId } from './sources.js';
+
+export interface HistoryEvent {
+  type: 'history:session-added' | 'history:session-updated' | 'history:project-added';
+  project: string;
+  sessionId?: string;
+}
+
+// Claude appends to a transcript line by line; coalesce bursts of writes into one event
+const DEBOUNCE_MS = 500;
+
+export class HistoryWatcher extends EventEmitter {
+  private fileManager: FileManager;
+  private pending: Map<string, { event: HistoryEvent; timer: NodeJS.Timeout }> = new Map();
+  private started = false;
+  // History roots being watched; sources.json changes are picked up on restart
+  private roots: HistorySource[] = [];
+
+  constructor(fileManager: FileManager) {
+    super();
+    this.fileManager = fileManager;
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.fileManager.on('file:added', ({ path, type }) => {
+      this.touch(path);
+      const location = this.locate(path);
+      if (!location) return;
+
+      if (type === 'directory' && !location.sessionId) {
+        this.queue(path, { type: 'history:project-added', project: location.project });
+      } else if (type === 'file' && location.sessionId) {
+        this.queue(path, { type: 'history:session-added', ...location });
+      }
+    });
+
+    this.fileManager.on('file:changed', ({ path }) => {
+      this.touch(path);
+      const location = this.locate(path);
+      if (!location?.sessionId) return;
+
+      this.queue(path, { type: 'history:session-updated', ...location });
+    });
+
+    this.fileManager.on('file:removed', ({ path }) => this.touch(path));
+
+    // Create the import archive up front so imports into it are seen
+    mkdir(ARCHIVE_DIR, { recursive: true })
+      .then(() => loadSources())
+      .then(sources => {
+        if (!this.started) return;
+        this.roots = sources;
+        sources.forEach(source => this.fileManager.watchDirectory(source.path, undefined));
+      })
+      .catch(error => console.error('Failed to watch history roots:', error));
+  }
+
+  stop(): void {
+    this.started = false;
+    this.roots.forEach(source => this.fileManager.unwatchDirectory(source.path));
+    this.roots = [];
+    this.pending.forEach(({ timer }) => clearTimeout(timer));
+    this.pending.clear();
+  }
+
+  /**
+   * Map a watched path to its project id and, for top-level transcripts,
+   * its session id. Anything deeper is ignored.
+   */
+  private locate(path: string): { project: string; sessionId?: string } | null {
+    for (const root of this.roots) {
+      const rel = relative(root.path, path);
+      if (!rel || rel.startsWith('..')) continue;
+
+      const parts = rel.split(sep);
+      if (parts.length === 1) {
+        return { project: toProjectId(root.id, parts[0]) };
+      }
+      if (parts.length === 2 && parts[1].endsWith('.jsonl')) {
+        return { project: toProjectId(root.id, parts[0]), sessionId: parts[1].replace('.jsonl', '') };
+      }
+      return null;
+    }
+    return null;
+  }
+
+  /**
+   * Emit `history:changed` with the id of the root `path` lies under, right
+   * away and for any change, so the search index knows which root to rescan.
+   */
+  private touch(path: string): void {
+    const root = this.roots.find(r => {
+      const rel = relative(r.path, path);
+      return rel && !rel.startsWith('..');
+    });
+    if (root) this.emit('history:changed', root.id);
+  }
+
+  private queue(path: string, event: HistoryEvent): void {
+    const existing = this.pending.get(path);
+    if (existing) {
+      clearTimeout(existing.timer);
+      // A file that was added and then written to is still reported as added
+      if (existing.event.type === 'history:session-added') {
+        event = existing.event;
+      }
+    }
+
+    const timer = setTimeout(() => {
+      this.pending.delete(path);
+      this.emit('history:event', event);
+    }, DEBOUNCE_MS);
+
+    this.pending.set(path, { event, timer });
+  }
+}
+
+export const historyWatcher = new HistoryWatcher(fileManager);
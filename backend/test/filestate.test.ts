@@ -0,0 +1,151 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FileStateError, getFileHistory, listSessionFiles, unifiedDiff } from '../src/filestate.js';
+import type { HistoryMessage, HistorySession } from '../src/history.js';
+
+const PATH = '/home/dev/app/src/config.ts';
+
+const call = (toolName: string, input: Record<string, unknown>, overrides: Partial<HistoryMessage> = {}): HistoryMessage => ({
+  role: 'tool',
+  content: `Using tool: ${toolName}`,
+  toolName,
+  toolInput: JSON.stringify({ file_path: PATH, ...input }),
+  toolOutput: 'ok',
+  ...overrides
+});
+
+// Read output as the Read tool prints it: `cat -n` numbering, then a reminder
+const read = (content: string, input: Record<string, unknown> = {}) => call('Read', input, {
+  toolOutput: content.split('\n').map((line, i) => `${String(i + 1).padStart(6)}→${line}`).join('\n') + '\n\n<system-reminder>x</system-reminder>'
+});
+
+const session = (...messages: HistoryMessage[]): HistorySession => ({
+  id: 's1',
+  project: '-home-dev-app',
+  source: 'local',
+  createdAt: new Date('2026-01-02T10:00:00Z'),
+  messages: [{ role: 'user', content: 'Change the config' }, ...messages]
+});
+
+const ORIGINAL = 'export const port = 3000;\nexport const host = "localhost";\nexport const debug = false;';
+
+test('edits replay on top of the last full read', () => {
+  const s = session(
+    read(ORIGINAL),
+    call('Edit', { old_string: 'port = 3000', new_string: 'port = 8080' }),
+    call('Edit', { old_string: 'debug = false', new_string: 'debug = true' })
+  );
+  const history = getFileHistory(s, PATH);
+  assert.equal(history.content, ORIGINAL.replace('3000', '8080').replace('false', 'true'));
+  assert.equal(history.complete, true);
+  assert.equal(history.at, 3);
+  assert.deepEqual(history.steps.map(step => [step.messageIndex, step.toolName, step.kind, step.applied]), [
+    [2, 'Edit', 'edit', true],
+    [3, 'Edit', 'edit', true]
+  ]);
+});
+
+test('each step can be viewed, and -1 is the file before the session changed it', () => {
+  const s = session(read(ORIGINAL), call('Edit', { old_string: '3000', new_string: '8080' }), call('Edit', { old_string: 'false', new_string: 'true' }));
+  assert.equal(getFileHistory(s, PATH, -1).content, ORIGINAL);
+  assert.equal(getFileHistory(s, PATH, -1).at, null);
+  assert.equal(getFileHistory(s, PATH, 2).content, ORIGINAL.replace('3000', '8080'));
+  // Messages between steps show the latest step before them
+  assert.equal(getFileHistory(s, PATH, 0).at, null);
+});
+
+test('replace_all replaces every occurrence, otherwise only the first', () => {
+  const base = 'a = 1\nb = 1\nc = 1';
+  assert.equal(getFileHistory(session(read(base), call('Edit', { old_string: '= 1', new_string: '= 2' })), PATH).content, 'a = 2\nb = 1\nc = 1');
+  assert.equal(getFileHistory(session(read(base), call('Edit', { old_string: '= 1', new_string: '= 2', replace_all: true })), PATH).content, 'a = 2\nb = 2\nc = 2');
+  // `$&` in the new text is not a replacement pattern
+  assert.equal(getFileHistory(session(read(base), call('Edit', { old_string: 'a', new_string: '$&$&' })), PATH).content.split('\n')[0], '$&$& = 1');
+});
+
+test('a Write replaces the contents and makes them complete', () => {
+  const s = session(
+    call('Edit', { old_string: 'port = 3000', new_string: 'port = 8080' }),
+    call('Write', { content: 'export const port = 9000;' }),
+    call('Edit', { old_string: '9000', new_string: '9001' })
+  );
+  assert.equal(getFileHistory(s, PATH, 1).complete, false);
+  const history = getFileHistory(s, PATH);
+  assert.equal(history.content, 'export const port = 9001;');
+  assert.equal(history.complete, true);
+  assert.deepEqual(history.steps.map(step => step.kind), ['edit', 'write', 'edit']);
+});
+
+test('a new file written by the session starts out empty and complete', () => {
+  const s = session(call('Write', { content: 'line one' }));
+  assert.deepEqual(getFileHistory(s, PATH, -1), { path: PATH, steps: getFileHistory(s, PATH).steps, at: null, content: '', complete: true });
+});
+
+test('MultiEdit applies its edits in order and flags any it could not place', () => {
+  const s = session(read(ORIGINAL), call('MultiEdit', {
+    edits: [
+      { old_string: '3000', new_string: '8080' },
+      { old_string: 'port = 8080', new_string: 'port = 8081' },
+      { old_string: 'not in the file', new_string: 'export const added = 1;' }
+    ]
+  }));
+  const history = getFileHistory(s, PATH);
+  assert.equal(history.content, `${ORIGINAL.replace('3000', '8081')}\n⋯\nexport const added = 1;`);
+  assert.equal(history.complete, false);
+  assert.deepEqual(history.steps.map(step => [step.toolName, step.applied]), [['MultiEdit', false]]);
+});
+
+test('without a full read only the edited regions are known', () => {
+  const s = session(
+    read(ORIGINAL, { offset: 10, limit: 5 }),
+    call('Edit', { old_string: 'port = 3000', new_string: 'port = 8080' }),
+    call('Edit', { old_string: 'port = 8080', new_string: 'port = 8081' })
+  );
+  const history = getFileHistory(s, PATH);
+  assert.equal(history.content, 'port = 8081');
+  assert.equal(history.complete, false);
+  assert.deepEqual(history.steps.map(step => step.applied), [false, true]);
+});
+
+test('reads after the first change and failed calls are ignored', () => {
+  const s = session(
+    read('stale'),
+    call('Edit', { old_string: 'stale', new_string: 'fresh' }),
+    read('unrelated'),
+    call('Edit', { old_string: 'fresh', new_string: 'broken' }, { isError: true }),
+    call('Edit', { old_string: 'fresh', new_string: 'final' })
+  );
+  const history = getFileHistory(s, PATH);
+  assert.equal(history.content, 'final');
+  assert.deepEqual(history.steps.map(step => step.messageIndex), [2, 5]);
+});
+
+test('a diff between two steps is a unified diff', () => {
+  const s = session(read(ORIGINAL), call('Edit', { old_string: '3000', new_string: '8080' }));
+  assert.equal(getFileHistory(s, PATH, undefined, -1).diff, [
+    '--- a/home/dev/app/src/config.ts',
+    '+++ b/home/dev/app/src/config.ts',
+    '@@ -1,3 +1,3 @@',
+    '-export const port = 3000;',
+    '+export const port = 8080;',
+    ' export const host = "localhost";',
+    ' export const debug = false;',
+    ''
+  ].join('\n'));
+  assert.equal(unifiedDiff(PATH, 'same', 'same'), '');
+  assert.equal(unifiedDiff('new.txt', '', 'a'), '--- a/new.txt\n+++ b/new.txt\n@@ -0,0 +1,1 @@\n+a\n');
+});
+
+test('files are listed per path with their steps', () => {
+  const other = '/home/dev/app/README.md';
+  const s = session(
+    call('Write', { content: 'x' }),
+    call('Read', {}, { toolInput: JSON.stringify({ file_path: other }) }),
+    call('Edit', { file_path: other, old_string: 'a', new_string: 'b' }),
+    call('Bash', { command: 'ls' })
+  );
+  assert.deepEqual(listSessionFiles(s).map(file => [file.path, file.steps.map(step => step.toolName)]), [
+    [other, ['Edit']],
+    [PATH, ['Write']]
+  ]);
+  assert.throws(() => getFileHistory(s, '/home/dev/app/other.ts'), FileStateError);
+});
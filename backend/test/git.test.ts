@@ -0,0 +1,113 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { mkdtemp, realpath, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GitError, findSessionCommits, getCommitDiff } from '../src/git.js';
+import type { HistoryMessage, HistorySession } from '../src/history.js';
+
+const repo = await realpath(await mkdtemp(join(tmpdir(), 'deja-claude-git-')));
+after(() => rm(repo, { recursive: true, force: true }));
+
+function git(args: string[], date?: string): string {
+  const env = { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date };
+  return execFileSync('git', ['-c', 'user.name=Dev', '-c', 'user.email=dev@example.com', '-c', 'commit.gpgsign=false', ...args], {
+    cwd: repo, env, encoding: 'utf-8'
+  });
+}
+
+// Commits one changed file at the given time and returns its hash
+async function commitAt(date: string, subject: string): Promise<string> {
+  await writeFile(join(repo, 'notes.txt'), `${subject}\n`);
+  git(['add', '.']);
+  git(['commit', '-q', '-m', subject], date);
+  return git(['rev-parse', 'HEAD']).trim();
+}
+
+// The session ran from 10:00 to 11:00; commits up to 15 minutes later still count
+git(['init', '-q', '-b', 'main']);
+const before = await commitAt('2026-03-01T09:00:00Z', 'Before the session');
+const during = await commitAt('2026-03-01T10:30:00Z', 'During the session');
+const grace = await commitAt('2026-03-01T11:10:00Z', 'Just after the session');
+const late = await commitAt('2026-03-01T12:00:00Z', 'Well after the session');
+git(['checkout', '-q', '-b', 'feature', before]);
+const otherBranch = await commitAt('2026-03-01T10:45:00Z', 'On another branch');
+git(['checkout', '-q', 'main']);
+
+const bash = (command: string, toolOutput: string, timestamp: string): HistoryMessage => ({
+  role: 'tool',
+  content: 'Using tool: Bash',
+  toolName: 'Bash',
+  toolInput: JSON.stringify({ command }),
+  toolOutput,
+  timestamp
+});
+
+const session = (messages: HistoryMessage[], cwd: string | null = repo): HistorySession => ({
+  id: 's1',
+  project: '-tmp-repo',
+  source: 'local',
+  createdAt: new Date('2026-03-01T10:00:00Z'),
+  cwd: cwd ?? undefined,
+  messages: [
+    { role: 'user', content: 'Fix it', timestamp: '2026-03-01T10:00:00Z' },
+    ...messages,
+    { role: 'assistant', content: 'Done', timestamp: '2026-03-01T11:00:00Z' }
+  ]
+});
+
+test('commits on any branch between the first message and the grace period are linked', async () => {
+  const result = await findSessionCommits(session([]));
+  assert.equal(result.available, true);
+  assert.equal(result.repo, repo);
+  assert.deepEqual(result.commits.map(c => [c.hash, c.matchedBy]), [
+    [during, ['time']],
+    [otherBranch, ['time']],
+    [grace, ['time']]
+  ]);
+
+  const [commit] = result.commits;
+  assert.equal(commit.subject, 'During the session');
+  assert.equal(commit.author, 'Dev');
+  assert.equal(commit.shortHash, during.slice(0, commit.shortHash.length));
+  assert.deepEqual([commit.filesChanged, commit.insertions, commit.deletions], [1, 1, 1]);
+  assert.ok(!result.commits.some(c => c.hash === before || c.hash === late));
+});
+
+test('commits printed by a git commit call are linked even outside the window', async () => {
+  const result = await findSessionCommits(session([
+    bash('git add -A && git commit -m "During the session"', `[main ${during.slice(0, 7)}] During the session\n 1 file changed`, '2026-03-01T10:30:00Z'),
+    bash('git commit --amend', `[main ${late.slice(0, 9)}] Well after the session`, '2026-03-01T10:40:00Z'),
+    // Not a commit command, and a hash that is not in the repository
+    bash('echo "[main abcdef1] fake"', `[main ${before.slice(0, 7)}] fake`, '2026-03-01T10:41:00Z'),
+    bash('git commit -m x', '[main (root-commit) 0000000] gone', '2026-03-01T10:42:00Z')
+  ]));
+  assert.deepEqual(result.commits.map(c => [c.hash, c.matchedBy, c.messageIndex]), [
+    [during, ['time', 'bash'], 1],
+    [otherBranch, ['time'], undefined],
+    [grace, ['time'], undefined],
+    [late, ['bash'], 2]
+  ]);
+});
+
+test('the window falls back to the session start when messages have no timestamps', async () => {
+  const untimed: HistorySession = { ...session([]), createdAt: new Date('2026-03-01T11:50:00Z'), messages: [{ role: 'user', content: 'Hi' }] };
+  assert.deepEqual((await findSessionCommits(untimed)).commits.map(c => c.hash), [late]);
+});
+
+test('sessions without a usable repository report why', async () => {
+  assert.equal((await findSessionCommits(session([], null))).available, false);
+  const outside = await findSessionCommits(session([], tmpdir()));
+  assert.equal(outside.available, false);
+  assert.match(outside.reason!, /is not a git repository/);
+});
+
+test('commit diffs are read by hash', async () => {
+  const { diff, truncated } = await getCommitDiff(session([]), during.slice(0, 10));
+  assert.equal(truncated, false);
+  assert.match(diff, /^-Before the session\n\+During the session$/m);
+  await assert.rejects(getCommitDiff(session([]), '--output=/tmp/x'), GitError);
+  await assert.rejects(getCommitDiff(session([]), 'deadbeef'), /not found/);
+  await assert.rejects(getCommitDiff(session([], null), during), /not linked/);
+});
@@ -0,0 +1,135 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { gzipSync } from 'zlib';
+import { readTar } from '../src/archive.js';
+
+// The archive root is read when the modules load
+const root = await mkdtemp(join(tmpdir(), 'deja-claude-test-'));
+process.env.CLAUDE_PROJECTS_DIR = join(root, 'projects');
+process.env.DEJA_CLAUDE_DATA_DIR = join(root, 'data');
+after(() => rm(root, { recursive: true, force: true }));
+
+const { ImportError, importHistory } = await import('../src/importer.js');
+
+const ARCHIVE = join(root, 'data', 'archive');
+
+// One tar entry: a ustar header with a valid checksum, then the data padded to 512 bytes
+function tarEntry(name: string, data: string | Buffer, options: { type?: string; prefix?: string } = {}): Buffer {
+  const body = Buffer.from(data);
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100);
+  header.write('0000644\0', 100);
+  header.write(body.length.toString(8).padStart(11, '0') + '\0', 124);
+  header.write(options.type ?? '0', 156);
+  header.write('ustar\0' + '00', 257);
+  if (options.prefix) header.write(options.prefix, 345, 155);
+
+  header.write(' '.repeat(8), 148);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148);
+
+  return Buffer.concat([header, body, Buffer.alloc(Math.ceil(body.length / 512) * 512 - body.length)]);
+}
+
+const tar = (...entries: Buffer[]) => Buffer.concat([...entries, Buffer.alloc(1024)]);
+
+// Split into small chunks so headers and data straddle chunk boundaries
+async function read(archive: Buffer, chunkSize = 100) {
+  const chunks: Buffer[] = [];
+  for (let i = 0; i < archive.length; i += chunkSize) chunks.push(archive.subarray(i, i + chunkSize));
+  const entries = await readTar(Readable.from(chunks));
+  return entries.map(({ name, data }) => [name, data.toString('utf-8')]);
+}
+
+const TRANSCRIPT = JSON.stringify({ type: 'user', cwd: '/home/dev/app', message: { role: 'user', content: 'hi' } }) + '\n';
+
+test('regular files are read and other entry types skipped', async () => {
+  const archive = tar(
+    tarEntry('proj/', '', { type: '5' }),
+    tarEntry('proj/a.jsonl', 'first'),
+    tarEntry('proj/link.jsonl', '', { type: '2' }),
+    tarEntry('proj/b.jsonl', 'x'.repeat(700))
+  );
+  assert.deepEqual(await read(archive), [['proj/a.jsonl', 'first'], ['proj/b.jsonl', 'x'.repeat(700)]]);
+  assert.deepEqual(await read(archive, 1), await read(archive, archive.length));
+});
+
+test('long names come from the ustar prefix, GNU and PAX entries', async () => {
+  const long = `${'d'.repeat(120)}/session.jsonl`;
+  assert.deepEqual(await read(tar(
+    tarEntry('session.jsonl', 'ustar', { prefix: 'd'.repeat(120) }),
+    tarEntry('././@LongLink', `${long}\0`, { type: 'L' }),
+    tarEntry('truncated-gnu', 'gnu'),
+    tarEntry('PaxHeader', `${long.length + 10} path=${long}\n`, { type: 'x' }),
+    tarEntry('truncated-pax', 'pax'),
+    tarEntry('plain.jsonl', 'plain')
+  )), [[long, 'ustar'], [long, 'gnu'], [long, 'pax'], ['plain.jsonl', 'plain']]);
+});
+
+test('reading stops at the end-of-archive marker', async () => {
+  const archive = Buffer.concat([tar(tarEntry('a.jsonl', 'a')), Buffer.from('trailing garbage')]);
+  assert.deepEqual(await read(archive), [['a.jsonl', 'a']]);
+});
+
+test('corrupt and truncated archives are rejected', async () => {
+  const corrupt = tar(tarEntry('a.jsonl', 'a'));
+  corrupt[0] = 'b'.charCodeAt(0);
+  await assert.rejects(read(corrupt), /corrupt header/);
+  await assert.rejects(read(Buffer.from('{"type":"user"}\n'.repeat(40))), /corrupt header/);
+  await assert.rejects(read(tarEntry('a.jsonl', 'x'.repeat(1000)).subarray(0, 900)), /Truncated/);
+});
+
+test('gzipped archives are imported into their project directories', async () => {
+  const upload = gzipSync(tar(
+    tarEntry('projects/-home-dev-app/s1.jsonl', TRANSCRIPT),
+    tarEntry('projects/-home-dev-app/s1/subagents/agent-1.jsonl', TRANSCRIPT),
+    tarEntry('projects/-home-dev-app/notes.txt', 'not a transcript'),
+    tarEntry('projects/-home-dev-app/broken.jsonl', 'not json')
+  ));
+  const result = await importHistory('history.tgz', upload);
+  assert.deepEqual(result.imported, [{ project: 'archive:-home-dev-app', sessionId: 's1' }]);
+  assert.deepEqual(result.skipped, [{ name: 'projects/-home-dev-app/broken.jsonl', reason: 'Not a JSONL transcript' }]);
+  assert.equal(await readFile(join(ARCHIVE, '-home-dev-app', 's1.jsonl'), 'utf-8'), TRANSCRIPT);
+});
+
+test('hostile entry names never write outside the archive root', async () => {
+  const result = await importHistory('hostile.tar', tar(
+    tarEntry('../escape.jsonl', TRANSCRIPT),
+    tarEntry('proj/../../up.jsonl', TRANSCRIPT),
+    tarEntry('/etc/cron.d/absolute.jsonl', TRANSCRIPT),
+    tarEntry('proj/...jsonl', TRANSCRIPT),
+    tarEntry('proj/.hidden.jsonl', TRANSCRIPT),
+    tarEntry('proj/bad name.jsonl', TRANSCRIPT)
+  ), 'uploads');
+
+  // Unsafe parent directories fall back to the chosen project
+  assert.deepEqual(result.imported, [
+    { project: 'archive:uploads', sessionId: 'escape' },
+    { project: 'archive:uploads', sessionId: 'up' },
+    { project: 'archive:cron.d', sessionId: 'absolute' }
+  ]);
+  assert.deepEqual(result.skipped.map(s => [s.name, s.reason]), [
+    ['proj/...jsonl', 'Unsupported file name'],
+    ['proj/.hidden.jsonl', 'Unsupported file name'],
+    ['proj/bad name.jsonl', 'Unsupported file name']
+  ]);
+  assert.deepEqual((await readdir(root)).sort(), ['data']);
+  assert.deepEqual((await readdir(join(root, 'data'))).sort(), ['archive']);
+});
+
+test('unsafe project names and unknown formats are rejected', async () => {
+  await assert.rejects(importHistory('s.jsonl', Buffer.from(TRANSCRIPT), '../up'), ImportError);
+  await assert.rejects(importHistory('history.zip', Buffer.alloc(10)), /Upload \.jsonl transcripts/);
+  await assert.rejects(importHistory('empty.tar', tar()), /No \.jsonl transcripts/);
+});
+
+test('archives that unpack past the limit are rejected', async () => {
+  const upload = gzipSync(tar(tarEntry('proj/big.jsonl', 'x'.repeat(256 * 1024))));
+  assert.ok(upload.length < 4096);
+  await assert.rejects(importHistory('bomb.tgz', upload, undefined, 64 * 1024), /unpacks to more than/);
+  await assert.rejects(importHistory('bad.tgz', upload.subarray(0, 100)), /Could not read bad\.tgz/);
+});
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileSafeRegex, findRegexHits } from '../src/match.js';
+import { QueryParseError } from '../src/query.js';
+
+test('regex search rejects patterns RE2 cannot run safely', () => {
+  for (const pattern of ['(a)\\1', '(?<x>a)\\k<x>', '(?=a)b', '(?<!a)b', 'a'.repeat(201), '(unclosed']) {
+    assert.throws(() => compileSafeRegex(pattern), QueryParseError, pattern);
+  }
+});
+
+test('backreferences are reported where they start', () => {
+  assert.throws(() => compileSafeRegex('(ab)+\\1'), (error: QueryParseError) => error.position === 5);
+});
+
+test('catastrophic backtracking patterns match in linear time', () => {
+  const text = 'a'.repeat(5000) + 'b';
+  for (const pattern of ['(a|a)*$', '(a+)+$', '(\\w*)*c', '(a|aa)+b']) {
+    const start = Date.now();
+    findRegexHits(compileSafeRegex(pattern), text);
+    assert.ok(Date.now() - start < 1000, pattern);
+  }
+});
+
+test('regex hits are case-insensitive UTF-16 spans and skip empty matches', () => {
+  const text = '😀 Héllo WORLD, world';
+  assert.deepEqual(findRegexHits(compileSafeRegex('world'), text).map(h => h.span), [[9, 14], [16, 21]]);
+  assert.deepEqual(findRegexHits(compileSafeRegex('é'), text).map(h => h.span), [[4, 5]]);
+  assert.deepEqual(findRegexHits(compileSafeRegex('x*'), 'axxb').map(h => h.span), [[1, 3]]);
+});
@@ -0,0 +1,144 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { QueryParseError, QueryTarget, evaluateQuery, getQueryTerms, parseQuery } from '../src/query.js';
+
+const message = (overrides: Partial<QueryTarget> = {}): QueryTarget => ({
+  role: 'user',
+  content: 'Refresh the JWT token before it expires',
+  timestamp: '2026-08-15T12:00:00',
+  project: '-home-dev-api-server',
+  sessionCreatedAt: '2026-08-15T11:00:00',
+  ...overrides
+});
+
+const matches = (query: string, target: QueryTarget = message()) => evaluateQuery(parseQuery(query), target);
+
+test('words are lower-cased and joined with an implicit AND', () => {
+  assert.deepEqual(parseQuery('JWT refresh'), {
+    type: 'and',
+    children: [
+      { type: 'term', value: 'jwt', phrase: false },
+      { type: 'term', value: 'refresh', phrase: false }
+    ]
+  });
+});
+
+test('quoted phrases stay one term', () => {
+  assert.deepEqual(parseQuery('"Refresh the JWT"'), { type: 'term', value: 'refresh the jwt', phrase: true });
+});
+
+test('AND binds tighter than OR and parentheses group', () => {
+  assert.deepEqual(parseQuery('a b OR c'), {
+    type: 'or',
+    children: [
+      { type: 'and', children: [{ type: 'term', value: 'a', phrase: false }, { type: 'term', value: 'b', phrase: false }] },
+      { type: 'term', value: 'c', phrase: false }
+    ]
+  });
+  assert.deepEqual(parseQuery('a AND (b OR c)'), {
+    type: 'and',
+    children: [
+      { type: 'term', value: 'a', phrase: false },
+      { type: 'or', children: [{ type: 'term', value: 'b', phrase: false }, { type: 'term', value: 'c', phrase: false }] }
+    ]
+  });
+});
+
+test('NOT and a leading dash both negate', () => {
+  const negated = { type: 'not', child: { type: 'term', value: 'docker', phrase: false } };
+  assert.deepEqual(parseQuery('NOT docker'), negated);
+  assert.deepEqual(parseQuery('-docker'), negated);
+  assert.deepEqual(parseQuery('(-docker)'), negated);
+});
+
+test('dashes inside words and lower-case operators are plain words', () => {
+  assert.deepEqual(parseQuery('pre-commit'), { type: 'term', value: 'pre-commit', phrase: false });
+  assert.deepEqual(parseQuery('this or that'), {
+    type: 'and',
+    children: ['this', 'or', 'that'].map(value => ({ type: 'term', value, phrase: false }))
+  });
+});
+
+test('field filters parse their values', () => {
+  assert.deepEqual(parseQuery('role:User'), { type: 'field', field: 'role', value: 'user' });
+  assert.deepEqual(parseQuery('project:"My App"'), { type: 'field', field: 'project', value: 'my app' });
+  assert.deepEqual(parseQuery('after:2026-08-01'), {
+    type: 'field', field: 'after', value: '2026-08-01', date: new Date(2026, 7, 1).getTime()
+  });
+  // Unknown prefixes are searched as words
+  assert.deepEqual(parseQuery('http://example.com'), { type: 'term', value: 'http://example.com', phrase: false });
+});
+
+test('malformed queries report where they went wrong', () => {
+  const cases: Array<[string, number]> = [
+    ['', 0],
+    ['   ', 0],
+    ['"open quote', 0],
+    ['jwt "', 4],
+    ['(jwt', 0],
+    ['jwt)', 3],
+    ['jwt OR', 6],
+    ['NOT', 3],
+    ['""', 0],
+    ['role:', 0],
+    ['role:admin', 0],
+    ['x before:yesterday', 2]
+  ];
+  for (const [query, position] of cases) {
+    assert.throws(() => parseQuery(query), (error: unknown) =>
+      error instanceof QueryParseError && error.position === position, query);
+  }
+});
+
+test('terms match message content case-insensitively', () => {
+  assert.equal(matches('jwt'), true);
+  assert.equal(matches('"refresh the jwt"'), true);
+  assert.equal(matches('"jwt refresh"'), false);
+  assert.equal(matches('jwt oauth'), false);
+  assert.equal(matches('jwt OR oauth'), true);
+  assert.equal(matches('jwt -expires'), false);
+  assert.equal(matches('NOT oauth'), true);
+});
+
+test('field filters match message and session context', () => {
+  const tool = message({ role: 'tool', toolName: 'Bash', files: ['/home/dev/api/src/auth.ts'] });
+  assert.equal(matches('role:tool', tool), true);
+  assert.equal(matches('role:user', tool), false);
+  assert.equal(matches('tool:bash', tool), true);
+  assert.equal(matches('file:src/auth.ts', tool), true);
+  assert.equal(matches('file:login.ts', tool), false);
+  // Path separators in project filters match the dashes in directory names
+  assert.equal(matches('project:api-server'), true);
+  assert.equal(matches('project:dev/api'), true);
+  assert.equal(matches('project:web'), false);
+});
+
+test('annotation filters match tags exactly and notes by substring', () => {
+  const annotated = message({ tags: ['Auth', 'bug'], note: 'Follow up with security' });
+  assert.equal(matches('tag:auth', annotated), true);
+  assert.equal(matches('tag:aut', annotated), false);
+  assert.equal(matches('note:"follow up"', annotated), true);
+  assert.equal(matches('tag:auth'), false);
+});
+
+test('date filters use the message timestamp, else the session start', () => {
+  assert.equal(matches('after:2026-08-15'), true);
+  assert.equal(matches('after:2026-08-16'), false);
+  assert.equal(matches('before:2026-08-16'), true);
+  assert.equal(matches('before:2026-08-15'), false);
+  const untimed = message({ timestamp: undefined, sessionCreatedAt: '2026-07-01T09:00:00' });
+  assert.equal(matches('before:2026-08-01', untimed), true);
+});
+
+test('query terms leave out negated and filter-only parts unless asked', () => {
+  const ast = parseQuery('jwt (refresh OR jwt) -docker role:user');
+  assert.deepEqual(getQueryTerms(ast), ['jwt', 'refresh']);
+  assert.deepEqual(getQueryTerms(ast, true), ['jwt', 'refresh', 'docker']);
+});
+
+test('a custom term predicate replaces substring matching', () => {
+  const ast = parseQuery('jwt OR oauth');
+  const seen: string[] = [];
+  evaluateQuery(ast, message(), term => { seen.push(term); return false; });
+  assert.deepEqual(seen, ['jwt', 'oauth']);
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ROLE_WEIGHTS, bm25, idf, recencyBoost } from '../src/rank.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 1);
+
+test('rarer terms are worth more', () => {
+  assert.ok(idf(1, 100) > idf(10, 100));
+  assert.ok(idf(10, 100) > idf(100, 100));
+  // Even a term in every session keeps a positive weight
+  assert.ok(idf(100, 100) > 0);
+});
+
+test('repeating a term has diminishing returns', () => {
+  const score = (tf: number) => bm25(tf, 5, 100, 200, 200);
+  assert.ok(score(2) > score(1));
+  assert.ok(score(2) - score(1) > score(10) - score(9));
+  // Saturates below idf * (k1 + 1)
+  assert.ok(score(1000) < idf(5, 100) * 2.2);
+});
+
+test('the same hits count for more in a shorter session', () => {
+  assert.ok(bm25(3, 5, 100, 50, 200) > bm25(3, 5, 100, 200, 200));
+  assert.ok(bm25(3, 5, 100, 200, 200) > bm25(3, 5, 100, 800, 200));
+});
+
+test('an empty corpus average does not divide by zero', () => {
+  assert.ok(Number.isFinite(bm25(1, 1, 1, 10, 0)));
+});
+
+test('recency boost halves its extra weight every 30 days', () => {
+  assert.equal(recencyBoost(NOW, NOW), 1.5);
+  assert.equal(recencyBoost(NOW - 30 * DAY_MS, NOW), 1.25);
+  assert.equal(recencyBoost(NOW - 60 * DAY_MS, NOW), 1.125);
+  assert.ok(recencyBoost(NOW - 3650 * DAY_MS, NOW) < 1.001);
+  // Clock skew never pushes a session above a fresh one
+  assert.equal(recencyBoost(NOW + DAY_MS, NOW), 1.5);
+});
+
+test('recency breaks near ties but does not outrank a much better match', () => {
+  const strong = bm25(8, 5, 100, 200, 200) * recencyBoost(NOW - 365 * DAY_MS, NOW);
+  const weak = bm25(1, 5, 100, 200, 200) * recencyBoost(NOW, NOW);
+  assert.ok(strong > weak);
+
+  const older = bm25(3, 5, 100, 200, 200) * recencyBoost(NOW - 90 * DAY_MS, NOW);
+  const newer = bm25(3, 5, 100, 210, 200) * recencyBoost(NOW - DAY_MS, NOW);
+  assert.ok(newer > older);
+});
+
+test('prompts outweigh replies, which outweigh tool output', () => {
+  assert.ok(ROLE_WEIGHTS.user > ROLE_WEIGHTS.assistant);
+  assert.ok(ROLE_WEIGHTS.assistant > ROLE_WEIGHTS.tool);
+});
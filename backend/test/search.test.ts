@@ -0,0 +1,75 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// History and config paths are read when the modules load
+const root = await mkdtemp(join(tmpdir(), 'deja-claude-test-'));
+process.env.CLAUDE_PROJECTS_DIR = join(root, 'projects');
+process.env.DEJA_CLAUDE_DATA_DIR = join(root, 'data');
+after(() => rm(root, { recursive: true, force: true }));
+
+const { SearchIndex } = await import('../src/search.js');
+
+const PROJECT = '-home-dev-app';
+
+async function writeTranscript(sessionId: string, prompt: string, reply: string): Promise<void> {
+  const records = [
+    { type: 'user', uuid: 'u1', timestamp: '2026-01-02T10:00:00Z', cwd: '/home/dev/app', message: { role: 'user', content: prompt } },
+    { type: 'assistant', uuid: 'a1', timestamp: '2026-01-02T10:00:05Z', message: { role: 'assistant', model: 'claude-sonnet-4-5', content: [{ type: 'text', text: reply }] } },
+    { type: 'user', uuid: 'u2', timestamp: '2026-01-02T10:01:00Z', message: { role: 'user', content: 'Thanks, ship it' } }
+  ];
+  await mkdir(join(root, 'projects', PROJECT), { recursive: true });
+  await writeFile(join(root, 'projects', PROJECT, `${sessionId}.jsonl`), records.map(r => JSON.stringify(r)).join('\n') + '\n');
+}
+
+await writeTranscript('session-1', 'Fix the login redirect', 'a'.repeat(28) + 'b');
+
+test('regex search survives catastrophic backtracking patterns', async () => {
+  const start = Date.now();
+  // Backtracking engines try 2^28 paths at every position of the reply
+  const page = await new SearchIndex().search('(a|a)*z', { mode: 'regex' });
+  assert.ok(Date.now() - start < 5000);
+  assert.equal(page.total, 0);
+  assert.equal(page.truncated, false);
+});
+
+test('regex search finds matches in the reply', async () => {
+  const page = await new SearchIndex().search('a{28}b', { mode: 'regex' });
+  assert.equal(page.total, 1);
+});
+
+test('regex search stops scanning once its time budget is spent', async () => {
+  const page = await new SearchIndex(0).search('login', { mode: 'regex' });
+  assert.equal(page.total, 0);
+  assert.equal(page.truncated, true);
+});
+
+test('regex search rejects unsafe patterns', async () => {
+  await assert.rejects(new SearchIndex().search('(a)\\1', { mode: 'regex' }), { name: 'QueryParseError' });
+});
+
+test('literal search matches parts of indexed words', async () => {
+  const index = new SearchIndex();
+  assert.equal((await index.search('redir')).total, 1);
+  assert.equal((await index.search('irec')).total, 1);
+  assert.equal((await index.search('gi')).total, 1);
+  assert.equal((await index.search('redirx')).total, 0);
+});
+
+test('refresh only rescans history roots marked dirty', async () => {
+  const index = new SearchIndex();
+  assert.equal((await index.search('billing')).total, 0);
+
+  await writeTranscript('session-2', 'Migrate the billing tables', 'Done.');
+  assert.equal((await index.search('billing')).total, 0);
+  index.markDirty('local');
+  assert.equal((await index.search('billing')).total, 1);
+
+  await rm(join(root, 'projects', PROJECT, 'session-2.jsonl'));
+  index.markDirty('archive');
+  assert.equal((await index.search('billing')).total, 1);
+  index.markDirty('local');
+  assert.equal((await index.search('billing')).total, 0);
+});
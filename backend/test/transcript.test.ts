@@ -0,0 +1,244 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TranscriptParser } from '../src/transcript.js';
+
+// Records are JSON-encoded; strings are pushed as raw lines
+function parse(lines: Array<object | string>) {
+  const parser = new TranscriptParser();
+  for (const line of lines) {
+    parser.pushLine(typeof line === 'string' ? line : JSON.stringify(line));
+  }
+  return parser.finish();
+}
+
+const user = (uuid: string, content: unknown, extra: object = {}) =>
+  ({ type: 'user', uuid, timestamp: '2026-01-02T10:00:00Z', message: { role: 'user', content }, ...extra });
+
+const assistant = (uuid: string, content: unknown, message: object = {}, extra: object = {}) =>
+  ({ type: 'assistant', uuid, timestamp: '2026-01-02T10:00:05Z', message: { role: 'assistant', content, ...message }, ...extra });
+
+test('current and legacy record shapes are both adapted', () => {
+  const { messages, diagnostics } = parse([
+    user('u1', 'Fix the build'),
+    { role: 'assistant', id: 'legacy-1', content: 'Done.' }
+  ]);
+  assert.deepEqual(messages.map(m => [m.role, m.content]), [['user', 'Fix the build'], ['assistant', 'Done.']]);
+  assert.deepEqual(diagnostics.schemas, { v1: 1, legacy: 1 });
+});
+
+test('consecutive assistant text is merged into one message', () => {
+  const { messages } = parse([
+    user('u1', 'Explain'),
+    assistant('a1', [{ type: 'text', text: 'First part.' }]),
+    assistant('a2', [{ type: 'text', text: 'Second part.' }])
+  ]);
+  assert.equal(messages.length, 2);
+  assert.equal(messages[1].content, 'First part.\nSecond part.');
+});
+
+test('bookkeeping records are ignored and unknown types counted', () => {
+  const { messages, diagnostics } = parse([
+    { type: 'summary', summary: 'Build fix' },
+    { type: 'file-history-snapshot' },
+    { type: 'progress', data: {} },
+    user('u1', 'Hello there')
+  ]);
+  assert.equal(messages.length, 1);
+  assert.deepEqual(diagnostics.ignoredTypes, { summary: 1, 'file-history-snapshot': 1 });
+  assert.deepEqual(diagnostics.unknownTypes, { progress: 1 });
+  assert.equal(diagnostics.skippedLines, 0);
+});
+
+test('unreadable lines are reported with their line numbers', () => {
+  const { messages, diagnostics } = parse([
+    user('u1', 'Before'),
+    '{not json',
+    '[1, 2]',
+    { foo: 'bar' },
+    '',
+    user('u2', 'After')
+  ]);
+  assert.deepEqual(messages.map(m => m.content), ['Before', 'After']);
+  assert.equal(diagnostics.lines, 6);
+  assert.equal(diagnostics.records, 3);
+  assert.equal(diagnostics.skippedLines, 3);
+  assert.deepEqual(diagnostics.skipped.map(s => [s.line, s.reason]), [
+    [2, 'Invalid JSON'],
+    [3, 'Not a JSON object'],
+    [4, 'Unrecognised record shape']
+  ]);
+});
+
+test('only the first problem lines are kept verbatim, and excerpts are cut short', () => {
+  const { diagnostics } = parse(Array.from({ length: 25 }, () => '{' + 'x'.repeat(200)));
+  assert.equal(diagnostics.skippedLines, 25);
+  assert.equal(diagnostics.skipped.length, 20);
+  assert.equal(diagnostics.skipped[0].excerpt.length, 120);
+});
+
+test('a record with an unexpected value loses its line, not the transcript', () => {
+  const { messages, diagnostics } = parse([
+    user('u1', 'Start'),
+    assistant('a1', [{ type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'ls' } }]),
+    user('u2', [{ type: 'tool_result', tool_use_id: 't1', content: 'ok' }, 'stray string', null]),
+    user('u3', 'Still here')
+  ]);
+  assert.equal(messages[messages.length - 1].content, 'Still here');
+  assert.equal(messages[1].toolOutput, 'ok');
+  assert.equal(diagnostics.skippedLines, 0);
+});
+
+test('duplicate records are dropped by uuid', () => {
+  const { messages, diagnostics } = parse([user('u1', 'Once'), user('u1', 'Once')]);
+  assert.equal(messages.length, 1);
+  assert.equal(diagnostics.duplicates, 1);
+});
+
+test('session context comes from the record envelopes', () => {
+  const { metadata, diagnostics } = parse([
+    user('u1', 'Start', { cwd: '/home/dev/app', gitBranch: 'main', version: '1.0.0' }),
+    user('u2', 'Later', { cwd: '/home/dev/other', gitBranch: 'feature', version: '1.0.1' })
+  ]);
+  assert.equal(metadata.cwd, '/home/dev/app');
+  assert.equal(metadata.gitBranch, 'feature');
+  assert.equal(metadata.version, '1.0.1');
+  assert.deepEqual(diagnostics.versions, { '1.0.0': 1, '1.0.1': 1 });
+});
+
+test('tool results are paired with their call by tool_use_id', () => {
+  const { messages, diagnostics } = parse([
+    user('u1', 'Check the tests'),
+    assistant('a1', [{ type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'npm test' } }]),
+    { ...user('u2', [{ type: 'tool_result', tool_use_id: 't1', content: [{ type: 'text', text: '1 failing' }, { type: 'image' }], is_error: true }]), timestamp: '2026-01-02T10:00:07.500Z' }
+  ]);
+  assert.equal(messages.length, 2);
+  const call = messages[1];
+  assert.equal(call.role, 'tool');
+  assert.equal(call.toolName, 'Bash');
+  assert.equal(call.toolUseId, 't1');
+  assert.deepEqual(JSON.parse(call.toolInput!), { command: 'npm test' });
+  assert.equal(call.toolOutput, '1 failing\n[Image]');
+  assert.equal(call.isError, true);
+  assert.equal(call.durationMs, 2500);
+  assert.equal(diagnostics.orphanToolResults, 0);
+});
+
+test('results arriving out of order still find their calls', () => {
+  const { messages } = parse([
+    user('u1', 'Read both'),
+    assistant('a1', [
+      { type: 'tool_use', id: 't1', name: 'Read', input: { file_path: 'a.ts' } },
+      { type: 'tool_use', id: 't2', name: 'Read', input: { file_path: 'b.ts' } }
+    ]),
+    user('u2', [
+      { type: 'tool_result', tool_use_id: 't2', content: 'B' },
+      { type: 'tool_result', tool_use_id: 't1', content: 'A' }
+    ])
+  ]);
+  assert.deepEqual(messages.slice(1).map(m => [m.toolUseId, m.toolOutput, m.isError]), [['t1', 'A', false], ['t2', 'B', false]]);
+});
+
+test('a result without its call is kept and counted as an orphan', () => {
+  const { messages, diagnostics } = parse([
+    user('u1', [{ type: 'tool_result', tool_use_id: 'missing', content: 'output' }])
+  ]);
+  assert.equal(diagnostics.orphanToolResults, 1);
+  assert.deepEqual(
+    { role: messages[0].role, toolUseId: messages[0].toolUseId, toolOutput: messages[0].toolOutput },
+    { role: 'tool', toolUseId: 'missing', toolOutput: 'output' }
+  );
+});
+
+test('text sent alongside tool results stays a user message', () => {
+  const { messages } = parse([
+    assistant('a1', [{ type: 'tool_use', id: 't1', name: 'Bash', input: {} }]),
+    user('u1', [{ type: 'tool_result', tool_use_id: 't1', content: 'done' }, { type: 'text', text: 'Now commit it' }])
+  ]);
+  assert.deepEqual(messages.map(m => [m.role, m.content]), [['tool', 'Using tool: Bash'], ['user', 'Now commit it']]);
+});
+
+test('every tool call in a response is kept, in order, sharing its turn', () => {
+  const { messages } = parse([
+    user('u1', 'Look around'),
+    assistant('a1', [
+      { type: 'text', text: 'Checking both.' },
+      { type: 'tool_use', id: 't1', name: 'Glob', input: { pattern: '*.ts' } },
+      { type: 'tool_use', id: 't2', name: 'Grep', input: { pattern: 'TODO' } }
+    ], { id: 'msg_1' })
+  ]);
+  assert.deepEqual(messages.map(m => [m.role, m.toolName, m.turnId]), [
+    ['user', undefined, undefined],
+    ['assistant', undefined, undefined],
+    ['tool', 'Glob', 'msg_1'],
+    ['tool', 'Grep', 'msg_1']
+  ]);
+});
+
+test('streamed records of one response share a turn; the next response starts another', () => {
+  const { messages } = parse([
+    assistant('a1', [{ type: 'tool_use', id: 't1', name: 'Read', input: {} }], { id: 'msg_1' }),
+    assistant('a2', [{ type: 'tool_use', id: 't2', name: 'Read', input: {} }], { id: 'msg_1' }),
+    user('u1', [{ type: 'tool_result', tool_use_id: 't1', content: '' }, { type: 'tool_result', tool_use_id: 't2', content: '' }]),
+    assistant('a3', [{ type: 'tool_use', id: 't3', name: 'Edit', input: {} }], { id: 'msg_2' })
+  ]);
+  assert.deepEqual(messages.map(m => m.turnId), ['msg_1', 'msg_1', 'msg_2']);
+});
+
+test('records without an API message id fall back to their uuid as the turn', () => {
+  const { messages } = parse([
+    assistant('a1', [{ type: 'tool_use', id: 't1', name: 'Bash', input: {} }])
+  ]);
+  assert.equal(messages[0].turnId, 'a1');
+});
+
+test('thinking blocks become their own messages ahead of the reply', () => {
+  const { messages } = parse([
+    user('u1', 'Why is it slow?'),
+    assistant('a1', [
+      { type: 'thinking', thinking: 'Probably the N+1 query.' },
+      { type: 'text', text: 'The list view issues one query per row.' }
+    ], { model: 'claude-opus-4-1' })
+  ]);
+  assert.deepEqual(messages.slice(1).map(m => [m.content, m.isThinking, m.model]), [
+    ['Probably the N+1 query.', true, 'claude-opus-4-1'],
+    ['The list view issues one query per row.', undefined, 'claude-opus-4-1']
+  ]);
+});
+
+test('empty thinking blocks are dropped', () => {
+  const { messages } = parse([assistant('a1', [{ type: 'thinking', thinking: '' }, { type: 'text', text: 'Hi' }])]);
+  assert.deepEqual(messages.map(m => m.content), ['Hi']);
+});
+
+const usage = { input_tokens: 100, output_tokens: 20, cache_creation_input_tokens: 5, cache_read_input_tokens: 50 };
+
+test('usage repeated on every streamed record of a response is counted once', () => {
+  const { messages, metadata } = parse([
+    assistant('a1', [{ type: 'thinking', thinking: 'Plan' }], { id: 'msg_1', model: 'm', usage }),
+    assistant('a2', [{ type: 'text', text: 'Answer' }], { id: 'msg_1', model: 'm', usage }),
+    assistant('a3', [{ type: 'tool_use', id: 't1', name: 'Bash', input: {} }], { id: 'msg_1', model: 'm', usage })
+  ]);
+  assert.deepEqual(metadata.usage, { inputTokens: 100, outputTokens: 20, cacheCreationTokens: 5, cacheReadTokens: 50 });
+  // Only the first message of the response carries it, so per-message sums match the session total
+  assert.deepEqual(messages.map(m => m.usage?.inputTokens), [100, undefined, undefined]);
+});
+
+test('separate responses each add their usage, and every model is recorded', () => {
+  const { messages, metadata } = parse([
+    assistant('a1', [{ type: 'text', text: 'One' }], { id: 'msg_1', model: 'claude-sonnet-4-5', usage }),
+    user('u1', 'And?'),
+    assistant('a2', [{ type: 'text', text: 'Two' }], { id: 'msg_2', model: 'claude-haiku-4-5', usage: { input_tokens: 10, output_tokens: 2 } })
+  ]);
+  assert.deepEqual(metadata.usage, { inputTokens: 110, outputTokens: 22, cacheCreationTokens: 5, cacheReadTokens: 50 });
+  assert.deepEqual(metadata.models, ['claude-sonnet-4-5', 'claude-haiku-4-5']);
+  assert.deepEqual(messages.map(m => m.usage?.outputTokens), [20, undefined, 2]);
+});
+
+test('text merged across responses sums their usage', () => {
+  const { messages } = parse([
+    assistant('a1', [{ type: 'text', text: 'One' }], { id: 'msg_1', usage }),
+    assistant('a2', [{ type: 'text', text: 'Two' }], { id: 'msg_2', usage })
+  ]);
+  assert.equal(messages.length, 1);
+  assert.equal(messages[0].usage?.inputTokens, 200);
+});
@@ -1,9 +1,13 @@
-import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
-import { Search, FolderOpen, MessageSquare, Download, Settings, RefreshCw, Calendar, ChevronRight, Zap, Clock, Hash, Terminal, Cpu, Database, Bookmark, BookmarkCheck, BarChart3, Filter, X, Copy, Check, ChevronDown, ChevronUp, Tag, StickyNote, Minimize2, Type, Layers } from 'lucide-react';
+import { useEffect, useState, useRef, useMemo } from 'react';
+import { Search, FolderOpen, MessageSquare, Settings, RefreshCw, Calendar, ChevronRight, Zap, Clock, Hash, Terminal, Cpu, Database, Bookmark, BookmarkCheck, BarChart3, Filter, X, Copy, Check, ChevronDown, ChevronUp, Tag, StickyNote, Minimize2, Type, Layers, Brain, GitBranch, Highlighter, Link2, Trash2, Archive, ShieldCheck, FileClock, Play, FileDiff, TerminalSquare } from 'lucide-react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { ToastContainer, toast, SessionTimeline, SessionInsights, ActivityHeatmap } from './components';
-import { useDebounce } from './hooks';
+import { ToastContainer, toast, SessionTimeline, SessionInsights, ActivityHeatmap, UsageAnalytics, BulkExportDialog, RedactionSettings, SessionCompare, SessionCommits, SessionReplay, FileStateDialog, LiveTerminalTabs, LiveSessionList, FileHistoryList, ExportMenu, SelectionBar, SelectionCheckbox, ImportButton, SourceBadge, SearchBox, SearchResultsList, highlightSpans } from './components';
+import type { UsageStats, Span } from './components';
+import { useHistoryEvents, useHashRoute, formatRoute, useSearch, useLiveSessions, useFileHistory, useExport, useCompare, useFileStates, useReplay, useImport, useSessionCommits, EXPORT_FORMATS } from './hooks';
+import type { Route, RouteView, SearchResult } from './hooks';
+import { API_URL } from './api';
+import { formatDate, projectBaseName } from './format';
 
 // Code block component with copy button
 const CodeBlock = ({ code, language }: { code: string; language?: string }) => {
@@ -42,58 +46,164 @@ const CodeBlock = ({ code, language }: { code: string; language?: string }) => {
   );
 };
 
-// Parse content for code blocks
+// Parse content for code blocks. `offset` is where each part starts in the original content.
 const parseContent = (content: string) => {
-  const parts: Array<{ type: 'text' | 'code'; content: string; language?: string }> = [];
+  const parts: Array<{ type: 'text' | 'code'; content: string; language?: string; offset: number }> = [];
   const codeBlockRegex = /```(\w+)?\n?([\s\S]*?)```/g;
   let lastIndex = 0;
   let match;
 
   while ((match = codeBlockRegex.exec(content)) !== null) {
     if (match.index > lastIndex) {
-      parts.push({ type: 'text', content: content.slice(lastIndex, match.index) });
+      parts.push({ type: 'text', content: content.slice(lastIndex, match.index), offset: lastIndex });
     }
-    parts.push({ type: 'code', content: match[2].trim(), language: match[1] });
+    parts.push({ type: 'code', content: match[2].trim(), language: match[1], offset: match.index });
     lastIndex = match.index + match[0].length;
   }
 
   if (lastIndex < content.length) {
-    parts.push({ type: 'text', content: content.slice(lastIndex) });
+    parts.push({ type: 'text', content: content.slice(lastIndex), offset: lastIndex });
   }
 
-  return parts.length > 0 ? parts : [{ type: 'text' as const, content }];
+  return parts.length > 0 ? parts : [{ type: 'text' as const, content, offset: 0 }];
 };
 
-const API_URL = '/api';
+// Offset into a message's text of a selection boundary, counted from the start of the text part it falls in
+const selectionOffset = (messageEl: Element, node: Node, offset: number): number | null => {
+  const part = (node instanceof Element ? node : node.parentElement)?.closest('[data-offset]');
+  if (!part || !messageEl.contains(part)) return null;
+  const range = document.createRange();
+  range.setStart(part, 0);
+  range.setEnd(node, offset);
+  return Number(part.getAttribute('data-offset')) + range.toString().length;
+};
+
+// Projects outside this machine's history have `<source>:` ids
+const projectSource = (project: string) => project.includes(':') ? project.slice(0, project.indexOf(':')) : 'local';
+
+const ALL_ROLES = ['user', 'assistant', 'tool'];
 
 interface Project {
   path: string;
   name: string;
+  source: string;
   sessionCount: number;
   lastActivity: string;
 }
 
+// A history root: this machine, one listed in sources.json, or the import archive
+interface HistorySource {
+  id: string;
+  label: string;
+  path: string;
+  managed: boolean;
+}
+
+interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
 interface HistoryMessage {
   role: 'user' | 'assistant' | 'tool';
   content: string;
   timestamp?: string;
   toolName?: string;
   toolInput?: string;
+  toolUseId?: string;
+  turnId?: string;
+  toolOutput?: string;
+  isError?: boolean;
+  durationMs?: number;
+  isThinking?: boolean;
+  model?: string;
+  usage?: TokenUsage;
+}
+
+interface SessionAnnotation {
+  project: string;
+  sessionId: string;
+  bookmarked: boolean;
+  tags: string[];
+  note: string;
+  updatedAt: string;
 }
 
-interface SearchMatch {
+interface Snippet {
+  id: string;
+  project: string;
+  sessionId: string;
   messageIndex: number;
-  preview: string;
   role: string;
+  highlight?: Span;
+  excerpt: string;
+  note: string;
+  createdAt: string;
 }
 
+interface RedactionConfig {
+  applyToExports: boolean;
+  detectors: Record<string, boolean>;
+  rules: { name: string; pattern: string }[];
+}
+
+type RedactedField = 'content' | 'toolInput' | 'toolOutput';
+
+interface Redaction {
+  messageIndex: number;
+  field: RedactedField;
+  start: number;
+  end: number;
+  label: string;
+}
+
+interface MaskedText {
+  text: string;
+  // Where the [REDACTED:…] placeholders ended up in `text`
+  spans: Span[];
+}
+
+// Same masking the backend applies to exports, keeping track of the placeholders
+const maskText = (text: string, redactions: Redaction[]): MaskedText => {
+  const masked: MaskedText = { text: '', spans: [] };
+  let last = 0;
+  for (const { start, end, label } of redactions) {
+    masked.text += text.slice(last, start);
+    const placeholder = `[REDACTED:${label}]`;
+    masked.spans.push([masked.text.length, masked.text.length + placeholder.length]);
+    masked.text += placeholder;
+    last = end;
+  }
+  masked.text += text.slice(last);
+  return masked;
+};
+
+// Path a tool call operated on, using the same input keys as the backend's file index
+const toolFilePath = (toolInput?: string): string | null => {
+  if (!toolInput) return null;
+  try {
+    const input = JSON.parse(toolInput);
+    const path = input?.file_path ?? input?.notebook_path ?? input?.path;
+    return typeof path === 'string' && path ? path : null;
+  } catch {
+    return null;
+  }
+};
+
 interface Session {
   id: string;
   project: string;
+  source: string;
   messages: HistoryMessage[];
   createdAt: string;
   summary?: string;
-  matches?: SearchMatch[];
+  models?: string[];
+  usage?: TokenUsage;
+  cwd?: string;
+  gitBranch?: string;
+  version?: string;
 }
 
 interface Stats {
@@ -108,24 +218,30 @@ interface Stats {
 
 function App() {
   const [projects, setProjects] = useState<Project[]>([]);
+  const [historySources, setHistorySources] = useState<HistorySource[]>([]);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [sessions, setSessions] = useState<Session[]>([]);
   const [filteredSessions, setFilteredSessions] = useState<Session[]>([]);
   const [selectedSession, setSelectedSession] = useState<Session | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<Session[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [view, setView] = useState<'projects' | 'search' | 'stats' | 'bookmarks'>('projects');
+  const [view, setView] = useState<RouteView>('projects');
   const [highlightedMessageIdx, setHighlightedMessageIdx] = useState<number | null>(null);
-  const [activeSearchQuery, setActiveSearchQuery] = useState('');
-  const [exporting, setExporting] = useState(false);
+  // Message last jumped to in the open session; kept in the URL
+  const [linkedMessageIdx, setLinkedMessageIdx] = useState<number | null>(null);
+  // Message to scroll to once the session it belongs to has rendered
+  const [pendingJump, setPendingJump] = useState<number | null>(null);
   const [bookmarks, setBookmarks] = useState<Set<string>>(new Set());
   const [bookmarkedSessions, setBookmarkedSessions] = useState<Session[]>([]);
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [redactionSettings, setRedactionSettings] = useState<{ config: RedactionConfig; detectors: { id: string; label: string; description: string }[] } | null>(null);
+  const [redactExports, setRedactExports] = useState(true);
+  const [redactedPreview, setRedactedPreview] = useState(false);
+  const [redactions, setRedactions] = useState<Redaction[] | null>(null);
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
   const [showDateFilter, setShowDateFilter] = useState(false);
   const [stats, setStats] = useState<Stats | null>(null);
+  const [usageStats, setUsageStats] = useState<UsageStats | null>(null);
   const [focusedIndex, setFocusedIndex] = useState(0);
   const [showShortcuts, setShowShortcuts] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
@@ -133,18 +249,8 @@ function App() {
     const saved = localStorage.getItem('deja-claude-min-messages');
     return saved ? parseInt(saved) : 3;
   });
-  const [recentSearches, setRecentSearches] = useState<string[]>(() => {
-    const saved = localStorage.getItem('deja-claude-recent-searches');
-    return saved ? JSON.parse(saved) : [];
-  });
-  const [sessionTags, setSessionTags] = useState<Record<string, string[]>>(() => {
-    const saved = localStorage.getItem('deja-claude-tags');
-    return saved ? JSON.parse(saved) : {};
-  });
-  const [sessionNotes, setSessionNotes] = useState<Record<string, string>>(() => {
-    const saved = localStorage.getItem('deja-claude-notes');
-    return saved ? JSON.parse(saved) : {};
-  });
+  const [sessionTags, setSessionTags] = useState<Record<string, string[]>>({});
+  const [sessionNotes, setSessionNotes] = useState<Record<string, string>>({});
   const [toolFilter, setToolFilter] = useState<string>('');
   const [compactView, setCompactView] = useState(() => {
     return localStorage.getItem('deja-claude-compact') === 'true';
@@ -157,39 +263,206 @@ function App() {
   const [newTag, setNewTag] = useState('');
   const [showNoteInput, setShowNoteInput] = useState(false);
   const [collapsedTools, setCollapsedTools] = useState<Set<number>>(new Set());
-  const [messageFilters, setMessageFilters] = useState<Set<string>>(new Set(['user', 'assistant', 'tool']));
+  const [messageFilters, setMessageFilters] = useState<Set<string>>(new Set(ALL_ROLES));
   const [showInsights, setShowInsights] = useState(true);
+  const [showThinking, setShowThinking] = useState(() => {
+    return localStorage.getItem('deja-claude-show-thinking') === 'true';
+  });
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const listContainerRef = useRef<HTMLDivElement>(null);
 
-  // Debounced search
-  const debouncedSearchQuery = useDebounce(searchQuery, 300);
+  const live = useLiveSessions(view === 'live');
+  const files = useFileHistory(() => setFocusedIndex(0));
+  const fileStates = useFileStates();
+  const replay = useReplay(selectedSession, messagesContainerRef);
+  const importer = useImport(() => fetchProjects(true));
+  const sessionCommits = useSessionCommits(selectedSession);
+  const comparer = useCompare();
+  const exporter = useExport({
+    roles: ALL_ROLES.filter(r => messageFilters.has(r)),
+    thinking: showThinking,
+    redact: redactExports,
+  });
+  const search = useSearch({
+    active: view === 'search',
+    onSearch: () => setView('search'),
+    onResults: () => {
+      setFocusedIndex(0);
+      listContainerRef.current?.scrollTo({ top: 0 });
+    },
+  });
 
-  // Load bookmarks from localStorage
+  // Load bookmarks, tags and notes from the server, first moving over any
+  // that older versions kept in localStorage
   useEffect(() => {
-    const saved = localStorage.getItem('deja-claude-bookmarks');
-    if (saved) {
-      setBookmarks(new Set(JSON.parse(saved)));
-    }
+    const loadAnnotations = async () => {
+      try {
+        const legacy = {
+          bookmarks: JSON.parse(localStorage.getItem('deja-claude-bookmarks') || '[]'),
+          tags: JSON.parse(localStorage.getItem('deja-claude-tags') || '{}'),
+          notes: JSON.parse(localStorage.getItem('deja-claude-notes') || '{}'),
+        };
+        if (legacy.bookmarks.length > 0 || Object.keys(legacy.tags).length > 0 || Object.keys(legacy.notes).length > 0) {
+          const res = await fetch(`${API_URL}/annotations/import`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(legacy),
+          });
+          if (res.ok) {
+            ['deja-claude-bookmarks', 'deja-claude-tags', 'deja-claude-notes'].forEach(k => localStorage.removeItem(k));
+          }
+        }
+
+        const res = await fetch(`${API_URL}/annotations`);
+        const annotations: SessionAnnotation[] = await res.json();
+        const keyOf = (a: SessionAnnotation) => `${a.project}:${a.sessionId}`;
+        setBookmarks(new Set(annotations.filter(a => a.bookmarked).map(keyOf)));
+        setSessionTags(Object.fromEntries(annotations.filter(a => a.tags.length > 0).map(a => [keyOf(a), a.tags])));
+        setSessionNotes(Object.fromEntries(annotations.filter(a => a.note).map(a => [keyOf(a), a.note])));
+
+        const snippetsRes = await fetch(`${API_URL}/annotations/snippets`);
+        setSnippets(await snippetsRes.json());
+      } catch (error) {
+        console.error('Failed to load annotations:', error);
+      }
+    };
+    loadAnnotations();
   }, []);
 
-  // Save bookmarks to localStorage
-  const saveBookmarks = (newBookmarks: Set<string>) => {
-    localStorage.setItem('deja-claude-bookmarks', JSON.stringify([...newBookmarks]));
-    setBookmarks(newBookmarks);
+  useEffect(() => {
+    fetch(`${API_URL}/history/sources`)
+      .then(res => res.json())
+      .then(setHistorySources)
+      .catch(error => console.error('Failed to load history sources:', error));
+  }, []);
+
+  useEffect(() => {
+    fetch(`${API_URL}/redaction`)
+      .then(res => res.json())
+      .then(data => {
+        setRedactionSettings(data);
+        setRedactExports(data.config.applyToExports);
+      })
+      .catch(error => console.error('Failed to load redaction settings:', error));
+  }, []);
+
+  // Detected secrets for the redacted preview; rescanned when the session or the rules change
+  useEffect(() => {
+    if (!redactedPreview || !selectedSession) {
+      setRedactions(null);
+      return;
+    }
+    fetch(`${API_URL}/history/projects/${encodeURIComponent(selectedSession.project)}/sessions/${encodeURIComponent(selectedSession.id)}/redactions`)
+      .then(res => res.json())
+      .then(data => setRedactions(data.redactions))
+      .catch(error => console.error('Failed to scan session for secrets:', error));
+  }, [redactedPreview, selectedSession, redactionSettings]);
+
+  // Span of the message text selected inside the message itself; code blocks and redacted text have no offsets to map back to
+  const selectedSpan = (session: Session, messageIndex: number): Span | undefined => {
+    const selection = window.getSelection();
+    const messageEl = messagesContainerRef.current?.querySelector(`[data-message-idx="${messageIndex}"]`);
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0 || !messageEl) return undefined;
+    if (redactedMessages.get(messageIndex)?.content) return undefined;
+
+    const range = selection.getRangeAt(0);
+    const start = selectionOffset(messageEl, range.startContainer, range.startOffset);
+    const end = selectionOffset(messageEl, range.endContainer, range.endOffset);
+    if (start === null || end === null || end <= start) return undefined;
+
+    const selected = session.messages[messageIndex].content.slice(start, end);
+    const leading = selected.length - selected.trimStart().length;
+    const length = selected.trim().length;
+    return length > 0 ? [start + leading, start + leading + length] : undefined;
+  };
+
+  // Save a message as a snippet. If part of it is selected, only that range is highlighted.
+  const saveSnippet = async (session: Session, messageIndex: number) => {
+    const highlight = selectedSpan(session, messageIndex);
+
+    try {
+      const res = await fetch(`${API_URL}/annotations/${encodeURIComponent(session.project)}/${encodeURIComponent(session.id)}/snippets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageIndex, highlight }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      const snippet = await res.json();
+      setSnippets(prev => [{ ...snippet, project: session.project, sessionId: session.id }, ...prev]);
+      window.getSelection()?.removeAllRanges();
+      toast.bookmark(highlight ? 'Highlight saved' : 'Message saved');
+    } catch (error) {
+      console.error('Failed to save snippet:', error);
+      toast.error('Could not save to server');
+    }
+  };
+
+  const snippetUrl = (snippet: Pick<Snippet, 'project' | 'sessionId' | 'id'>) =>
+    `${API_URL}/annotations/${encodeURIComponent(snippet.project)}/${encodeURIComponent(snippet.sessionId)}/snippets/${snippet.id}`;
+
+  const setSnippetNote = async (snippet: Snippet, note: string) => {
+    if (note.trim() === snippet.note) return;
+    setSnippets(prev => prev.map(s => s.id === snippet.id ? { ...s, note: note.trim() } : s));
+    try {
+      const res = await fetch(snippetUrl(snippet), {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+    } catch (error) {
+      console.error('Failed to save snippet note:', error);
+      toast.error('Could not save to server');
+    }
+  };
+
+  const removeSnippet = async (snippet: Snippet) => {
+    setSnippets(prev => prev.filter(s => s.id !== snippet.id));
+    try {
+      const res = await fetch(snippetUrl(snippet), { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error);
+      toast.bookmark('Snippet removed');
+    } catch (error) {
+      console.error('Failed to remove snippet:', error);
+      toast.error('Could not save to server');
+    }
+  };
+
+  const copyMessageLink = async (session: Session, messageIndex?: number) => {
+    const link = formatRoute({ view: 'projects', project: session.project, sessionId: session.id, messageIndex });
+    const url = `${window.location.origin}${window.location.pathname}${link}`;
+    await navigator.clipboard.writeText(url);
+    toast.success('Link copied');
+  };
+
+  // Persist one session's annotations; local state is updated optimistically by the caller
+  const saveAnnotation = async (projectPath: string, sessionId: string, update: Partial<Pick<SessionAnnotation, 'bookmarked' | 'tags' | 'note'>>) => {
+    try {
+      const res = await fetch(`${API_URL}/annotations/${encodeURIComponent(projectPath)}/${encodeURIComponent(sessionId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+    } catch (error) {
+      console.error('Failed to save annotation:', error);
+      toast.error('Could not save to server');
+    }
   };
 
   const toggleBookmark = (sessionId: string, projectPath: string) => {
     const key = `${projectPath}:${sessionId}`;
     const newBookmarks = new Set(bookmarks);
-    if (newBookmarks.has(key)) {
-      newBookmarks.delete(key);
-      toast.bookmark('Bookmark removed');
-    } else {
+    const bookmarked = !newBookmarks.has(key);
+    if (bookmarked) {
       newBookmarks.add(key);
       toast.bookmark('Session bookmarked');
+    } else {
+      newBookmarks.delete(key);
+      toast.bookmark('Bookmark removed');
     }
-    saveBookmarks(newBookmarks);
+    setBookmarks(newBookmarks);
+    saveAnnotation(projectPath, sessionId, { bookmarked });
   };
 
   // Toggle message filter
@@ -208,26 +481,26 @@ function App() {
   // Filtered messages based on message type filter
   const filteredMessages = useMemo(() => {
     if (!selectedSession) return [];
-    return selectedSession.messages.filter(m => messageFilters.has(m.role));
-  }, [selectedSession, messageFilters]);
+    const revealed = replay.index === null ? selectedSession.messages : selectedSession.messages.slice(0, replay.index + 1);
+    return revealed.filter(m => messageFilters.has(m.role) && (showThinking || !m.isThinking));
+  }, [selectedSession, messageFilters, showThinking, replay.index]);
+
+  const toggleThinking = () => {
+    setShowThinking(!showThinking);
+    localStorage.setItem('deja-claude-show-thinking', String(!showThinking));
+  };
 
   // Message counts for filter
   const messageCounts = useMemo(() => {
-    if (!selectedSession) return { user: 0, assistant: 0, tool: 0 };
+    if (!selectedSession) return { user: 0, assistant: 0, tool: 0, thinking: 0 };
     return {
       user: selectedSession.messages.filter(m => m.role === 'user').length,
-      assistant: selectedSession.messages.filter(m => m.role === 'assistant').length,
+      assistant: selectedSession.messages.filter(m => m.role === 'assistant' && !m.isThinking).length,
       tool: selectedSession.messages.filter(m => m.role === 'tool').length,
+      thinking: selectedSession.messages.filter(m => m.isThinking).length,
     };
   }, [selectedSession]);
 
-  // Auto-search with debounce
-  useEffect(() => {
-    if (debouncedSearchQuery.trim() && view === 'search') {
-      handleSearch();
-    }
-  }, [debouncedSearchQuery]);
-
   const isBookmarked = (sessionId: string, projectPath: string) => {
     return bookmarks.has(`${projectPath}:${sessionId}`);
   };
@@ -256,19 +529,14 @@ function App() {
 
   // Clear all bookmarks
   const clearAllBookmarks = () => {
-    localStorage.removeItem('deja-claude-bookmarks');
+    bookmarks.forEach(key => {
+      const idx = key.lastIndexOf(':');
+      saveAnnotation(key.slice(0, idx), key.slice(idx + 1), { bookmarked: false });
+    });
     setBookmarks(new Set());
     setBookmarkedSessions([]);
   };
 
-  // Add recent search
-  const addRecentSearch = (query: string) => {
-    if (!query.trim()) return;
-    const updated = [query, ...recentSearches.filter(s => s !== query)].slice(0, 10);
-    setRecentSearches(updated);
-    localStorage.setItem('deja-claude-recent-searches', JSON.stringify(updated));
-  };
-
   // Session tags management
   const getSessionKey = (session: Session) => `${session.project}:${session.id}`;
 
@@ -276,18 +544,18 @@ function App() {
     const key = getSessionKey(session);
     const current = sessionTags[key] || [];
     if (!current.includes(tag)) {
-      const updated = { ...sessionTags, [key]: [...current, tag] };
-      setSessionTags(updated);
-      localStorage.setItem('deja-claude-tags', JSON.stringify(updated));
+      const tags = [...current, tag];
+      setSessionTags({ ...sessionTags, [key]: tags });
+      saveAnnotation(session.project, session.id, { tags });
     }
   };
 
   const removeTag = (session: Session, tag: string) => {
     const key = getSessionKey(session);
     const current = sessionTags[key] || [];
-    const updated = { ...sessionTags, [key]: current.filter(t => t !== tag) };
-    setSessionTags(updated);
-    localStorage.setItem('deja-claude-tags', JSON.stringify(updated));
+    const tags = current.filter(t => t !== tag);
+    setSessionTags({ ...sessionTags, [key]: tags });
+    saveAnnotation(session.project, session.id, { tags });
   };
 
   const getTags = (session: Session) => sessionTags[getSessionKey(session)] || [];
@@ -295,9 +563,9 @@ function App() {
   // Session notes management
   const setNote = (session: Session, note: string) => {
     const key = getSessionKey(session);
-    const updated = { ...sessionNotes, [key]: note };
-    setSessionNotes(updated);
-    localStorage.setItem('deja-claude-notes', JSON.stringify(updated));
+    if ((sessionNotes[key] || '') === note) return;
+    setSessionNotes({ ...sessionNotes, [key]: note });
+    saveAnnotation(session.project, session.id, { note });
   };
 
   const getNote = (session: Session) => sessionNotes[getSessionKey(session)] || '';
@@ -313,6 +581,28 @@ function App() {
     localStorage.setItem('deja-claude-fontsize', value.toString());
   };
 
+  const updateRedactionConfig = async (config: RedactionConfig): Promise<boolean> => {
+    try {
+      const res = await fetch(`${API_URL}/redaction`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error);
+        return false;
+      }
+      setRedactionSettings(prev => prev && { ...prev, config: data.config });
+      setRedactExports(data.config.applyToExports);
+      return true;
+    } catch (error) {
+      console.error('Failed to save redaction settings:', error);
+      toast.error('Failed to save redaction settings');
+      return false;
+    }
+  };
+
   // Toggle tool collapse
   const toggleToolCollapse = (idx: number) => {
     const updated = new Set(collapsedTools);
@@ -354,7 +644,7 @@ function App() {
     projects.forEach(p => {
       if (p.sessionCount > maxSessions) {
         maxSessions = p.sessionCount;
-        mostActiveProject = p.name.split('/').pop() || p.name;
+        mostActiveProject = projectBaseName(p.name);
       }
       const lastActivity = new Date(p.lastActivity);
       if (lastActivity >= today) sessionsToday += p.sessionCount;
@@ -374,6 +664,15 @@ function App() {
     });
   }, [projects]);
 
+  // Token and cost analytics are aggregated server-side; fetch whenever the Stats tab opens
+  useEffect(() => {
+    if (view !== 'stats') return;
+    fetch(`${API_URL}/history/stats`)
+      .then(res => res.json())
+      .then(setUsageStats)
+      .catch(error => console.error('Failed to fetch usage stats:', error));
+  }, [view]);
+
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -387,10 +686,16 @@ function App() {
         : view === 'projects' && selectedProject
           ? filteredSessions
           : view === 'search'
-            ? searchResults
+            ? search.results
             : view === 'bookmarks'
               ? bookmarkedSessions
-              : [];
+              : view === 'snippets'
+                ? snippets
+                : view === 'files'
+                  ? files.visibleTouches
+                  : view === 'live'
+                    ? live.sessions
+                    : [];
 
       switch (e.key) {
         case 'j': // Down
@@ -409,14 +714,25 @@ function App() {
             handleProjectSelect(projects[focusedIndex]);
           } else if (filteredSessions[focusedIndex]) {
             handleSessionSelect(filteredSessions[focusedIndex]);
-          } else if (view === 'search' && searchResults[focusedIndex]) {
-            handleSessionSelect(searchResults[focusedIndex]);
+          } else if (view === 'search' && search.results[focusedIndex]) {
+            handleSessionSelect(search.results[focusedIndex]);
           } else if (view === 'bookmarks' && bookmarkedSessions[focusedIndex]) {
             handleSessionSelect(bookmarkedSessions[focusedIndex]);
+          } else if (view === 'snippets' && snippets[focusedIndex]) {
+            openMessage(snippets[focusedIndex].project, snippets[focusedIndex].sessionId, snippets[focusedIndex].messageIndex);
+          } else if (view === 'files' && files.visibleTouches[focusedIndex]) {
+            const touch = files.visibleTouches[focusedIndex];
+            openMessage(touch.project, touch.id, touch.messageIndex);
+          } else if (view === 'live' && live.sessions[focusedIndex]) {
+            live.openTerminal(live.sessions[focusedIndex].id);
           }
           break;
         case 'Escape':
-          if (selectedSession) {
+          if (fileStates.fileStates) {
+            fileStates.close();
+          } else if (comparer.comparison) {
+            comparer.close();
+          } else if (selectedSession) {
             setSelectedSession(null);
           } else if (selectedProject) {
             setSelectedProject(null);
@@ -430,7 +746,7 @@ function App() {
           break;
         case 'e': // Export
           if (selectedSession) {
-            exportToMarkdown();
+            exporter.exportSession(selectedSession, 'md', collapsedTools);
           }
           break;
         case '/': // Focus search
@@ -453,17 +769,26 @@ function App() {
         case '4':
           setView('bookmarks');
           break;
+        case '5':
+          setView('snippets');
+          break;
+        case '6':
+          setView('files');
+          break;
+        case '7':
+          setView('live');
+          break;
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [view, projects, filteredSessions, searchResults, bookmarkedSessions, focusedIndex, selectedProject, selectedSession]);
+  }, [view, projects, filteredSessions, search.results, bookmarkedSessions, snippets, files.visibleTouches, live.sessions, focusedIndex, selectedProject, selectedSession, comparer.comparison, fileStates.fileStates]);
 
   // Reset focus when list changes
   useEffect(() => {
     setFocusedIndex(0);
-  }, [view, selectedProject, searchResults]);
+  }, [view, selectedProject, search.results]);
 
   // Scroll focused item into view
   useEffect(() => {
@@ -487,6 +812,29 @@ function App() {
     fetchProjects();
   }, []);
 
+  // A different session starts without a linked message
+  useEffect(() => {
+    setLinkedMessageIdx(null);
+  }, [selectedSession?.project, selectedSession?.id]);
+
+  // Runs after the newly opened session has rendered, so the message element exists.
+  // A message not yet revealed by replay, or hidden by the role or thinking filters, is made visible first.
+  useEffect(() => {
+    if (pendingJump === null || !selectedSession) return;
+    const target = selectedSession.messages[pendingJump];
+    const pastReplay = replay.index !== null && pendingJump > replay.index;
+    const roleHidden = !!target && !messageFilters.has(target.role);
+    const thinkingHidden = !!target?.isThinking && !showThinking;
+    if (pastReplay || roleHidden || thinkingHidden) {
+      if (pastReplay) replay.seek(pendingJump);
+      if (roleHidden) setMessageFilters(new Set(ALL_ROLES));
+      if (thinkingHidden) setShowThinking(true);
+      return;
+    }
+    jumpToMessage(pendingJump);
+    setPendingJump(null);
+  }, [pendingJump, selectedSession, replay.index, messageFilters, showThinking]);
+
   // Load bookmarked sessions
   useEffect(() => {
     if (view === 'bookmarks' && bookmarks.size > 0) {
@@ -497,7 +845,10 @@ function App() {
   const loadBookmarkedSessions = async () => {
     const sessions: Session[] = [];
     for (const key of bookmarks) {
-      const [projectPath, sessionId] = key.split(':');
+      // Project ids from other history roots contain a colon themselves
+      const idx = key.lastIndexOf(':');
+      const projectPath = key.slice(0, idx);
+      const sessionId = key.slice(idx + 1);
       try {
         const res = await fetch(`${API_URL}/history/projects/${encodeURIComponent(projectPath)}/sessions/${sessionId}`);
         if (res.ok) {
@@ -511,21 +862,27 @@ function App() {
     setBookmarkedSessions(sessions);
   };
 
-  const fetchProjects = async () => {
-    setLoading(true);
+  // `silent` refreshes skip the loading spinner (used for live updates)
+  const fetchProjects = async (silent = false): Promise<Project[]> => {
+    if (!silent) setLoading(true);
     try {
       const res = await fetch(`${API_URL}/history/projects`);
       const data = await res.json();
       setProjects(data);
+      return data;
     } catch (error) {
       console.error('Failed to fetch projects:', error);
+      return [];
     } finally {
-      setLoading(false);
+      if (!silent) setLoading(false);
     }
   };
 
-  const fetchSessions = async (projectPath: string) => {
-    setLoading(true);
+  const sourceLabel = (source: string): string | null =>
+    source === 'local' ? null : historySources.find(s => s.id === source)?.label || source;
+
+  const fetchSessions = async (projectPath: string, silent = false) => {
+    if (!silent) setLoading(true);
     try {
       const res = await fetch(`${API_URL}/history/projects/${encodeURIComponent(projectPath)}/sessions`);
       const data = await res.json();
@@ -534,62 +891,146 @@ function App() {
     } catch (error) {
       console.error('Failed to fetch sessions:', error);
     } finally {
-      setLoading(false);
+      if (!silent) setLoading(false);
     }
   };
 
-  const fetchSession = async (projectPath: string, sessionId: string): Promise<void> => {
-    setLoading(true);
+  const fetchSession = async (projectPath: string, sessionId: string, silent = false): Promise<void> => {
+    if (!silent) setLoading(true);
     try {
       const res = await fetch(`${API_URL}/history/projects/${encodeURIComponent(projectPath)}/sessions/${sessionId}`);
       const data = await res.json();
+      if (!res.ok) {
+        // Links can outlive the transcript they point to
+        if (!silent) toast.error(data.error || 'Session not found');
+        return;
+      }
       setSelectedSession(data);
     } catch (error) {
       console.error('Failed to fetch session:', error);
     } finally {
-      setLoading(false);
+      if (!silent) setLoading(false);
     }
   };
 
-  const handleSearch = async () => {
-    if (!searchQuery.trim()) return;
-    setIsSearching(true);
-    setView('search');
-    setActiveSearchQuery(searchQuery);
-    addRecentSearch(searchQuery);
-    try {
-      const res = await fetch(`${API_URL}/history/search?q=${encodeURIComponent(searchQuery)}&limit=50`);
-      const data = await res.json();
-      setSearchResults(data);
-    } catch (error) {
-      console.error('Search failed:', error);
-    } finally {
-      setIsSearching(false);
+  // Live updates: refresh in place while Claude is still writing transcripts
+  useHistoryEvents((event) => {
+    if (event.type === 'export:progress') {
+      exporter.handleProgress(event);
+      return;
+    }
+    fetchProjects(true);
+    if (event.type !== 'history:project-added' && selectedProject?.path === event.project) {
+      fetchSessions(event.project, true);
+    }
+    if (event.type === 'history:session-updated' && event.sessionId &&
+        selectedSession?.project === event.project && selectedSession.id === event.sessionId) {
+      fetchSession(event.project, event.sessionId, true);
+    }
+  });
+
+  // Infinite scroll: fetch the next page when the results list nears its end
+  const handleListScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (view !== 'search' || !search.nextCursor) return;
+    const el = e.currentTarget;
+    if (el.scrollHeight - el.scrollTop - el.clientHeight < 300) {
+      search.loadMore();
     }
   };
 
-  const handleMatchClick = (session: Session, matchIdx: number) => {
+  const handleMatchClick = (session: Pick<SearchResult, 'id' | 'project'>, matchIdx: number) => {
     if (session.project) {
       fetchSession(session.project, session.id).then(() => {
-        setHighlightedMessageIdx(matchIdx);
+        setPendingJump(matchIdx);
       });
     }
   };
 
+  // Open a session, optionally scrolled to one message (deep links and saved snippets)
+  const openMessage = (projectPath: string, sessionId: string, messageIndex?: number) => {
+    setHighlightedMessageIdx(null);
+    search.setActiveQuery('');
+    fetchSession(projectPath, sessionId).then(() => {
+      if (messageIndex !== undefined) setPendingJump(messageIndex);
+    });
+  };
+
+  const showFileHistory = (path: string) => {
+    setView('files');
+    files.show(path);
+  };
+
+  // Restore the place described by a URL (on load and on back/forward)
+  const applyRoute = async (route: Route) => {
+    setView(route.view);
+    const roles = ALL_ROLES.filter(r => route.roles?.includes(r));
+    setMessageFilters(new Set(roles.length > 0 ? roles : ALL_ROLES));
+    setToolFilter(route.tool || '');
+    setDateFrom(route.from || '');
+    setDateTo(route.to || '');
+
+    if (route.view === 'projects') {
+      if (!route.project) {
+        setSelectedProject(null);
+        setSessions([]);
+      } else if (route.project !== selectedProject?.path) {
+        const known = projects.length > 0 ? projects : await fetchProjects(true);
+        setSelectedProject(known.find(p => p.path === route.project) ||
+          { path: route.project, name: route.project, source: projectSource(route.project), sessionCount: 0, lastActivity: '' });
+        fetchSessions(route.project);
+      }
+    }
+
+    if (route.view === 'search' && route.query) {
+      await search.restore(route.query, route.mode, route.sort);
+    }
+
+    if (route.view === 'files' && route.file) {
+      await files.restore(route.file);
+    }
+
+    if (route.project && route.sessionId) {
+      if (selectedSession?.project !== route.project || selectedSession.id !== route.sessionId) {
+        setHighlightedMessageIdx(null);
+        await fetchSession(route.project, route.sessionId);
+      }
+      if (route.messageIndex !== undefined) {
+        setPendingJump(route.messageIndex);
+      }
+    } else {
+      setSelectedSession(null);
+    }
+  };
+
+  useHashRoute({
+    view,
+    project: selectedSession?.project ?? (view === 'projects' ? selectedProject?.path : undefined),
+    sessionId: selectedSession?.id,
+    messageIndex: linkedMessageIdx ?? undefined,
+    query: view === 'search' ? search.activeQuery : undefined,
+    mode: view === 'search' && search.activeQuery ? search.mode : undefined,
+    sort: view === 'search' && search.activeQuery ? search.sort : undefined,
+    roles: messageFilters.size < ALL_ROLES.length ? ALL_ROLES.filter(r => messageFilters.has(r)) : undefined,
+    tool: toolFilter,
+    from: dateFrom,
+    to: dateTo,
+    file: view === 'files' ? files.activePath : undefined,
+  }, applyRoute);
+
   const handleProjectSelect = (project: Project) => {
     setSelectedProject(project);
     setSelectedSession(null);
-    setActiveSearchQuery('');
+    search.setActiveQuery('');
     setHighlightedMessageIdx(null);
     setDateFrom('');
     setDateTo('');
     fetchSessions(project.path);
   };
 
-  const handleSessionSelect = (session: Session) => {
+  const handleSessionSelect = (session: Pick<Session, 'id' | 'project'>) => {
     setHighlightedMessageIdx(null);
     if (view === 'projects') {
-      setActiveSearchQuery('');
+      search.setActiveQuery('');
     }
     if (selectedProject) {
       fetchSession(selectedProject.path, session.id);
@@ -598,66 +1039,6 @@ function App() {
     }
   };
 
-  // Full export
-  const exportToMarkdown = useCallback(() => {
-    if (!selectedSession || exporting) return;
-
-    setExporting(true);
-
-    requestAnimationFrame(() => {
-      try {
-        const parts: string[] = [
-          `# Chat Session\n\n`,
-          `| Property | Value |\n`,
-          `|----------|-------|\n`,
-          `| **Project** | \`${selectedSession.project || 'Unknown'}\` |\n`,
-          `| **Session ID** | \`${selectedSession.id}\` |\n`,
-          `| **Date** | ${new Date(selectedSession.createdAt).toLocaleString()} |\n`,
-          `| **Messages** | ${selectedSession.messages.length} |\n`,
-          `\n---\n\n`
-        ];
-
-        selectedSession.messages.forEach((msg, idx) => {
-          const timestamp = msg.timestamp ? `\n> *${new Date(msg.timestamp).toLocaleString()}*\n` : '';
-
-          if (msg.role === 'user') {
-            parts.push(`## 💬 You (Message ${idx + 1})\n${timestamp}\n${msg.content}\n\n---\n\n`);
-          } else if (msg.role === 'tool') {
-            parts.push(`## 🔧 Tool: \`${msg.toolName || 'Unknown'}\` (Message ${idx + 1})\n${timestamp}\n`);
-            if (msg.toolInput) {
-              parts.push(`### Input\n\n\`\`\`json\n${msg.toolInput}\n\`\`\`\n\n`);
-            }
-            if (msg.content) {
-              parts.push(`### Output\n\n\`\`\`\n${msg.content}\n\`\`\`\n\n`);
-            }
-            parts.push(`---\n\n`);
-          } else {
-            parts.push(`## 🤖 Claude (Message ${idx + 1})\n${timestamp}\n${msg.content}\n\n---\n\n`);
-          }
-        });
-
-        parts.push(`\n---\n\n*Exported from [Déjà Claude](https://github.com/consigcody94/deja-claude) on ${new Date().toLocaleString()}*\n`);
-
-        const md = parts.join('');
-        const blob = new Blob([md], { type: 'text/markdown' });
-        const url = URL.createObjectURL(blob);
-
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `deja-claude-${selectedSession.id.slice(0, 8)}.md`;
-        link.click();
-
-        URL.revokeObjectURL(url);
-        setExporting(false);
-        toast.success('Session exported to Markdown');
-      } catch (error) {
-        console.error('Export failed:', error);
-        setExporting(false);
-        toast.error('Export failed');
-      }
-    });
-  }, [selectedSession, exporting]);
-
   // Jump to message in session
   const jumpToMessage = (index: number) => {
     if (messagesContainerRef.current) {
@@ -665,40 +1046,78 @@ function App() {
       if (messageEl) {
         messageEl.scrollIntoView({ behavior: 'smooth', block: 'center' });
         setHighlightedMessageIdx(index);
+        setLinkedMessageIdx(index);
       }
     }
   };
 
-  const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr);
-    const now = new Date();
-    const diff = now.getTime() - date.getTime();
-    const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-    if (days === 0) return `Today ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
-    if (days === 1) return 'Yesterday';
-    if (days < 7) return `${days}d ago`;
-    return date.toLocaleDateString();
-  };
+  const formatDuration = (ms: number) => ms < 1000 ? `${ms}ms` : ms < 60000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+
+  const formatTokens = (n: number) => n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}K` : `${n}`;
 
   const truncate = (str: string, len: number) => str.length <= len ? str : str.slice(0, len) + '...';
 
-  const highlightSearchTerm = (text: string, query: string): React.ReactNode => {
-    if (!query) return text;
-    const parts: React.ReactNode[] = [];
-    const lowerText = text.toLowerCase();
-    const lowerQuery = query.toLowerCase();
-    let lastIdx = 0;
-    let idx = lowerText.indexOf(lowerQuery);
-    let keyIdx = 0;
-    while (idx !== -1) {
-      if (idx > lastIdx) parts.push(text.slice(lastIdx, idx));
-      parts.push(<mark key={keyIdx++}>{text.slice(idx, idx + query.length)}</mark>);
-      lastIdx = idx + query.length;
-      idx = lowerText.indexOf(lowerQuery, lastIdx);
+  // Match spans per message index for the open session, taken from the search results it was opened from
+  const sessionMatchSpans = useMemo(() => {
+    const spans = new Map<number, Span[]>();
+    if (!selectedSession || !search.activeQuery) return spans;
+    const result = search.results.find(r => r.id === selectedSession.id && r.project === selectedSession.project);
+    result?.matches.forEach(m => spans.set(m.messageIndex, m.spans));
+    return spans;
+  }, [selectedSession, search.results, search.activeQuery]);
+
+  // Saved snippets for the open session, by message index
+  const sessionSnippets = useMemo(() => {
+    const byMessage = new Map<number, Snippet[]>();
+    if (!selectedSession) return byMessage;
+    for (const snippet of snippets) {
+      if (snippet.project !== selectedSession.project || snippet.sessionId !== selectedSession.id) continue;
+      byMessage.set(snippet.messageIndex, [...(byMessage.get(snippet.messageIndex) || []), snippet]);
     }
-    if (lastIdx < text.length) parts.push(text.slice(lastIdx));
-    return parts;
-  };
+    return byMessage;
+  }, [selectedSession, snippets]);
+
+  // Masked copies of the messages with detected secrets, for the redacted preview
+  const redactedMessages = useMemo(() => {
+    const byMessage = new Map<number, Record<RedactedField, MaskedText | undefined>>();
+    if (!selectedSession || !redactions) return byMessage;
+    const grouped = new Map<string, Redaction[]>();
+    for (const r of redactions) {
+      const key = `${r.messageIndex}:${r.field}`;
+      grouped.set(key, [...(grouped.get(key) || []), r]);
+    }
+    selectedSession.messages.forEach((msg, idx) => {
+      const fields = { content: undefined, toolInput: undefined, toolOutput: undefined } as Record<RedactedField, MaskedText | undefined>;
+      let found = false;
+      for (const field of ['content', 'toolInput', 'toolOutput'] as RedactedField[]) {
+        const spans = grouped.get(`${idx}:${field}`);
+        if (spans && msg[field]) {
+          fields[field] = maskText(msg[field]!, spans);
+          found = true;
+        }
+      }
+      if (found) byMessage.set(idx, fields);
+    });
+    return byMessage;
+  }, [selectedSession, redactions]);
+
+  // Size of the parallel batch each tool message belongs to (tool calls sharing an assistant turn)
+  const parallelBatchSizes = useMemo(() => {
+    const sizes = new Map<number, number>();
+    const messages = selectedSession?.messages || [];
+    let start = 0;
+    messages.forEach((msg, idx) => {
+      const prev = messages[idx - 1];
+      if (!(msg.role === 'tool' && prev?.role === 'tool' && msg.turnId && msg.turnId === prev.turnId)) {
+        start = idx;
+      }
+      const size = idx - start + 1;
+      if (size > 1) {
+        for (let i = start; i <= idx; i++) sizes.set(i, size);
+      }
+    });
+    return sizes;
+  }, [selectedSession]);
 
   const totalSessions = projects.reduce((sum, p) => sum + p.sessionCount, 0);
 
@@ -709,6 +1128,31 @@ function App() {
 
   return (
     <div className="h-screen flex bg-[#020208] overflow-hidden">
+      {/* Bulk Export Modal */}
+      {exporter.bulkExport && (
+        <BulkExportDialog
+          title={exporter.bulkExport.title}
+          formats={EXPORT_FORMATS}
+          progress={exporter.bulkProgress}
+          redact={redactExports}
+          onRedactChange={setRedactExports}
+          onExport={exporter.runBulkExport}
+          onClose={exporter.closeBulkExport}
+        />
+      )}
+
+      {fileStates.fileStates && selectedSession && (
+        <FileStateDialog
+          files={fileStates.fileStates.files}
+          initialPath={fileStates.fileStates.path}
+          initialAt={fileStates.fileStates.at}
+          cwd={selectedSession.cwd}
+          onLoadHistory={(path, at, from) => fileStates.loadHistory(selectedSession, path, at, from)}
+          onJumpTo={jumpToMessage}
+          onClose={fileStates.close}
+        />
+      )}
+
       {/* Keyboard Shortcuts Modal */}
       {showShortcuts && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={() => setShowShortcuts(false)}>
@@ -728,7 +1172,7 @@ function App() {
                 ['/', 'Focus search'],
                 ['b', 'Toggle bookmark'],
                 ['e', 'Export session'],
-                ['1-4', 'Switch tabs'],
+                ['1-7', 'Switch tabs'],
                 ['?', 'Toggle shortcuts'],
               ].map(([key, desc]) => (
                 <div key={key} className="flex items-center justify-between py-1.5 border-b border-white/5">
@@ -825,17 +1269,25 @@ function App() {
                 </div>
               </div>
 
+              {/* Redaction */}
+              {redactionSettings && (
+                <div className="border-t border-white/10 pt-4">
+                  <RedactionSettings
+                    config={redactionSettings.config}
+                    detectors={redactionSettings.detectors}
+                    onChange={updateRedactionConfig}
+                  />
+                </div>
+              )}
+
               {/* Recent Searches */}
               <div className="border-t border-white/10 pt-4">
                 <label className="block text-sm text-white/70 mb-2">Recent Searches</label>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-white/50">{recentSearches.length} saved</span>
-                  {recentSearches.length > 0 && (
+                  <span className="text-sm text-white/50">{search.recentSearches.length} saved</span>
+                  {search.recentSearches.length > 0 && (
                     <button
-                      onClick={() => {
-                        localStorage.removeItem('deja-claude-recent-searches');
-                        setRecentSearches([]);
-                      }}
+                      onClick={search.clearRecentSearches}
                       className="px-3 py-1.5 text-xs text-red-400 border border-red-500/30 rounded-lg hover:bg-red-500/10 transition-colors"
                     >
                       Clear
@@ -881,42 +1333,15 @@ function App() {
             </div>
           </div>
 
-          {/* Search with Recent Searches */}
-          <div className="relative group">
-            <div className="absolute inset-0 bg-gradient-to-r from-orange-500/20 to-cyan-500/20 rounded-xl blur opacity-0 group-focus-within:opacity-100 transition-opacity" />
-            <input
-              type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
-              onFocus={() => document.getElementById('recent-searches')?.classList.remove('hidden')}
-              onBlur={() => setTimeout(() => document.getElementById('recent-searches')?.classList.add('hidden'), 200)}
-              placeholder="Search... (press /)"
-              className="relative w-full pl-11 pr-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-white/30 text-sm font-mono focus:border-cyan-500/50 focus:bg-white/10 transition-all duration-300"
-            />
-            <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-white/40 group-focus-within:text-cyan-400 transition-colors" />
-            {searchQuery && (
-              <button onClick={handleSearch} className="absolute right-2 top-1/2 -translate-y-1/2 px-3 py-1.5 bg-gradient-to-r from-orange-500 to-amber-500 text-white text-xs font-bold rounded-lg hover:shadow-lg hover:shadow-orange-500/30 transition-all uppercase tracking-wider">
-                Scan
-              </button>
-            )}
-            {/* Recent Searches Dropdown */}
-            {recentSearches.length > 0 && (
-              <div id="recent-searches" className="hidden absolute top-full left-0 right-0 mt-2 bg-[#0a0a18] border border-white/10 rounded-xl overflow-hidden z-50 shadow-2xl">
-                <div className="px-3 py-2 text-[10px] text-white/40 uppercase tracking-wider border-b border-white/5">Recent</div>
-                {recentSearches.slice(0, 5).map((search, idx) => (
-                  <button
-                    key={idx}
-                    onMouseDown={() => { setSearchQuery(search); handleSearch(); }}
-                    className="w-full px-3 py-2 text-left text-sm text-white/70 hover:bg-white/10 hover:text-white transition-colors flex items-center gap-2"
-                  >
-                    <Clock size={12} className="text-white/30" />
-                    {search}
-                  </button>
-                ))}
-              </div>
-            )}
-          </div>
+          <SearchBox
+            query={search.query}
+            onQueryChange={search.setQuery}
+            onSearch={query => search.run(query)}
+            recentSearches={search.recentSearches}
+            mode={search.mode}
+            onModeChange={search.updateMode}
+            error={search.error}
+          />
 
           {/* Tool Filter */}
           {selectedProject && getUsedTools().length > 0 && (
@@ -935,13 +1360,16 @@ function App() {
           )}
         </div>
 
-        {/* View Toggle - 4 tabs now */}
-        <div className="grid grid-cols-4 gap-1 p-1.5 m-4 bg-white/5 rounded-xl border border-white/5">
+        {/* View Toggle */}
+        <div className="grid grid-cols-7 gap-1 p-1.5 m-4 bg-white/5 rounded-xl border border-white/5">
           {[
             { id: 'projects', icon: Database, label: '1' },
             { id: 'search', icon: Search, label: '2' },
             { id: 'stats', icon: BarChart3, label: '3' },
             { id: 'bookmarks', icon: Bookmark, label: '4' },
+            { id: 'snippets', icon: Highlighter, label: '5' },
+            { id: 'files', icon: FileClock, label: '6' },
+            { id: 'live', icon: TerminalSquare, label: '7' },
           ].map(tab => (
             <button
               key={tab.id}
@@ -958,7 +1386,7 @@ function App() {
         </div>
 
         {/* Content */}
-        <div className="flex-1 overflow-y-auto px-4 pb-4" ref={listContainerRef}>
+        <div className="flex-1 overflow-y-auto px-4 pb-4" ref={listContainerRef} onScroll={handleListScroll}>
           {view === 'projects' ? (
             <>
               {!selectedProject ? (
@@ -968,9 +1396,12 @@ function App() {
                       <Terminal size={12} />
                       {projects.length} DATABASES
                     </span>
-                    <button onClick={fetchProjects} className="p-2 rounded-lg hover:bg-white/5 text-white/40 hover:text-cyan-400 transition-all">
-                      <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
-                    </button>
+                    <div className="flex items-center">
+                      <ImportButton importing={importer.importing} onImport={importer.importFiles} />
+                      <button onClick={() => fetchProjects()} className="p-2 rounded-lg hover:bg-white/5 text-white/40 hover:text-cyan-400 transition-all">
+                        <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+                      </button>
+                    </div>
                   </div>
 
                   {loading && projects.length === 0 ? (
@@ -992,11 +1423,12 @@ function App() {
                             <FolderOpen size={18} className="text-orange-400" />
                           </div>
                           <div className="flex-1 min-w-0 text-left">
-                            <p className="text-sm text-white font-medium truncate">{project.name.split('/').pop()}</p>
+                            <p className="text-sm text-white font-medium truncate" title={project.name}>{projectBaseName(project.name)}</p>
                             <p className="text-xs text-white/40 font-mono flex items-center gap-2 mt-0.5">
                               <span className="text-cyan-400">{project.sessionCount}</span> sessions
                               <span className="text-white/20">|</span>
                               {formatDate(project.lastActivity)}
+                              <SourceBadge label={sourceLabel(project.source)} />
                             </p>
                           </div>
                           <ChevronRight size={16} className="text-white/20 group-hover:text-orange-400 group-hover:translate-x-1 transition-all" />
@@ -1016,8 +1448,24 @@ function App() {
                   </button>
 
                   <div className="px-4 py-3 bg-white/5 rounded-xl border border-white/5">
-                    <p className="text-sm font-medium text-white truncate">{selectedProject.name.split('/').pop()}</p>
-                    <p className="text-xs text-cyan-400/60 font-mono mt-1">{filteredSessions.length} / {sessions.length} RECORDS</p>
+                    <p className="text-sm font-medium text-white truncate">{projectBaseName(selectedProject.name)}</p>
+                    <p className="text-[11px] text-white/30 font-mono truncate mt-0.5 flex items-center gap-2" title={selectedProject.name}>
+                      <span className="truncate">{selectedProject.name}</span>
+                      <SourceBadge label={sourceLabel(selectedProject.source)} />
+                    </p>
+                    <div className="flex items-center justify-between mt-1">
+                      <p className="text-xs text-cyan-400/60 font-mono">{filteredSessions.length} / {sessions.length} RECORDS</p>
+                      <button
+                        onClick={() => exporter.openBulkExport(
+                          `All sessions in ${projectBaseName(selectedProject.name)}${dateFrom || dateTo ? ` from ${dateFrom || 'the start'} to ${dateTo || 'today'}` : ''}`,
+                          { project: selectedProject.path, from: dateFrom || undefined, to: dateTo || undefined },
+                        )}
+                        className="flex items-center gap-1 text-[10px] text-white/40 hover:text-cyan-400 uppercase tracking-wider transition-colors"
+                        title="Export project as zip"
+                      >
+                        <Archive size={11} /> Export
+                      </button>
+                    </div>
                   </div>
 
                   {/* Date Filter */}
@@ -1092,6 +1540,11 @@ function App() {
                           {isBookmarked(session.id, selectedProject.path) && (
                             <BookmarkCheck size={14} className="text-orange-400 shrink-0" />
                           )}
+                          <SelectionCheckbox
+                            checked={exporter.selection.has(`${session.project}:${session.id}`)}
+                            selecting={exporter.selection.size > 0}
+                            onToggle={() => exporter.toggleSelection(session)}
+                          />
                         </div>
                       </button>
                     ))
@@ -1100,85 +1553,30 @@ function App() {
               )}
             </>
           ) : view === 'search' ? (
-            /* Search Results */
-            <div className="space-y-3">
-              {isSearching ? (
-                <div className="py-16 text-center">
-                  <div className="relative w-16 h-16 mx-auto mb-6">
-                    <div className="absolute inset-0 border-2 border-cyan-500/30 rounded-full animate-ping" />
-                    <div className="absolute inset-2 border-2 border-cyan-400/50 rounded-full animate-spin" />
-                    <div className="absolute inset-4 bg-cyan-500/20 rounded-full" />
-                  </div>
-                  <p className="text-sm text-cyan-400 font-mono animate-pulse">SCANNING MEMORY BANKS...</p>
-                </div>
-              ) : searchResults.length > 0 ? (
-                <>
-                  <div className="flex items-center gap-2 px-2 py-3">
-                    <Zap size={14} className="text-cyan-400" />
-                    <span className="text-xs text-cyan-400/80 font-mono uppercase tracking-wider">
-                      {searchResults.length} MATCHES FOUND
-                    </span>
-                  </div>
-                  {searchResults.map((session, idx) => (
-                    <div
-                      key={`${session.project}-${session.id}`}
-                      data-index={idx}
-                      className={`rounded-xl overflow-hidden border transition-all duration-300 ${focusedIndex === idx ? 'ring-1 ring-cyan-500/50' : ''}
-                        ${selectedSession?.id === session.id
-                          ? 'border-cyan-500/50 shadow-lg shadow-cyan-500/20'
-                          : 'border-white/5 hover:border-cyan-500/20'}`}
-                    >
-                      <button
-                        onClick={() => handleSessionSelect(session)}
-                        className="w-full flex items-start gap-3 px-4 py-4 bg-white/5 hover:bg-white/10 transition-all text-left"
-                      >
-                        <div className="w-9 h-9 rounded-lg bg-gradient-to-br from-cyan-500/20 to-blue-500/20 flex items-center justify-center border border-cyan-500/20">
-                          <MessageSquare size={15} className="text-cyan-400" />
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm text-white font-medium line-clamp-1">{session.summary || 'Session'}</p>
-                          <p className="text-xs text-white/40 mt-1 font-mono">
-                            {formatDate(session.createdAt)} | <span className="text-cyan-400">{session.matches?.length || 0}</span> hits
-                          </p>
-                        </div>
-                      </button>
-                      {session.matches && session.matches.length > 0 && (
-                        <div className="border-t border-white/5 bg-black/20">
-                          {session.matches.slice(0, 3).map((match, mIdx) => (
-                            <button
-                              key={mIdx}
-                              onClick={() => handleMatchClick(session, match.messageIndex)}
-                              className="w-full px-4 py-3 text-left hover:bg-white/5 border-b border-white/5 last:border-b-0 transition-colors group"
-                            >
-                              <span className={`text-[10px] font-bold uppercase tracking-wider mr-2 px-2 py-1 rounded
-                                ${match.role === 'user' ? 'bg-blue-500/20 text-blue-400' : match.role === 'tool' ? 'bg-purple-500/20 text-purple-400' : 'bg-orange-500/20 text-orange-400'}`}>
-                                {match.role === 'user' ? 'YOU' : match.role === 'tool' ? 'TOOL' : 'AI'}
-                              </span>
-                              <span className="text-xs text-white/50 group-hover:text-white/70 transition-colors font-mono">
-                                {match.preview}
-                              </span>
-                            </button>
-                          ))}
-                          {session.matches.length > 3 && (
-                            <p className="text-xs text-cyan-400/50 px-4 py-2 text-center font-mono">+{session.matches.length - 3} more</p>
-                          )}
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                </>
-              ) : searchQuery ? (
-                <div className="py-16 text-center">
-                  <Search size={40} className="text-white/10 mx-auto mb-4" />
-                  <p className="text-sm text-white/30 font-mono">NO MATCHES FOUND</p>
-                </div>
-              ) : (
-                <div className="py-16 text-center">
-                  <Search size={40} className="text-white/10 mx-auto mb-4" />
-                  <p className="text-sm text-white/30 font-mono">ENTER SEARCH QUERY</p>
-                </div>
+            <SearchResultsList
+              results={search.results}
+              isSearching={search.isSearching}
+              query={search.query}
+              total={search.total}
+              totalMatches={search.totalMatches}
+              truncated={search.truncated}
+              hasMore={!!search.nextCursor}
+              loadingMore={search.loadingMore}
+              onLoadMore={search.loadMore}
+              sort={search.sort}
+              onSortChange={search.updateSort}
+              onExportAll={() => exporter.openBulkExport(
+                `${search.total} sessions matching "${search.activeQuery}"`,
+                { query: search.activeQuery, mode: search.mode },
               )}
-            </div>
+              focusedIndex={focusedIndex}
+              selectedId={selectedSession?.id}
+              selection={exporter.selection}
+              onToggleSelection={exporter.toggleSelection}
+              sourceLabel={sourceLabel}
+              onSelect={handleSessionSelect}
+              onMatchClick={handleMatchClick}
+            />
           ) : view === 'stats' ? (
             /* Statistics View */
             <div className="space-y-4 py-4">
@@ -1188,7 +1586,15 @@ function App() {
               </div>
 
               {/* Activity Heatmap */}
-              <ActivityHeatmap sessions={sessions.length > 0 ? sessions : searchResults} weeks={8} />
+              <ActivityHeatmap sessions={sessions.length > 0 ? sessions : search.results} weeks={8} />
+
+              {/* Token & Cost Analytics */}
+              {usageStats && (
+                <UsageAnalytics
+                  stats={usageStats}
+                  onSessionSelect={(s) => fetchSession(s.project, s.id)}
+                />
+              )}
 
               {stats && (
                 <div className="space-y-3">
@@ -1215,6 +1621,89 @@ function App() {
                 </div>
               )}
             </div>
+          ) : view === 'files' ? (
+            <FileHistoryList
+              path={files.path}
+              onPathChange={files.setPath}
+              onSubmit={files.load}
+              activePath={files.activePath}
+              touches={files.visibleTouches}
+              loading={files.loading}
+              editsOnly={files.editsOnly}
+              onEditsOnlyChange={files.setEditsOnly}
+              focusedIndex={focusedIndex}
+              selectedId={selectedSession?.id}
+              sourceLabel={sourceLabel}
+              onOpen={touch => openMessage(touch.project, touch.id, touch.messageIndex)}
+            />
+          ) : view === 'snippets' ? (
+            /* Saved Snippets View */
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 px-2 py-3">
+                <Highlighter size={14} className="text-yellow-400" />
+                <span className="text-xs text-yellow-400/80 font-mono uppercase tracking-wider">
+                  {snippets.length} SAVED SNIPPETS
+                </span>
+              </div>
+
+              {snippets.length === 0 ? (
+                <div className="py-16 text-center">
+                  <Highlighter size={40} className="text-white/10 mx-auto mb-4" />
+                  <p className="text-sm text-white/30 font-mono">NO SNIPPETS YET</p>
+                  <p className="text-xs text-white/20 mt-2">Select text in a message and click the highlighter to save it</p>
+                </div>
+              ) : (
+                snippets.map((snippet, idx) => (
+                  <div
+                    key={snippet.id}
+                    data-index={idx}
+                    className={`rounded-xl border bg-white/5 transition-all duration-300 ${focusedIndex === idx ? 'ring-1 ring-yellow-500/50' : ''}
+                      ${selectedSession?.id === snippet.sessionId ? 'border-yellow-500/30' : 'border-white/5 hover:border-yellow-500/20'}`}
+                  >
+                    <button
+                      onClick={() => openMessage(snippet.project, snippet.sessionId, snippet.messageIndex)}
+                      className="w-full px-4 pt-3 pb-2 text-left hover:bg-white/5 rounded-t-xl transition-all"
+                    >
+                      <div className="flex items-center gap-2 text-[10px] font-mono text-white/40 mb-1.5">
+                        <span className="uppercase text-yellow-400/70">{snippet.role}</span>
+                        <span className="truncate">{projectBaseName(snippet.project)}</span>
+                        <span className="ml-auto shrink-0">{formatDate(snippet.createdAt)}</span>
+                      </div>
+                      <p className={`text-xs line-clamp-3 whitespace-pre-wrap ${snippet.highlight ? 'text-yellow-100/90' : 'text-white/70'}`}>{snippet.excerpt}</p>
+                    </button>
+                    <div className="flex items-center gap-2 px-4 pb-3">
+                      <input
+                        type="text"
+                        defaultValue={snippet.note}
+                        onBlur={(e) => setSnippetNote(snippet, e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                        placeholder="Add note..."
+                        className="flex-1 px-2 py-1 bg-white/5 border border-white/10 rounded-lg text-xs text-white/70 focus:border-yellow-500/50"
+                      />
+                      <button
+                        onClick={() => removeSnippet(snippet)}
+                        className="p-1 text-white/30 hover:text-red-400 transition-colors"
+                        title="Remove snippet"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          ) : view === 'live' ? (
+            <LiveSessionList
+              sessions={live.sessions}
+              activeId={live.activeTerminal && live.openTerminals.includes(live.activeTerminal) ? live.activeTerminal : null}
+              focusedIndex={focusedIndex}
+              onRefresh={live.refresh}
+              onCreate={live.create}
+              onOpen={live.openTerminal}
+              onStart={live.start}
+              onStop={live.stop}
+              onDelete={live.remove}
+            />
           ) : (
             /* Bookmarks View */
             <div className="space-y-3">
@@ -1248,7 +1737,10 @@ function App() {
                       </div>
                       <div className="flex-1 min-w-0">
                         <p className="text-sm text-white font-medium line-clamp-1">{session.summary || 'Session'}</p>
-                        <p className="text-xs text-white/40 mt-1 font-mono">{formatDate(session.createdAt)}</p>
+                        <p className="text-xs text-white/40 mt-1 font-mono flex items-center gap-1.5">
+                          {formatDate(session.createdAt)}
+                          <SourceBadge label={sourceLabel(session.source)} />
+                        </p>
                       </div>
                     </div>
                   </button>
@@ -1258,6 +1750,19 @@ function App() {
           )}
         </div>
 
+        {/* Bulk export selection */}
+        {exporter.selection.size > 0 && (
+          <SelectionBar
+            count={exporter.selection.size}
+            onExport={() => exporter.openBulkExport(
+              `${exporter.selection.size} selected session${exporter.selection.size === 1 ? '' : 's'}`,
+              { sessions: exporter.selectedSessions },
+            )}
+            onCompare={() => comparer.compare(exporter.selectedSessions[0], exporter.selectedSessions[1])}
+            onClear={exporter.clearSelection}
+          />
+        )}
+
         {/* Footer */}
         <div className="p-4 border-t border-white/5 bg-black/20">
           <div className="flex items-center justify-between">
@@ -1287,7 +1792,26 @@ function App() {
 
       {/* Main Content */}
       <div className="flex-1 flex flex-col overflow-hidden relative z-10">
-        {selectedSession ? (
+        {view === 'live' && live.openTerminals.length > 0 ? (
+          <LiveTerminalTabs
+            sessions={live.openTerminals.flatMap(id => live.sessions.filter(s => s.id === id))}
+            activeId={live.activeTerminal}
+            onSelect={live.setActiveTerminal}
+            onCloseTab={live.closeTerminal}
+            onStart={live.start}
+            onStop={live.stop}
+            onExit={live.markExited}
+          />
+        ) : comparer.comparison ? (
+          <SessionCompare
+            comparison={comparer.comparison}
+            onOpen={(project, sessionId, messageIndex) => {
+              comparer.close();
+              openMessage(project, sessionId, messageIndex);
+            }}
+            onClose={comparer.close}
+          />
+        ) : selectedSession ? (
           <>
             {/* Session Header */}
             <div className="relative flex items-center justify-between px-8 py-5 border-b border-white/5 bg-gradient-to-r from-[#0a0a18]/90 to-[#0a0a18]/70 backdrop-blur-xl">
@@ -1310,6 +1834,40 @@ function App() {
                     <span className="text-white/20">|</span>
                     <span className="text-cyan-400">{selectedSession.messages.length}</span> messages
                   </p>
+                  {(selectedSession.models?.length || selectedSession.gitBranch || selectedSession.cwd || selectedSession.usage || sourceLabel(selectedSession.source)) && (
+                    <p className="text-[11px] text-white/30 flex items-center gap-3 mt-1 font-mono flex-wrap">
+                      <SourceBadge label={sourceLabel(selectedSession.source)} />
+                      {selectedSession.models && selectedSession.models.length > 0 && (
+                        <span className="flex items-center gap-1.5" title="Model">
+                          <Cpu size={11} className="text-orange-400/50" />
+                          {selectedSession.models.join(', ')}
+                        </span>
+                      )}
+                      {selectedSession.gitBranch && (
+                        <span className="flex items-center gap-1.5" title="Git branch">
+                          <GitBranch size={11} className="text-emerald-400/50" />
+                          {selectedSession.gitBranch}
+                        </span>
+                      )}
+                      {selectedSession.cwd && (
+                        <span className="flex items-center gap-1.5" title="Working directory">
+                          <FolderOpen size={11} className="text-cyan-400/50" />
+                          {truncate(selectedSession.cwd, 50)}
+                        </span>
+                      )}
+                      {selectedSession.usage && (selectedSession.usage.inputTokens + selectedSession.usage.outputTokens) > 0 && (
+                        <span
+                          className="flex items-center gap-1.5"
+                          title={`Input ${selectedSession.usage.inputTokens} · Output ${selectedSession.usage.outputTokens} · Cache write ${selectedSession.usage.cacheCreationTokens} · Cache read ${selectedSession.usage.cacheReadTokens}`}
+                        >
+                          <Zap size={11} className="text-purple-400/50" />
+                          {formatTokens(selectedSession.usage.inputTokens)} in / {formatTokens(selectedSession.usage.outputTokens)} out
+                          {selectedSession.usage.cacheReadTokens > 0 && ` / ${formatTokens(selectedSession.usage.cacheReadTokens)} cached`}
+                        </span>
+                      )}
+                      {selectedSession.version && <span title="Claude Code version">v{selectedSession.version}</span>}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -1333,39 +1891,77 @@ function App() {
                   </button>
                 )}
 
-                {/* Export button */}
-                <div className="flex items-center gap-4">
-                  {exporting && (
-                    <p className="text-xs text-white/50 font-mono animate-pulse max-w-[200px] text-right">
-                      Converting... save dialog may take up to 60s
-                    </p>
+                <button
+                  onClick={async () => { if (await live.resume(selectedSession)) setView('live'); }}
+                  disabled={selectedSession.source !== 'local' || !selectedSession.cwd}
+                  className="p-3 rounded-xl bg-white/5 text-white/50 hover:text-cyan-400 hover:bg-white/10 transition-all disabled:opacity-30 disabled:pointer-events-none"
+                  title={selectedSession.source === 'local' ? 'Resume in terminal' : 'Only sessions recorded on this machine can be resumed'}
+                >
+                  <TerminalSquare size={18} />
+                </button>
+
+                <button
+                  onClick={() => fileStates.open(selectedSession)}
+                  className="p-3 rounded-xl bg-white/5 text-white/50 hover:text-cyan-400 hover:bg-white/10 transition-all"
+                  title="Files this session changed, step by step"
+                >
+                  <FileDiff size={18} />
+                </button>
+
+                <button
+                  onClick={replay.toggle}
+                  className={`p-3 rounded-xl transition-all ${
+                    replay.index !== null
+                      ? 'bg-cyan-500/20 text-cyan-400'
+                      : 'bg-white/5 text-white/50 hover:text-cyan-400 hover:bg-white/10'
+                  }`}
+                  title="Replay the session message by message"
+                >
+                  <Play size={18} />
+                </button>
+
+                <button
+                  onClick={() => setRedactedPreview(prev => !prev)}
+                  className={`flex items-center gap-2 p-3 rounded-xl transition-all ${
+                    redactedPreview
+                      ? 'bg-emerald-500/20 text-emerald-400'
+                      : 'bg-white/5 text-white/50 hover:text-emerald-400 hover:bg-white/10'
+                  }`}
+                  title="Preview with secrets and personal data redacted, as in exports"
+                >
+                  <ShieldCheck size={18} />
+                  {redactedPreview && redactions && (
+                    <span className="text-xs font-mono">{redactions.length}</span>
                   )}
-                  <button
-                    onClick={exportToMarkdown}
-                    disabled={exporting}
-                    className={`flex items-center gap-2 px-5 py-3 rounded-xl text-sm font-bold uppercase tracking-wider transition-all duration-300
-                      ${exporting
-                        ? 'bg-white/10 text-white/50 cursor-wait'
-                        : 'bg-gradient-to-r from-orange-500 to-amber-500 text-white hover:shadow-xl hover:shadow-orange-500/30 hover:-translate-y-0.5'}`}
-                  >
-                    {exporting ? (
-                      <>
-                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                        Exporting...
-                      </>
-                    ) : (
-                      <>
-                        <Download size={16} />
-                        Export
-                      </>
-                    )}
-                  </button>
-                </div>
+                </button>
+
+                <ExportMenu
+                  formats={EXPORT_FORMATS}
+                  exporting={exporter.exporting}
+                  onExport={format => exporter.exportSession(selectedSession, format, collapsedTools)}
+                  redact={redactExports}
+                  onRedactChange={setRedactExports}
+                />
               </div>
             </div>
 
+            {/* Replay player */}
+            {selectedSession && replay.index !== null && (
+              <div className="px-8 py-4 border-b border-white/5 bg-gradient-to-r from-white/5 to-transparent">
+                <div className="max-w-4xl mx-auto">
+                  <SessionReplay
+                    messages={selectedSession.messages}
+                    index={replay.index}
+                    onSeek={replay.seek}
+                    onClose={replay.stop}
+                    cwd={selectedSession.cwd}
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Session Timeline & Insights */}
-            {selectedSession && (
+            {selectedSession && replay.index === null && (
               <div className="px-8 py-4 border-b border-white/5 bg-gradient-to-r from-white/5 to-transparent">
                 <div className="max-w-4xl mx-auto grid grid-cols-1 lg:grid-cols-2 gap-4">
                   {/* Timeline */}
@@ -1395,6 +1991,19 @@ function App() {
                   </div>
                 </div>
 
+                {/* Commits made during the session */}
+                {sessionCommits.commits && (
+                  <div className="max-w-4xl mx-auto mt-4">
+                    <SessionCommits
+                      key={`${selectedSession.project}:${selectedSession.id}`}
+                      commits={sessionCommits.commits}
+                      onLoadDiff={sessionCommits.loadDiff}
+                      onJumpTo={jumpToMessage}
+                      onCopyLink={messageIndex => copyMessageLink(selectedSession, messageIndex)}
+                    />
+                  </div>
+                )}
+
                 {/* Message Type Filters */}
                 <div className="max-w-4xl mx-auto mt-4 flex items-center gap-2">
                   <span className="text-[10px] text-white/40 uppercase tracking-wider">Show:</span>
@@ -1416,6 +2025,21 @@ function App() {
                       <span className="font-mono text-[10px] opacity-70">{f.count}</span>
                     </button>
                   ))}
+                  {messageCounts.thinking > 0 && (
+                    <button
+                      onClick={toggleThinking}
+                      className={`flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs transition-all ${
+                        showThinking
+                          ? 'bg-pink-500/20 text-pink-400 border border-pink-500/30'
+                          : 'bg-white/5 text-white/40 border border-transparent hover:bg-white/10'
+                      }`}
+                      title="Show Claude's thinking"
+                    >
+                      <Brain size={12} />
+                      <span>Thinking</span>
+                      <span className="font-mono text-[10px] opacity-70">{messageCounts.thinking}</span>
+                    </button>
+                  )}
                 </div>
               </div>
             )}
@@ -1431,7 +2055,13 @@ function App() {
                       key={i}
                       className="px-2 py-1 bg-purple-500/20 text-purple-400 text-xs rounded-lg border border-purple-500/30 flex items-center gap-1 group"
                     >
-                      {tag}
+                      <button
+                        onClick={() => { search.setQuery(/\s/.test(tag) ? `tag:"${tag}"` : `tag:${tag}`); setView('search'); }}
+                        className="hover:underline"
+                        title="Find sessions with this tag"
+                      >
+                        {tag}
+                      </button>
                       <button
                         onClick={() => removeTag(selectedSession, tag)}
                         className="opacity-0 group-hover:opacity-100 transition-opacity hover:text-red-400"
@@ -1515,37 +2145,63 @@ function App() {
                 // Get the original index for highlighting
                 const originalIdx = selectedSession.messages.indexOf(msg);
                 const isHighlighted = highlightedMessageIdx === originalIdx;
-                const hasSearchMatch = activeSearchQuery && msg.content.toLowerCase().includes(activeSearchQuery.toLowerCase());
+                const matchSpans = sessionMatchSpans.get(originalIdx);
+                const hasSearchMatch = !!matchSpans;
+                const messageSnippets = sessionSnippets.get(originalIdx);
+                const savedSpans = (messageSnippets || []).flatMap(s => s.highlight ? [s.highlight] : []).sort((a, b) => a[0] - b[0]);
                 const isToolCollapsed = collapsedTools.has(originalIdx);
+                const masked = redactedMessages.get(originalIdx);
+                const content = masked?.content?.text ?? msg.content;
 
                 return (
                   <div
                     key={originalIdx}
                     data-message-idx={originalIdx}
                     className={`relative px-8 ${compactView ? 'py-3' : 'py-6'} border-b border-white/5 transition-all duration-500
-                      ${msg.role === 'user' ? 'bg-transparent' : msg.role === 'tool' ? 'bg-purple-500/5' : 'bg-cyan-500/5'}
+                      ${msg.isThinking ? 'bg-pink-500/5' : msg.role === 'user' ? 'bg-transparent' : msg.role === 'tool' ? 'bg-purple-500/5' : 'bg-cyan-500/5'}
                       ${isHighlighted ? 'highlight-message' : ''}
-                      ${hasSearchMatch && !isHighlighted ? 'border-l-2 border-l-cyan-500' : ''}`}
+                      ${hasSearchMatch && !isHighlighted ? 'border-l-2 border-l-cyan-500' : messageSnippets && !isHighlighted ? 'border-l-2 border-l-yellow-500/60' : ''}`}
                   >
                     <div className="max-w-4xl mx-auto">
                       <div className={`flex items-center gap-4 ${compactView ? 'mb-2' : 'mb-4'}`}>
                         <div className={`${compactView ? 'w-8 h-8' : 'w-10 h-10'} rounded-xl flex items-center justify-center text-xs font-bold uppercase border
-                          ${msg.role === 'user'
+                          ${msg.isThinking
+                            ? 'bg-gradient-to-br from-pink-500/20 to-pink-600/20 border-pink-500/30 text-pink-400'
+                            : msg.role === 'user'
                             ? 'bg-gradient-to-br from-blue-500/20 to-blue-600/20 border-blue-500/30 text-blue-400'
                             : msg.role === 'tool'
                               ? 'bg-gradient-to-br from-purple-500/20 to-purple-600/20 border-purple-500/30 text-purple-400'
                               : 'bg-gradient-to-br from-orange-500/20 to-amber-500/20 border-orange-500/30 text-orange-400'}`}>
-                          {msg.role === 'user' ? 'YOU' : msg.role === 'tool' ? 'T' : 'AI'}
+                          {msg.isThinking ? <Brain size={14} /> : msg.role === 'user' ? 'YOU' : msg.role === 'tool' ? 'T' : 'AI'}
                         </div>
                         <div className="flex-1">
                           <span className="font-semibold text-white text-sm">
-                            {msg.role === 'user' ? 'You' : msg.role === 'tool' ? `Tool: ${msg.toolName}` : 'Claude'}
+                            {msg.isThinking ? 'Thinking' : msg.role === 'user' ? 'You' : msg.role === 'tool' ? `Tool: ${msg.toolName}` : 'Claude'}
                           </span>
                           {msg.timestamp && (
                             <span className="text-xs text-white/30 ml-3 font-mono">{new Date(msg.timestamp).toLocaleTimeString()}</span>
                           )}
+                          {msg.usage && (
+                            <span
+                              className="text-xs text-white/20 ml-3 font-mono"
+                              title={`${msg.model || 'Unknown model'} · input ${msg.usage.inputTokens} · output ${msg.usage.outputTokens} · cache read ${msg.usage.cacheReadTokens}`}
+                            >
+                              {formatTokens(msg.usage.inputTokens + msg.usage.cacheReadTokens)}→{formatTokens(msg.usage.outputTokens)} tok
+                            </span>
+                          )}
+                          {msg.durationMs !== undefined && (
+                            <span className="text-xs text-purple-400/60 ml-3 font-mono">{formatDuration(msg.durationMs)}</span>
+                          )}
+                          {parallelBatchSizes.has(originalIdx) && (
+                            <span className="text-[10px] font-bold uppercase tracking-wider ml-3 px-2 py-0.5 rounded bg-cyan-500/10 text-cyan-400/80 border border-cyan-500/20">
+                              Parallel ×{parallelBatchSizes.get(originalIdx)}
+                            </span>
+                          )}
+                          {msg.isError && (
+                            <span className="text-[10px] font-bold uppercase tracking-wider ml-3 px-2 py-0.5 rounded bg-red-500/20 text-red-400 border border-red-500/30">Error</span>
+                          )}
                         </div>
-                        {msg.role === 'tool' && msg.toolInput && (
+                        {msg.role === 'tool' && (msg.toolInput || msg.toolOutput) && (
                           <button
                             onClick={() => toggleToolCollapse(originalIdx)}
                             className="p-1 text-white/30 hover:text-white/70 transition-colors"
@@ -1556,22 +2212,71 @@ function App() {
                         {hasSearchMatch && (
                           <span className="text-[10px] font-bold uppercase tracking-wider bg-cyan-500/20 text-cyan-400 px-3 py-1 rounded-full border border-cyan-500/30">Match</span>
                         )}
+                        <button
+                          // Keep the text selection alive so it can become the highlight
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => saveSnippet(selectedSession, originalIdx)}
+                          className={`p-1 transition-colors ${messageSnippets ? 'text-yellow-400' : 'text-white/20 hover:text-yellow-400'}`}
+                          title={messageSnippets ? `${messageSnippets.length} saved — select text to save another highlight` : 'Save message (select text to highlight part of it)'}
+                        >
+                          <Highlighter size={14} />
+                        </button>
+                        {toolFilePath(msg.toolInput) && (
+                          <button
+                            onClick={() => showFileHistory(toolFilePath(msg.toolInput)!)}
+                            className="p-1 text-white/20 hover:text-cyan-400 transition-colors"
+                            title={`Every session that touched ${toolFilePath(msg.toolInput)}`}
+                          >
+                            <FileClock size={14} />
+                          </button>
+                        )}
+                        {msg.role === 'tool' && !msg.isError && ['Write', 'Edit', 'MultiEdit'].includes(msg.toolName || '') && toolFilePath(msg.toolInput) && (
+                          <button
+                            onClick={() => fileStates.open(selectedSession, toolFilePath(msg.toolInput)!, originalIdx)}
+                            className="p-1 text-white/20 hover:text-cyan-400 transition-colors"
+                            title="Show the file as it stood after this change"
+                          >
+                            <FileDiff size={14} />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => copyMessageLink(selectedSession, originalIdx)}
+                          className="p-1 text-white/20 hover:text-cyan-400 transition-colors"
+                          title="Copy link to this message"
+                        >
+                          <Link2 size={14} />
+                        </button>
                       </div>
                       <div className={compactView ? 'pl-10' : 'pl-14'}>
-                        {msg.role === 'tool' && msg.toolInput ? (
+                        {msg.role === 'tool' && (msg.toolInput || msg.toolOutput) ? (
                           <div>
-                            <div className="text-white/80 text-sm font-medium">{msg.content}</div>
-                            {!isToolCollapsed && (
-                              <CodeBlock code={msg.toolInput} language="json" />
+                            <div className="text-white/80 text-sm font-medium">{content}</div>
+                            {!isToolCollapsed && msg.toolInput && (
+                              <CodeBlock code={masked?.toolInput?.text ?? msg.toolInput} language="json" />
+                            )}
+                            {!isToolCollapsed && msg.toolOutput && (
+                              <pre className={`my-3 p-4 max-h-80 overflow-auto rounded-xl text-xs font-mono whitespace-pre-wrap break-words border
+                                ${msg.isError ? 'bg-red-500/10 border-red-500/30 text-red-300' : 'bg-black/40 border-white/10 text-white/60'}`}>
+                                {masked?.toolOutput
+                                  ? highlightSpans(masked.toolOutput.text, masked.toolOutput.spans, 0, 'redaction-mark')
+                                  : msg.toolOutput}
+                              </pre>
                             )}
                           </div>
                         ) : (
-                          <div className="whitespace-pre-wrap text-white/80 leading-relaxed">
-                            {parseContent(msg.content).map((part, i) => (
+                          <div className={`whitespace-pre-wrap leading-relaxed ${msg.isThinking ? 'text-white/50 italic' : 'text-white/80'}`}>
+                            {parseContent(content).map((part, i) => (
                               part.type === 'code' ? (
                                 <CodeBlock key={i} code={part.content} language={part.language} />
                               ) : (
-                                <span key={i}>{activeSearchQuery ? highlightSearchTerm(part.content, activeSearchQuery) : part.content}</span>
+                                <span key={i} data-offset={part.offset}>
+                                  {/* Search and snippet offsets refer to the unmasked text */}
+                                  {masked?.content
+                                    ? highlightSpans(part.content, masked.content.spans, part.offset, 'redaction-mark')
+                                    : matchSpans
+                                    ? highlightSpans(part.content, matchSpans, part.offset)
+                                    : highlightSpans(part.content, savedSpans, part.offset, 'snippet-highlight')}
+                                </span>
                               )
                             ))}
                           </div>
@@ -0,0 +1,2 @@
+// Base path of the backend API; Vite proxies it in development
+export const API_URL = '/api';
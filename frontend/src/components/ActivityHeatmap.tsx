@@ -3,7 +3,6 @@ import { useMemo } from 'react';
 interface Session {
   id: string;
   createdAt: string;
-  messages: any[];
 }
 
 interface ActivityHeatmapProps {
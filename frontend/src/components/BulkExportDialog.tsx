@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Archive, ShieldCheck, X } from 'lucide-react';
+
+interface ExportFormatOption<F extends string> {
+  id: F;
+  label: string;
+  hint: string;
+}
+
+interface BulkExportProgress {
+  done: number;
+  total: number;
+  current?: string;
+}
+
+interface BulkExportDialogProps<F extends string> {
+  // What is being exported, e.g. "3 selected sessions"
+  title: string;
+  formats: ExportFormatOption<F>[];
+  // Set while an export is running; total is 0 until the server reports in
+  progress: BulkExportProgress | null;
+  // Mask detected secrets in the exported files
+  redact: boolean;
+  onRedactChange: (redact: boolean) => void;
+  onExport: (format: F) => void;
+  onClose: () => void;
+}
+
+export function BulkExportDialog<F extends string>({ title, formats, progress, redact, onRedactChange, onExport, onClose }: BulkExportDialogProps<F>) {
+  const [format, setFormat] = useState<F>(formats[0].id);
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={() => !progress && onClose()}>
+      <div className="bg-[#0a0a18] border border-cyan-500/30 rounded-2xl p-6 max-w-md w-full mx-4 shadow-2xl shadow-cyan-500/20" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-bold text-white font-cyber flex items-center gap-2">
+            <Archive size={18} className="text-cyan-400" /> BULK EXPORT
+          </h3>
+          {!progress && (
+            <button onClick={onClose} className="text-white/50 hover:text-white">
+              <X size={20} />
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-white/50 mb-4">{title}</p>
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {formats.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setFormat(f.id)}
+              disabled={!!progress}
+              className={`px-3 py-2 rounded-lg border text-left transition-all
+                ${format === f.id ? 'bg-cyan-500/20 border-cyan-500/40' : 'bg-white/5 border-white/10 hover:border-white/20'}`}
+            >
+              <span className={`block text-sm ${format === f.id ? 'text-cyan-400' : 'text-white/80'}`}>{f.label}</span>
+              <span className="block text-[10px] text-white/40 font-mono">{f.hint}</span>
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 mb-3 text-xs text-white/60 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={redact}
+            disabled={!!progress}
+            onChange={e => onRedactChange(e.target.checked)}
+            className="accent-emerald-500"
+          />
+          <ShieldCheck size={12} className={redact ? 'text-emerald-400' : 'text-white/30'} />
+          Redact secrets and personal data
+        </label>
+
+        <p className="text-[10px] text-white/40 mb-4">
+          One file per session, grouped by project, plus a manifest.json index. The message filters of the open session apply.
+        </p>
+
+        {progress ? (
+          <div>
+            <div className="h-2 bg-white/5 rounded-full overflow-hidden">
+              <div className="h-full bg-gradient-to-r from-cyan-500 to-blue-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="mt-2 text-xs text-white/50 font-mono flex justify-between">
+              <span className="truncate">{progress.current ? `Adding ${progress.current.slice(0, 8)}…` : 'Preparing…'}</span>
+              {progress.total > 0 && <span>{progress.done} / {progress.total}</span>}
+            </p>
+          </div>
+        ) : (
+          <button
+            onClick={() => onExport(format)}
+            className="w-full py-3 rounded-xl text-sm font-bold uppercase tracking-wider bg-gradient-to-r from-orange-500 to-amber-500 text-white hover:shadow-xl hover:shadow-orange-500/30 transition-all"
+          >
+            Download zip
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { ChevronDown, Download, ShieldCheck } from 'lucide-react';
+
+interface ExportFormatOption<F extends string> {
+  id: F;
+  label: string;
+  hint: string;
+}
+
+interface ExportMenuProps<F extends string> {
+  formats: ExportFormatOption<F>[];
+  // Set while the backend renders the export
+  exporting: boolean;
+  onExport: (format: F) => void;
+  // Mask detected secrets in the exported file
+  redact: boolean;
+  onRedactChange: (redact: boolean) => void;
+}
+
+// Export button of the session header, with its format picker
+export function ExportMenu<F extends string>({ formats, exporting, onExport, redact, onRedactChange }: ExportMenuProps<F>) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative flex items-center gap-4">
+      {exporting && (
+        <p className="text-xs text-white/50 font-mono animate-pulse max-w-[200px] text-right">
+          Converting... save dialog may take up to 60s
+        </p>
+      )}
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        disabled={exporting}
+        className={`flex items-center gap-2 px-5 py-3 rounded-xl text-sm font-bold uppercase tracking-wider transition-all duration-300
+          ${exporting
+            ? 'bg-white/10 text-white/50 cursor-wait'
+            : 'bg-gradient-to-r from-orange-500 to-amber-500 text-white hover:shadow-xl hover:shadow-orange-500/30 hover:-translate-y-0.5'}`}
+      >
+        {exporting ? (
+          <>
+            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            Exporting...
+          </>
+        ) : (
+          <>
+            <Download size={16} />
+            Export
+            <ChevronDown size={14} />
+          </>
+        )}
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-56 z-50 bg-[#0a0a18] border border-white/10 rounded-xl overflow-hidden shadow-2xl">
+            <div className="px-3 py-2 text-[10px] text-white/40 uppercase tracking-wider border-b border-white/5">
+              Export visible messages as
+            </div>
+            {formats.map(format => (
+              <button
+                key={format.id}
+                onClick={() => { setOpen(false); onExport(format.id); }}
+                className="w-full px-3 py-2 text-left hover:bg-white/10 transition-colors"
+              >
+                <span className="block text-sm text-white/80">{format.label}</span>
+                <span className="block text-[10px] text-white/40 font-mono">{format.hint}</span>
+              </button>
+            ))}
+            <label className="flex items-center gap-2 px-3 py-2 border-t border-white/5 text-xs text-white/60 cursor-pointer hover:bg-white/5">
+              <input
+                type="checkbox"
+                checked={redact}
+                onChange={e => onRedactChange(e.target.checked)}
+                className="accent-emerald-500"
+              />
+              <ShieldCheck size={12} className={redact ? 'text-emerald-400' : 'text-white/30'} />
+              Redact secrets
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
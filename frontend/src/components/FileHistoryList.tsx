@@ -0,0 +1,111 @@
+import { FileClock, Search } from 'lucide-react';
+import { projectBaseName } from '../format';
+import { SourceBadge } from './SourceBadge';
+
+type FileAction = 'read' | 'write' | 'edit' | 'other';
+
+interface FileTouch {
+  file: string;
+  action: FileAction;
+  toolName: string;
+  id: string;
+  project: string;
+  source: string;
+  summary: string;
+  messageIndex: number;
+  timestamp: string;
+}
+
+interface FileHistoryListProps {
+  // Contents of the path input
+  path: string;
+  onPathChange: (path: string) => void;
+  onSubmit: (path: string) => void;
+  // Path the touches belong to; empty until a path was looked up
+  activePath: string;
+  touches: FileTouch[];
+  loading: boolean;
+  editsOnly: boolean;
+  onEditsOnlyChange: (editsOnly: boolean) => void;
+  focusedIndex: number;
+  selectedId?: string;
+  sourceLabel: (source: string) => string | null;
+  onOpen: (touch: FileTouch) => void;
+}
+
+const ACTION_STYLES: Record<FileAction, string> = {
+  write: 'bg-emerald-500/20 text-emerald-400',
+  edit: 'bg-amber-500/20 text-amber-400',
+  read: 'bg-cyan-500/20 text-cyan-400',
+  other: 'bg-white/10 text-white/50',
+};
+
+export function FileHistoryList({
+  path, onPathChange, onSubmit, activePath, touches, loading, editsOnly, onEditsOnlyChange, focusedIndex, selectedId, sourceLabel, onOpen,
+}: FileHistoryListProps) {
+  return (
+    <div className="space-y-3">
+      <form
+        onSubmit={(e) => { e.preventDefault(); onSubmit(path); }}
+        className="flex items-center gap-2 px-2 pt-3"
+      >
+        <input
+          type="text"
+          value={path}
+          onChange={(e) => onPathChange(e.target.value)}
+          placeholder="src/auth/jwt.ts"
+          className="flex-1 min-w-0 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white font-mono focus:border-cyan-500/50"
+        />
+        <button type="submit" className="p-2 rounded-lg bg-cyan-500/20 text-cyan-400 hover:bg-cyan-500/30 transition-colors">
+          <Search size={14} />
+        </button>
+      </form>
+      <div className="flex items-center gap-2 px-2">
+        <FileClock size={14} className="text-cyan-400" />
+        <span className="flex-1 text-xs text-cyan-400/80 font-mono uppercase tracking-wider">
+          {activePath ? `${touches.length} ${editsOnly ? 'CHANGES' : 'TOUCHES'}` : 'FILE HISTORY'}
+        </span>
+        <button
+          onClick={() => onEditsOnlyChange(!editsOnly)}
+          className={`px-2 py-1 text-[10px] font-bold uppercase tracking-wider rounded transition-colors
+            ${editsOnly ? 'bg-amber-500/20 text-amber-400' : 'bg-white/5 text-white/40 hover:text-white/70'}`}
+          title="Show only Write and Edit calls"
+        >
+          Edits only
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="py-16 text-center">
+          <div className="w-10 h-10 border-2 border-cyan-500/30 border-t-cyan-400 rounded-full animate-spin mx-auto mb-4" />
+          <p className="text-sm text-white/40 font-mono">SCANNING...</p>
+        </div>
+      ) : touches.length === 0 ? (
+        <div className="py-16 text-center">
+          <FileClock size={40} className="text-white/10 mx-auto mb-4" />
+          <p className="text-sm text-white/30 font-mono">{activePath ? 'NO SESSIONS TOUCHED THIS FILE' : 'ENTER A FILE PATH'}</p>
+          <p className="text-xs text-white/20 mt-2">Full path or its end, e.g. auth/jwt.ts</p>
+        </div>
+      ) : (
+        touches.map((touch, idx) => (
+          <button
+            key={`${touch.project}-${touch.id}-${touch.messageIndex}-${touch.file}`}
+            data-index={idx}
+            onClick={() => onOpen(touch)}
+            className={`w-full text-left px-4 py-3 rounded-xl border bg-white/5 hover:bg-white/10 transition-all ${focusedIndex === idx ? 'ring-1 ring-cyan-500/50' : ''}
+              ${selectedId === touch.id ? 'border-cyan-500/30' : 'border-white/5 hover:border-cyan-500/20'}`}
+          >
+            <div className="flex items-center gap-2 text-[10px] font-mono text-white/40 mb-1.5">
+              <span className={`px-1.5 py-0.5 rounded font-bold uppercase ${ACTION_STYLES[touch.action]}`}>{touch.toolName}</span>
+              <span className="truncate">{projectBaseName(touch.file)}</span>
+              <SourceBadge label={sourceLabel(touch.source)} />
+              <span className="ml-auto shrink-0">{new Date(touch.timestamp).toLocaleString()}</span>
+            </div>
+            <p className="text-xs text-white/70 line-clamp-2">{touch.summary}</p>
+            <p className="text-[10px] text-white/30 font-mono truncate mt-1" title={touch.file}>{touch.file}</p>
+          </button>
+        ))
+      )}
+    </div>
+  );
+}
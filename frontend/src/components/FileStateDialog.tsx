@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { FileDiff, X, Copy, ArrowUpRight, AlertTriangle } from 'lucide-react';
+import { toast } from './Toast';
+
+interface FileStep {
+  messageIndex: number;
+  toolName: string;
+  kind: 'write' | 'edit';
+  timestamp?: string;
+  applied: boolean;
+}
+
+export interface SessionFile {
+  path: string;
+  steps: FileStep[];
+}
+
+interface FileState {
+  at: number | null;
+  content: string;
+  complete: boolean;
+}
+
+export interface FileHistory extends FileState {
+  path: string;
+  steps: FileStep[];
+  from?: FileState;
+  diff?: string;
+}
+
+interface FileStateDialogProps {
+  files: SessionFile[];
+  // File and step to open on; defaults to the first file's final state
+  initialPath?: string;
+  initialAt?: number;
+  cwd?: string;
+  onLoadHistory: (path: string, at: number, from: number) => Promise<FileHistory>;
+  onJumpTo: (messageIndex: number) => void;
+  onClose: () => void;
+}
+
+// Before the session's first change to the file
+const BEFORE_SESSION = -1;
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'typescript', js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  json: 'json', md: 'markdown', py: 'python', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin', rb: 'ruby',
+  php: 'php', c: 'c', h: 'c', cpp: 'cpp', cc: 'cpp', cs: 'csharp', swift: 'swift', sh: 'shell', bash: 'shell',
+  yml: 'yaml', yaml: 'yaml', html: 'html', css: 'css', scss: 'scss', sql: 'sql', xml: 'xml', toml: 'ini',
+};
+
+const languageOf = (path: string) => LANGUAGES[path.split('.').pop()?.toLowerCase() || ''] || 'plaintext';
+
+const relativePath = (path: string, cwd?: string) =>
+  cwd && path.startsWith(`${cwd}/`) ? path.slice(cwd.length + 1) : path;
+
+// The step before `at`, so a file opens on the change made at `at`
+const previousStep = (steps: FileStep[], at: number) =>
+  steps.filter(s => s.messageIndex < at).pop()?.messageIndex ?? BEFORE_SESSION;
+
+export function FileStateDialog({ files, initialPath, initialAt, cwd, onLoadHistory, onJumpTo, onClose }: FileStateDialogProps) {
+  const initialFile = files.find(f => f.path === initialPath) ?? files[0];
+  const [path, setPath] = useState(initialFile?.path);
+  const steps = files.find(f => f.path === path)?.steps ?? [];
+  const [to, setTo] = useState(() => initialAt ?? initialFile?.steps[initialFile.steps.length - 1]?.messageIndex ?? BEFORE_SESSION);
+  const [from, setFrom] = useState(() => previousStep(initialFile?.steps ?? [], to));
+  const [history, setHistory] = useState<FileHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!path) return;
+    let cancelled = false;
+    setError(null);
+    onLoadHistory(path, to, from)
+      .then(data => { if (!cancelled) setHistory(data); })
+      .catch(err => { if (!cancelled) setError((err as Error).message); });
+    return () => { cancelled = true; };
+  }, [path, to, from]);
+
+  const selectFile = (next: string) => {
+    const nextSteps = files.find(f => f.path === next)?.steps ?? [];
+    const last = nextSteps[nextSteps.length - 1]?.messageIndex ?? BEFORE_SESSION;
+    setHistory(null);
+    setPath(next);
+    setTo(last);
+    setFrom(previousStep(nextSteps, last));
+  };
+
+  const copyPatch = async () => {
+    if (!history?.diff) return;
+    await navigator.clipboard.writeText(history.diff);
+    toast.success('Patch copied');
+  };
+
+  const stepLabel = (step: FileStep) =>
+    `#${step.messageIndex + 1} ${step.toolName}${step.timestamp ? ` · ${new Date(step.timestamp).toLocaleTimeString()}` : ''}${step.applied ? '' : ' (partly guessed)'}`;
+
+  const stepSelect = (value: number, onChange: (value: number) => void, title: string) => (
+    <select
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      title={title}
+      className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white/80 font-mono focus:border-cyan-500/50"
+    >
+      <option value={BEFORE_SESSION} className="bg-[#0a0a18]">Before the session</option>
+      {steps.map(step => (
+        <option key={step.messageIndex} value={step.messageIndex} className="bg-[#0a0a18]">{stepLabel(step)}</option>
+      ))}
+    </select>
+  );
+
+  const incomplete = history && (!history.complete || (history.from && !history.from.complete));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-[#0a0a18] border border-cyan-500/30 rounded-2xl p-6 w-full max-w-6xl h-[85vh] mx-4 flex flex-col shadow-2xl shadow-cyan-500/20"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-white font-cyber flex items-center gap-2">
+            <FileDiff size={18} className="text-cyan-400" /> FILE STATES
+          </h3>
+          <button onClick={onClose} className="text-white/50 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {files.length === 0 ? (
+          <p className="text-sm text-white/40">This session did not write or edit any files.</p>
+        ) : (
+          <div className="flex-1 min-h-0 flex gap-4">
+            <div className="w-64 shrink-0 overflow-y-auto space-y-0.5">
+              {files.map(file => (
+                <button
+                  key={file.path}
+                  onClick={() => selectFile(file.path)}
+                  className={`w-full flex items-center gap-2 text-left text-xs font-mono rounded-lg px-2 py-1.5 ${
+                    file.path === path ? 'bg-cyan-500/15 text-cyan-300' : 'text-white/60 hover:bg-white/5'
+                  }`}
+                  title={file.path}
+                >
+                  <span className="flex-1 truncate">{relativePath(file.path, cwd)}</span>
+                  <span className="text-[10px] text-white/30">{file.steps.length}</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="flex items-center gap-2 mb-3 flex-wrap">
+                {stepSelect(from, setFrom, 'Compare from')}
+                <span className="text-white/30 text-xs">→</span>
+                {stepSelect(to, setTo, 'Compare to')}
+                {to !== BEFORE_SESSION && (
+                  <button
+                    onClick={() => { onJumpTo(to); onClose(); }}
+                    className="flex items-center gap-1 text-xs text-white/50 hover:text-cyan-400"
+                    title="Jump to this step in the session"
+                  >
+                    #{to + 1} <ArrowUpRight size={12} />
+                  </button>
+                )}
+                <button
+                  onClick={copyPatch}
+                  disabled={!history?.diff}
+                  className="ml-auto flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs text-white/60 bg-white/5 hover:text-cyan-400 disabled:opacity-30"
+                  title="Copy as a unified diff"
+                >
+                  <Copy size={12} /> Copy patch
+                </button>
+              </div>
+
+              {incomplete && (
+                <p className="flex items-center gap-1.5 mb-2 text-[11px] text-amber-400/80">
+                  <AlertTriangle size={12} />
+                  The file existed before the session and was never read in full — only the edited regions are shown.
+                </p>
+              )}
+
+              <div className="flex-1 min-h-0 rounded-lg overflow-hidden border border-white/10">
+                {error ? (
+                  <p className="p-4 text-sm text-red-400">{error}</p>
+                ) : history && path ? (
+                  <DiffEditor
+                    original={history.from?.content ?? ''}
+                    modified={history.content}
+                    language={languageOf(path)}
+                    theme="vs-dark"
+                    options={{ readOnly: true, renderSideBySide: true, minimap: { enabled: false }, fontSize: 12 }}
+                  />
+                ) : (
+                  <p className="p-4 text-xs text-white/30 italic">Loading...</p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
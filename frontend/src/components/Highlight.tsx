@@ -0,0 +1,20 @@
+// [start, end) character offsets returned by the search API
+export type Span = [number, number];
+
+// Wrap the given spans of `text` in <mark>. `offset` is where `text` starts
+// within the string the spans refer to (so one message can be rendered in parts).
+export const highlightSpans = (text: string, spans: Span[], offset = 0, className?: string): React.ReactNode => {
+  if (spans.length === 0) return text;
+  const parts: React.ReactNode[] = [];
+  let lastIdx = 0;
+  spans.forEach(([start, end], i) => {
+    const s = Math.max(start - offset, lastIdx);
+    const e = Math.min(end - offset, text.length);
+    if (e <= s) return;
+    if (s > lastIdx) parts.push(text.slice(lastIdx, s));
+    parts.push(<mark key={i} className={className}>{text.slice(s, e)}</mark>);
+    lastIdx = e;
+  });
+  if (lastIdx < text.length) parts.push(text.slice(lastIdx));
+  return parts;
+};
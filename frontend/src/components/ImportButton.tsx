@@ -0,0 +1,40 @@
+import { useRef } from 'react';
+import { Upload } from 'lucide-react';
+
+interface ImportButtonProps {
+  importing: boolean;
+  onImport: (files: FileList) => Promise<void>;
+}
+
+// Opens a file picker for transcripts and history archives
+export function ImportButton({ importing, onImport }: ImportButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = async (files: FileList | null) => {
+    if (!files?.length) return;
+    await onImport(files);
+    // Let the same file be picked again
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept=".jsonl,.tar,.tgz,.gz"
+        className="hidden"
+        onChange={(e) => handleChange(e.target.files)}
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={importing}
+        className="p-2 rounded-lg hover:bg-white/5 text-white/40 hover:text-emerald-400 transition-all"
+        title="Import transcripts (.jsonl) or archived history (.tar.gz)"
+      >
+        <Upload size={14} className={importing ? 'animate-pulse' : ''} />
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Play, RefreshCw, Square, TerminalSquare, Trash2 } from 'lucide-react';
+
+interface LiveSession {
+  id: string;
+  name: string;
+  workingDir: string;
+  status: 'running' | 'stopped' | 'error';
+  claudeArgs: string[];
+}
+
+interface LiveSessionListProps {
+  sessions: LiveSession[];
+  // Session whose terminal tab is showing, if any
+  activeId: string | null;
+  focusedIndex: number;
+  onRefresh: () => void;
+  // Resolves to false when the session could not be created, keeping the form filled in
+  onCreate: (name: string, workingDir: string) => Promise<boolean>;
+  onOpen: (id: string) => void;
+  onStart: (id: string) => void;
+  onStop: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function LiveSessionList({ sessions, activeId, focusedIndex, onRefresh, onCreate, onOpen, onStart, onStop, onDelete }: LiveSessionListProps) {
+  const [name, setName] = useState('');
+  const [workingDir, setWorkingDir] = useState('');
+
+  const create = async () => {
+    if (await onCreate(name, workingDir)) {
+      setName('');
+      setWorkingDir('');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between px-2 py-3">
+        <span className="text-xs text-cyan-400/80 font-mono uppercase tracking-wider flex items-center gap-2">
+          <TerminalSquare size={14} className="text-cyan-400" />
+          {sessions.length} LIVE SESSIONS
+        </span>
+        <button onClick={onRefresh} className="p-1 text-white/30 hover:text-cyan-400" title="Refresh">
+          <RefreshCw size={12} />
+        </button>
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); create(); }}
+        className="space-y-2 px-2"
+      >
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Session name"
+          className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white focus:border-cyan-500/50"
+        />
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={workingDir}
+            onChange={(e) => setWorkingDir(e.target.value)}
+            placeholder="Working directory (defaults to the server's)"
+            className="flex-1 min-w-0 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white font-mono focus:border-cyan-500/50"
+          />
+          <button
+            type="submit"
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-cyan-500/20 text-cyan-400 text-xs font-bold hover:bg-cyan-500/30"
+            title="Create and start claude"
+          >
+            <Play size={12} /> NEW
+          </button>
+        </div>
+      </form>
+
+      {sessions.length === 0 ? (
+        <div className="py-16 text-center">
+          <TerminalSquare size={40} className="text-white/10 mx-auto mb-4" />
+          <p className="text-sm text-white/30 font-mono">NO LIVE SESSIONS</p>
+          <p className="text-xs text-white/20 mt-2">Start claude above, or resume a past session from its header</p>
+        </div>
+      ) : (
+        sessions.map((session, idx) => (
+          <div
+            key={session.id}
+            data-index={idx}
+            onClick={() => onOpen(session.id)}
+            className={`rounded-xl border px-4 py-3 bg-white/5 hover:bg-white/10 cursor-pointer transition-all ${focusedIndex === idx ? 'ring-1 ring-cyan-500/50' : ''}
+              ${activeId === session.id ? 'border-cyan-500/50' : 'border-white/5'}`}
+          >
+            <div className="flex items-center gap-2">
+              <span className={`w-2 h-2 rounded-full ${session.status === 'running' ? 'bg-emerald-400' : session.status === 'error' ? 'bg-red-400' : 'bg-white/30'}`} />
+              <p className="flex-1 text-sm text-white font-medium truncate">{session.name}</p>
+              {session.status === 'running' ? (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onStop(session.id); }}
+                  className="p-1 text-white/30 hover:text-red-400"
+                  title="Stop"
+                >
+                  <Square size={12} />
+                </button>
+              ) : (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onStart(session.id); }}
+                  className="p-1 text-white/30 hover:text-emerald-400"
+                  title="Start"
+                >
+                  <Play size={12} />
+                </button>
+              )}
+              <button
+                onClick={(e) => { e.stopPropagation(); onDelete(session.id); }}
+                className="p-1 text-white/30 hover:text-red-400"
+                title="Stop and delete"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+            <p className="text-[10px] text-white/40 mt-1 font-mono truncate" title={session.workingDir}>
+              {session.workingDir}{session.claudeArgs.length > 0 && ` · ${session.claudeArgs.join(' ')}`}
+            </p>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
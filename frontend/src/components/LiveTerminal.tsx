@@ -0,0 +1,112 @@
+import { useEffect, useRef } from 'react';
+import { Terminal } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import '@xterm/xterm/css/xterm.css';
+import { getSocketUrl } from '../hooks';
+
+interface LogEntry {
+  timestamp: string;
+  type: 'stdout' | 'stderr' | 'system';
+  content: string;
+}
+
+interface LiveTerminalProps {
+  // Id of a PTY session from /api/sessions
+  sessionId: string;
+  // A restarted session gets a fresh PTY at the server's default size, so it is resized when this turns true
+  running: boolean;
+  onExit?: (exitCode: number) => void;
+}
+
+// Log entries (PTY output chunks) to replay when attaching
+const SCROLLBACK_ENTRIES = 5000;
+
+const THEME = {
+  background: '#0a0a18',
+  foreground: '#e0e0ff',
+  cursor: '#22d3ee',
+  selectionBackground: 'rgba(34, 211, 238, 0.3)',
+};
+
+// System log lines (start, exit) are dimmed so they read as annotations, not program output
+const systemLine = (text: string) => `\r\n\x1b[2m${text}\x1b[0m\r\n`;
+
+/**
+ * xterm.js view of a PTY session, attached over the WebSocket `subscribe`
+ * flow: scrollback from the session's logs first, then live output.
+ * Keystrokes go back as `input` and the terminal is refitted and `resize`d
+ * whenever its container changes size.
+ */
+export function LiveTerminal({ sessionId, running, onExit }: LiveTerminalProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onExitRef = useRef(onExit);
+  onExitRef.current = onExit;
+  const resizeRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const term = new Terminal({
+      fontFamily: 'JetBrains Mono, Menlo, monospace',
+      fontSize: 13,
+      cursorBlink: true,
+      scrollback: 10000,
+      theme: THEME,
+    });
+    const fit = new FitAddon();
+    term.loadAddon(fit);
+    term.open(containerRef.current);
+    fit.fit();
+
+    const socket = new WebSocket(getSocketUrl());
+    const send = (message: object) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    socket.onopen = () => {
+      send({ type: 'subscribe', sessionId, scrollback: SCROLLBACK_ENTRIES });
+      send({ type: 'resize', cols: term.cols, rows: term.rows });
+    };
+
+    socket.onmessage = (e) => {
+      try {
+        const message = JSON.parse(e.data);
+        if (message.type === 'logs') {
+          (message.logs as LogEntry[]).forEach(log => term.write(log.type === 'system' ? systemLine(log.content) : log.content));
+        } else if (message.type === 'data') {
+          term.write(message.data);
+        } else if (message.type === 'exit') {
+          term.write(systemLine(`Process exited with code ${message.exitCode}`));
+          onExitRef.current?.(message.exitCode);
+        }
+      } catch {
+        // Ignore malformed messages
+      }
+    };
+
+    const input = term.onData(data => send({ type: 'input', data }));
+
+    resizeRef.current = () => {
+      // A container that is not laid out has no size; keep the last dimensions
+      if (!containerRef.current?.offsetWidth) return;
+      fit.fit();
+      send({ type: 'resize', cols: term.cols, rows: term.rows });
+    };
+    const observer = new ResizeObserver(() => resizeRef.current());
+    observer.observe(containerRef.current);
+
+    return () => {
+      observer.disconnect();
+      input.dispose();
+      socket.close();
+      term.dispose();
+      resizeRef.current = () => {};
+    };
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (running) resizeRef.current();
+  }, [running]);
+
+  return <div ref={containerRef} className="w-full h-full" />;
+}
@@ -0,0 +1,88 @@
+import { TerminalSquare, X, Play, Square } from 'lucide-react';
+import { LiveTerminal } from './LiveTerminal';
+
+interface LiveSession {
+  id: string;
+  name: string;
+  workingDir: string;
+  status: 'running' | 'stopped' | 'error';
+  claudeArgs: string[];
+}
+
+interface LiveTerminalTabsProps {
+  // Sessions with an open tab, in tab order
+  sessions: LiveSession[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCloseTab: (id: string) => void;
+  onStart: (id: string) => void;
+  onStop: (id: string) => void;
+  onExit: (id: string) => void;
+}
+
+const STATUS_DOT: Record<LiveSession['status'], string> = {
+  running: 'bg-emerald-400 shadow-[0_0_6px_rgba(52,211,153,0.8)]',
+  stopped: 'bg-white/30',
+  error: 'bg-red-400',
+};
+
+export function LiveTerminalTabs({ sessions, activeId, onSelect, onCloseTab, onStart, onStop, onExit }: LiveTerminalTabsProps) {
+  const active = sessions.find(s => s.id === activeId);
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center gap-1 px-4 pt-3 border-b border-white/5 bg-gradient-to-r from-white/5 to-transparent overflow-x-auto">
+        {sessions.map(session => (
+          <div
+            key={session.id}
+            className={`group flex items-center gap-2 px-3 py-2 rounded-t-lg text-xs cursor-pointer border border-b-0 transition-colors ${
+              session.id === activeId
+                ? 'bg-[#0a0a18] border-cyan-500/30 text-cyan-300'
+                : 'border-transparent text-white/50 hover:text-white/80 hover:bg-white/5'
+            }`}
+            onClick={() => onSelect(session.id)}
+            title={session.workingDir}
+          >
+            <span className={`w-1.5 h-1.5 rounded-full ${STATUS_DOT[session.status]}`} />
+            <span className="max-w-[180px] truncate">{session.name}</span>
+            <button
+              onClick={e => { e.stopPropagation(); onCloseTab(session.id); }}
+              className="text-white/30 hover:text-white opacity-0 group-hover:opacity-100"
+              title="Close tab (the session keeps running)"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {active && (
+        <div className="flex items-center gap-3 px-4 py-2 border-b border-white/5 text-[10px] font-mono text-white/40">
+          <TerminalSquare size={12} className="text-cyan-400" />
+          <span className="truncate">{active.workingDir}</span>
+          <span className="truncate">claude --dangerously-skip-permissions {active.claudeArgs.join(' ')}</span>
+          <span className="ml-auto uppercase tracking-wider font-bold">{active.status}</span>
+          {active.status === 'running' ? (
+            <button onClick={() => onStop(active.id)} className="p-1 text-white/40 hover:text-red-400" title="Stop">
+              <Square size={12} />
+            </button>
+          ) : (
+            <button onClick={() => onStart(active.id)} className="p-1 text-white/40 hover:text-emerald-400" title="Start">
+              <Play size={12} />
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Every open tab stays mounted while the Live view is shown, so background tabs keep streaming.
+          Leaving the view unmounts them; they replay the session's scrollback when it is shown again. */}
+      <div className="flex-1 min-h-0 relative bg-[#0a0a18]">
+        {sessions.map(session => (
+          <div key={session.id} className={`absolute inset-0 p-2 ${session.id === activeId ? '' : 'invisible'}`}>
+            <LiveTerminal sessionId={session.id} running={session.status === 'running'} onExit={() => onExit(session.id)} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
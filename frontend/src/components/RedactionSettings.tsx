@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { ShieldCheck, Plus, Trash2 } from 'lucide-react';
+
+interface RedactionRule {
+  name: string;
+  pattern: string;
+}
+
+interface RedactionConfig {
+  applyToExports: boolean;
+  detectors: Record<string, boolean>;
+  rules: RedactionRule[];
+}
+
+interface DetectorInfo {
+  id: string;
+  label: string;
+  description: string;
+}
+
+interface RedactionSettingsProps {
+  config: RedactionConfig;
+  detectors: DetectorInfo[];
+  // Resolves false when the server rejected the change (e.g. an invalid pattern)
+  onChange: (config: RedactionConfig) => Promise<boolean>;
+}
+
+const Toggle = ({ on, onClick }: { on: boolean; onClick: () => void }) => (
+  <button
+    onClick={onClick}
+    className={`shrink-0 w-10 h-5 rounded-full transition-colors ${on ? 'bg-emerald-500' : 'bg-white/20'}`}
+  >
+    <div className={`w-4 h-4 rounded-full bg-white shadow transition-transform ${on ? 'translate-x-5' : 'translate-x-0.5'}`} />
+  </button>
+);
+
+export function RedactionSettings({ config, detectors, onChange }: RedactionSettingsProps) {
+  const [name, setName] = useState('');
+  const [pattern, setPattern] = useState('');
+
+  const toggleDetector = (id: string) => {
+    onChange({ ...config, detectors: { ...config.detectors, [id]: config.detectors[id] === false } });
+  };
+
+  const addRule = async () => {
+    if (!name.trim() || !pattern) return;
+    if (await onChange({ ...config, rules: [...config.rules, { name: name.trim(), pattern }] })) {
+      setName('');
+      setPattern('');
+    }
+  };
+
+  return (
+    <div>
+      <label className="text-sm text-white/70 mb-2 flex items-center gap-2">
+        <ShieldCheck size={14} />
+        Redaction
+      </label>
+
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <span className="text-xs text-white/50">Redact exports by default</span>
+        <Toggle on={config.applyToExports} onClick={() => onChange({ ...config, applyToExports: !config.applyToExports })} />
+      </div>
+
+      <div className="space-y-1.5 mb-3">
+        {detectors.map(d => (
+          <div key={d.id} className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <span className="block text-xs text-white/70">{d.label}</span>
+              <span className="block text-[10px] text-white/30 truncate">{d.description}</span>
+            </div>
+            <Toggle on={config.detectors[d.id] !== false} onClick={() => toggleDetector(d.id)} />
+          </div>
+        ))}
+      </div>
+
+      <span className="block text-xs text-white/50 mb-1.5">Custom rules</span>
+      {config.rules.map((rule, i) => (
+        <div key={i} className="flex items-center gap-2 mb-1.5">
+          <span className="text-xs text-white/70 w-24 truncate">{rule.name}</span>
+          <code className="flex-1 text-[10px] text-emerald-400/80 font-mono truncate">{rule.pattern}</code>
+          <button
+            onClick={() => onChange({ ...config, rules: config.rules.filter((_, j) => j !== i) })}
+            className="p-1 text-white/30 hover:text-red-400"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Label"
+          className="w-24 px-2 py-1 bg-white/10 border border-white/20 rounded-lg text-xs text-white focus:border-emerald-500/50"
+        />
+        <input
+          value={pattern}
+          onChange={e => setPattern(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && addRule()}
+          placeholder="Regex, e.g. ACME-\d{6}"
+          className="flex-1 min-w-0 px-2 py-1 bg-white/10 border border-white/20 rounded-lg text-xs text-white font-mono focus:border-emerald-500/50"
+        />
+        <button
+          onClick={addRule}
+          disabled={!name.trim() || !pattern}
+          className="p-1.5 text-emerald-400 border border-emerald-500/30 rounded-lg hover:bg-emerald-500/10 disabled:opacity-30"
+        >
+          <Plus size={12} />
+        </button>
+      </div>
+    </div>
+  );
+}
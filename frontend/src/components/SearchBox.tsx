@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Search, Clock } from 'lucide-react';
+import { SearchSyntaxHints } from './SearchSyntaxHints';
+
+type SearchMode = 'literal' | 'regex' | 'fuzzy';
+
+interface SearchBoxProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  // Runs the typed query, or the given one when a recent search is picked
+  onSearch: (query?: string) => void;
+  recentSearches: string[];
+  mode: SearchMode;
+  onModeChange: (mode: SearchMode) => void;
+  // Query syntax error from the last search
+  error: string | null;
+}
+
+const MODES: Array<{ id: SearchMode; label: string }> = [
+  { id: 'literal', label: 'Exact' },
+  { id: 'regex', label: 'Regex' },
+  { id: 'fuzzy', label: 'Fuzzy' },
+];
+
+export function SearchBox({ query, onQueryChange, onSearch, recentSearches, mode, onModeChange, error }: SearchBoxProps) {
+  const [showRecent, setShowRecent] = useState(false);
+
+  return (
+    <>
+      {/* Search with Recent Searches */}
+      <div className="relative group">
+        <div className="absolute inset-0 bg-gradient-to-r from-orange-500/20 to-cyan-500/20 rounded-xl blur opacity-0 group-focus-within:opacity-100 transition-opacity" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && onSearch()}
+          onFocus={() => setShowRecent(true)}
+          onBlur={() => setTimeout(() => setShowRecent(false), 200)}
+          placeholder='Search... e.g. "jwt" role:user (press /)'
+          className="relative w-full pl-11 pr-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-white/30 text-sm font-mono focus:border-cyan-500/50 focus:bg-white/10 transition-all duration-300"
+        />
+        <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-white/40 group-focus-within:text-cyan-400 transition-colors" />
+        {query && (
+          <button onClick={() => onSearch()} className="absolute right-2 top-1/2 -translate-y-1/2 px-3 py-1.5 bg-gradient-to-r from-orange-500 to-amber-500 text-white text-xs font-bold rounded-lg hover:shadow-lg hover:shadow-orange-500/30 transition-all uppercase tracking-wider">
+            Scan
+          </button>
+        )}
+        {/* Recent Searches Dropdown */}
+        {showRecent && recentSearches.length > 0 && (
+          <div className="absolute top-full left-0 right-0 mt-2 bg-[#0a0a18] border border-white/10 rounded-xl overflow-hidden z-50 shadow-2xl">
+            <div className="px-3 py-2 text-[10px] text-white/40 uppercase tracking-wider border-b border-white/5">Recent</div>
+            {recentSearches.slice(0, 5).map((search, idx) => (
+              <button
+                key={idx}
+                onMouseDown={() => { onQueryChange(search); onSearch(search); }}
+                className="w-full px-3 py-2 text-left text-sm text-white/70 hover:bg-white/10 hover:text-white transition-colors flex items-center gap-2"
+              >
+                <Clock size={12} className="text-white/30" />
+                {search}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Search mode */}
+      <div className="mt-3 grid grid-cols-3 gap-1 p-1 bg-white/5 rounded-lg border border-white/5">
+        {MODES.map(m => (
+          <button
+            key={m.id}
+            onClick={() => onModeChange(m.id)}
+            className={`py-1 text-[10px] font-bold uppercase tracking-wider rounded transition-all
+              ${mode === m.id ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/30' : 'text-white/40 hover:text-white/70 border border-transparent'}`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Query syntax hints & parse errors */}
+      <SearchSyntaxHints
+        mode={mode}
+        error={error}
+        onInsert={(snippet) => onQueryChange(query.trim() ? `${query.trim()} ${snippet}` : snippet)}
+      />
+    </>
+  );
+}
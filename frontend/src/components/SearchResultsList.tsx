@@ -0,0 +1,177 @@
+import { Search, MessageSquare, Zap, Archive } from 'lucide-react';
+import { formatDate } from '../format';
+import { highlightSpans, type Span } from './Highlight';
+import { SelectionCheckbox } from './SelectionCheckbox';
+import { SourceBadge } from './SourceBadge';
+
+type SearchSort = 'relevance' | 'date';
+
+interface SearchMatch {
+  messageIndex: number;
+  preview: string;
+  previewSpans: Span[];
+  role: string;
+}
+
+interface SearchResult {
+  id: string;
+  project: string;
+  source: string;
+  createdAt: string;
+  summary?: string;
+  matches: SearchMatch[];
+}
+
+interface SearchResultsListProps {
+  results: SearchResult[];
+  isSearching: boolean;
+  // Text in the search box; tells "no matches" apart from "nothing searched yet"
+  query: string;
+  total: number;
+  totalMatches: number;
+  // A regex search ran out of time before scanning every session
+  truncated: boolean;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+  sort: SearchSort;
+  onSortChange: (sort: SearchSort) => void;
+  onExportAll: () => void;
+  focusedIndex: number;
+  selectedId?: string;
+  // Sessions ticked for bulk export, keyed `${project}:${id}`
+  selection: Set<string>;
+  onToggleSelection: (result: SearchResult) => void;
+  sourceLabel: (source: string) => string | null;
+  onSelect: (result: SearchResult) => void;
+  onMatchClick: (result: SearchResult, messageIndex: number) => void;
+}
+
+const SORTS: Array<{ id: SearchSort; label: string }> = [
+  { id: 'relevance', label: 'Relevance' },
+  { id: 'date', label: 'Date' },
+];
+
+export function SearchResultsList({
+  results, isSearching, query, total, totalMatches, truncated, hasMore, loadingMore, onLoadMore,
+  sort, onSortChange, onExportAll, focusedIndex, selectedId, selection, onToggleSelection, sourceLabel, onSelect, onMatchClick,
+}: SearchResultsListProps) {
+  if (isSearching) {
+    return (
+      <div className="py-16 text-center">
+        <div className="relative w-16 h-16 mx-auto mb-6">
+          <div className="absolute inset-0 border-2 border-cyan-500/30 rounded-full animate-ping" />
+          <div className="absolute inset-2 border-2 border-cyan-400/50 rounded-full animate-spin" />
+          <div className="absolute inset-4 bg-cyan-500/20 rounded-full" />
+        </div>
+        <p className="text-sm text-cyan-400 font-mono animate-pulse">SCANNING MEMORY BANKS...</p>
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="py-16 text-center">
+        <Search size={40} className="text-white/10 mx-auto mb-4" />
+        <p className="text-sm text-white/30 font-mono">{query ? 'NO MATCHES FOUND' : 'ENTER SEARCH QUERY'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 px-2 py-3">
+        <Zap size={14} className="text-cyan-400" />
+        <span className="flex-1 text-xs text-cyan-400/80 font-mono uppercase tracking-wider">
+          {totalMatches} MATCHES IN {total} SESSIONS
+        </span>
+        <button
+          onClick={onExportAll}
+          className="p-1 text-white/40 hover:text-cyan-400 transition-colors"
+          title="Export all results as zip"
+        >
+          <Archive size={12} />
+        </button>
+        <div className="flex gap-1 p-0.5 bg-white/5 rounded-lg border border-white/10">
+          {SORTS.map(s => (
+            <button
+              key={s.id}
+              onClick={() => onSortChange(s.id)}
+              className={`px-2 py-0.5 rounded text-[10px] font-mono uppercase tracking-wider transition-all
+                ${sort === s.id ? 'bg-cyan-500/20 text-cyan-400' : 'text-white/40 hover:text-white/70'}`}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {truncated && (
+        <p className="px-2 pb-2 text-[10px] text-amber-400/70 font-mono">
+          Regex search timed out; older sessions were not scanned.
+        </p>
+      )}
+      {results.map((session, idx) => (
+        <div
+          key={`${session.project}-${session.id}`}
+          data-index={idx}
+          className={`rounded-xl overflow-hidden border transition-all duration-300 ${focusedIndex === idx ? 'ring-1 ring-cyan-500/50' : ''}
+            ${selectedId === session.id
+              ? 'border-cyan-500/50 shadow-lg shadow-cyan-500/20'
+              : 'border-white/5 hover:border-cyan-500/20'}`}
+        >
+          <button
+            onClick={() => onSelect(session)}
+            className="w-full group flex items-start gap-3 px-4 py-4 bg-white/5 hover:bg-white/10 transition-all text-left"
+          >
+            <div className="w-9 h-9 rounded-lg bg-gradient-to-br from-cyan-500/20 to-blue-500/20 flex items-center justify-center border border-cyan-500/20">
+              <MessageSquare size={15} className="text-cyan-400" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-white font-medium line-clamp-1">{session.summary || 'Session'}</p>
+              <p className="text-xs text-white/40 mt-1 font-mono flex items-center gap-1.5">
+                <span>{formatDate(session.createdAt)} | <span className="text-cyan-400">{session.matches.length}</span> hits</span>
+                <SourceBadge label={sourceLabel(session.source)} />
+              </p>
+            </div>
+            <SelectionCheckbox
+              checked={selection.has(`${session.project}:${session.id}`)}
+              selecting={selection.size > 0}
+              onToggle={() => onToggleSelection(session)}
+            />
+          </button>
+          {session.matches.length > 0 && (
+            <div className="border-t border-white/5 bg-black/20">
+              {session.matches.slice(0, 3).map((match, mIdx) => (
+                <button
+                  key={mIdx}
+                  onClick={() => onMatchClick(session, match.messageIndex)}
+                  className="w-full px-4 py-3 text-left hover:bg-white/5 border-b border-white/5 last:border-b-0 transition-colors group"
+                >
+                  <span className={`text-[10px] font-bold uppercase tracking-wider mr-2 px-2 py-1 rounded
+                    ${match.role === 'user' ? 'bg-blue-500/20 text-blue-400' : match.role === 'tool' ? 'bg-purple-500/20 text-purple-400' : 'bg-orange-500/20 text-orange-400'}`}>
+                    {match.role === 'user' ? 'YOU' : match.role === 'tool' ? 'TOOL' : 'AI'}
+                  </span>
+                  <span className="text-xs text-white/50 group-hover:text-white/70 transition-colors font-mono">
+                    {highlightSpans(match.preview, match.previewSpans)}
+                  </span>
+                </button>
+              ))}
+              {session.matches.length > 3 && (
+                <p className="text-xs text-cyan-400/50 px-4 py-2 text-center font-mono">+{session.matches.length - 3} more</p>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      {hasMore && (
+        <button
+          onClick={onLoadMore}
+          disabled={loadingMore}
+          className="w-full py-3 text-xs text-cyan-400/60 hover:text-cyan-400 font-mono uppercase tracking-wider transition-colors"
+        >
+          {loadingMore ? 'Loading...' : `Load more (${total - results.length} remaining)`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { AlertCircle, HelpCircle } from 'lucide-react';
+
+interface SearchSyntaxHintsProps {
+  mode: 'literal' | 'regex' | 'fuzzy';
+  error?: string | null;
+  onInsert: (snippet: string) => void;
+}
+
+const HINTS: Array<{ syntax: string; description: string }> = [
+  { syntax: '"refresh token"', description: 'Exact phrase' },
+  { syntax: 'jwt OR oauth', description: 'Either term' },
+  { syntax: 'auth -docker', description: 'Exclude (or NOT docker)' },
+  { syntax: 'role:user', description: 'user, assistant or tool' },
+  { syntax: 'tool:Bash', description: 'Tool calls by name' },
+  { syntax: 'project:api-server', description: 'Project path contains' },
+  { syntax: 'file:src/auth.ts', description: 'Tool calls touching a file' },
+  { syntax: 'tag:auth', description: 'Sessions you tagged' },
+  { syntax: 'note:"follow up"', description: 'Session note contains' },
+  { syntax: 'after:2026-08-01', description: 'On or after a date' },
+  { syntax: 'before:2026-09-01', description: 'Before a date' },
+];
+
+export function SearchSyntaxHints({ mode, error, onInsert }: SearchSyntaxHintsProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="mt-2">
+      {error ? (
+        <div className="flex items-start gap-2 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/30 text-xs text-red-400 font-mono">
+          <AlertCircle size={12} className="shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      ) : null}
+
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1.5 mt-1 text-[10px] text-white/40 hover:text-cyan-400 uppercase tracking-wider transition-colors"
+      >
+        <HelpCircle size={10} />
+        {expanded ? 'Hide' : 'Query'} syntax
+      </button>
+
+      {expanded && mode === 'regex' && (
+        <p className="mt-2 p-2 bg-white/5 rounded-lg border border-white/10 text-[10px] text-white/50">
+          The whole query is one case-insensitive regular expression, e.g. <code className="text-cyan-400">use[A-Z]\w+</code>.
+          RE2 syntax: backreferences and lookarounds are not supported.
+        </p>
+      )}
+
+      {expanded && mode !== 'regex' && (
+        <div className="mt-2 p-2 bg-white/5 rounded-lg border border-white/10 space-y-0.5">
+          {HINTS.map(hint => (
+            <button
+              key={hint.syntax}
+              onClick={() => onInsert(hint.syntax)}
+              className="w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-left hover:bg-white/10 transition-colors"
+              title="Add to query"
+            >
+              <code className="text-[11px] text-cyan-400 font-mono">{hint.syntax}</code>
+              <span className="text-[10px] text-white/40 truncate">{hint.description}</span>
+            </button>
+          ))}
+          {mode === 'fuzzy' && (
+            <p className="px-2 pt-1 text-[10px] text-white/40">Fuzzy mode tolerates typos; closest matches come first.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { Archive, CheckSquare, GitCompare, X } from 'lucide-react';
+
+interface SelectionBarProps {
+  count: number;
+  onExport: () => void;
+  // Offered when exactly two sessions are ticked
+  onCompare: () => void;
+  onClear: () => void;
+}
+
+// Actions on the sessions ticked in the sidebar lists
+export function SelectionBar({ count, onExport, onCompare, onClear }: SelectionBarProps) {
+  return (
+    <div className="flex items-center gap-2 px-4 py-3 border-t border-cyan-500/20 bg-cyan-500/5">
+      <CheckSquare size={14} className="text-cyan-400" />
+      <span className="flex-1 text-xs text-cyan-400/80 font-mono uppercase tracking-wider">{count} SELECTED</span>
+      <button
+        onClick={onExport}
+        className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-cyan-500/20 text-cyan-400 text-xs font-bold uppercase tracking-wider hover:bg-cyan-500/30 transition-colors"
+      >
+        <Archive size={12} /> Export
+      </button>
+      {count === 2 && (
+        <button
+          onClick={onCompare}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-purple-500/20 text-purple-300 text-xs font-bold uppercase tracking-wider hover:bg-purple-500/30 transition-colors"
+          title="Compare the two selected sessions side by side"
+        >
+          <GitCompare size={12} /> Compare
+        </button>
+      )}
+      <button
+        onClick={onClear}
+        className="p-1.5 text-white/40 hover:text-white/70 transition-colors"
+        title="Clear selection"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
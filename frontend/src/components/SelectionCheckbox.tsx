@@ -0,0 +1,25 @@
+import { CheckSquare, Square } from 'lucide-react';
+
+interface SelectionCheckboxProps {
+  checked: boolean;
+  // Once anything is ticked every row shows its box, otherwise only on hover
+  selecting: boolean;
+  onToggle: () => void;
+}
+
+// Tick box inside a list row's button; clicking it does not open the row
+export function SelectionCheckbox({ checked, selecting, onToggle }: SelectionCheckboxProps) {
+  return (
+    <span
+      role="checkbox"
+      aria-checked={checked}
+      onClick={(e) => { e.stopPropagation(); onToggle(); }}
+      className={`shrink-0 transition-opacity ${checked
+        ? 'text-cyan-400'
+        : `text-white/30 hover:text-cyan-400 ${selecting ? '' : 'opacity-0 group-hover:opacity-100'}`}`}
+      title="Select for bulk export or comparison"
+    >
+      {checked ? <CheckSquare size={14} /> : <Square size={14} />}
+    </span>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { GitCommit, ChevronDown, ChevronRight, Link2, ArrowUpRight } from 'lucide-react';
+
+interface LinkedCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: string;
+  subject: string;
+  filesChanged: number;
+  insertions: number;
+  deletions: number;
+  matchedBy: Array<'time' | 'bash'>;
+  messageIndex?: number;
+}
+
+export interface SessionCommitList {
+  available: boolean;
+  reason?: string;
+  repo?: string;
+  commits: LinkedCommit[];
+}
+
+interface SessionCommitsProps {
+  commits: SessionCommitList;
+  onLoadDiff: (hash: string) => Promise<{ diff: string; truncated: boolean }>;
+  onJumpTo: (messageIndex: number) => void;
+  onCopyLink: (messageIndex?: number) => void;
+}
+
+const MATCH_LABELS: Record<LinkedCommit['matchedBy'][number], { label: string; title: string }> = {
+  time: { label: 'during', title: 'Committed while the session ran' },
+  bash: { label: 'git commit', title: 'Made by a git commit call in the session' },
+};
+
+const diffLineClass = (line: string) => {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-white/50';
+  if (line.startsWith('+')) return 'text-emerald-300 bg-emerald-500/10';
+  if (line.startsWith('-')) return 'text-red-300 bg-red-500/10';
+  if (line.startsWith('@@')) return 'text-cyan-400/80';
+  if (line.startsWith('diff --git')) return 'text-purple-300 font-bold mt-3 first:mt-0';
+  return 'text-white/60';
+};
+
+export function SessionCommits({ commits, onLoadDiff, onJumpTo, onCopyLink }: SessionCommitsProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<Record<string, { diff: string; truncated: boolean } | { error: string }>>({});
+
+  const toggle = async (hash: string) => {
+    if (expanded === hash) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(hash);
+    if (diffs[hash]) return;
+    try {
+      const diff = await onLoadDiff(hash);
+      setDiffs(prev => ({ ...prev, [hash]: diff }));
+    } catch (error) {
+      setDiffs(prev => ({ ...prev, [hash]: { error: (error as Error).message } }));
+    }
+  };
+
+  if (!commits.available || commits.commits.length === 0) return null;
+
+  return (
+    <div className="bg-white/5 rounded-xl border border-white/10 p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <GitCommit size={14} className="text-cyan-400" />
+        <span className="text-xs font-bold text-white/70 uppercase tracking-wider">Commits</span>
+        <span className="text-[10px] text-white/30 font-mono truncate" title={commits.repo}>{commits.repo}</span>
+      </div>
+
+      <div className="space-y-1">
+        {commits.commits.map(commit => {
+          const diff = diffs[commit.hash];
+          return (
+            <div key={commit.hash} className="rounded-lg border border-white/5 bg-black/20">
+              <div className="flex items-center gap-2 px-3 py-2 text-xs">
+                <button onClick={() => toggle(commit.hash)} className="flex items-center gap-2 flex-1 min-w-0 text-left group">
+                  {expanded === commit.hash ? <ChevronDown size={12} className="text-white/40" /> : <ChevronRight size={12} className="text-white/40" />}
+                  <span className="font-mono text-cyan-400">{commit.shortHash}</span>
+                  <span className="flex-1 truncate text-white/80 group-hover:text-cyan-300">{commit.subject}</span>
+                </button>
+                {commit.matchedBy.map(match => (
+                  <span
+                    key={match}
+                    title={MATCH_LABELS[match].title}
+                    className="text-[10px] px-1.5 py-0.5 rounded bg-purple-500/15 text-purple-300 border border-purple-500/30"
+                  >
+                    {MATCH_LABELS[match].label}
+                  </span>
+                ))}
+                <span className="font-mono text-[10px] text-white/40" title={`${commit.filesChanged} files changed`}>
+                  <span className="text-emerald-400">+{commit.insertions}</span> <span className="text-red-400">-{commit.deletions}</span>
+                </span>
+                {commit.messageIndex !== undefined && (
+                  <button
+                    onClick={() => onJumpTo(commit.messageIndex!)}
+                    className="flex items-center gap-0.5 text-[10px] text-white/40 hover:text-cyan-400"
+                    title="Jump to the git commit call"
+                  >
+                    #{commit.messageIndex + 1} <ArrowUpRight size={10} />
+                  </button>
+                )}
+                <button
+                  onClick={() => onCopyLink(commit.messageIndex)}
+                  className="text-white/30 hover:text-cyan-400"
+                  title="Copy link to this session"
+                >
+                  <Link2 size={12} />
+                </button>
+              </div>
+
+              {expanded === commit.hash && (
+                <div className="border-t border-white/5 px-3 py-2">
+                  <p className="text-[10px] text-white/40 mb-2">
+                    {commit.author} · {new Date(commit.date).toLocaleString()} · {commit.filesChanged} file{commit.filesChanged === 1 ? '' : 's'}
+                  </p>
+                  {!diff ? (
+                    <p className="text-xs text-white/30 italic">Loading diff...</p>
+                  ) : 'error' in diff ? (
+                    <p className="text-xs text-red-400">{diff.error}</p>
+                  ) : (
+                    <pre className="text-[11px] font-mono leading-relaxed max-h-96 overflow-auto">
+                      {diff.diff.split('\n').map((line, i) => (
+                        <div key={i} className={`px-1 whitespace-pre ${diffLineClass(line)}`}>{line || ' '}</div>
+                      ))}
+                      {diff.truncated && <div className="px-1 text-white/30 italic">Diff truncated</div>}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
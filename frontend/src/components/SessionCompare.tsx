@@ -0,0 +1,160 @@
+import { GitCompare, X, ArrowUpRight } from 'lucide-react';
+
+interface DiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+interface Turn {
+  promptIndex: number | null;
+  prompt: string;
+  answer: string;
+  tools: string[];
+  start: number;
+  end: number;
+}
+
+interface TurnPair {
+  left: Turn | null;
+  right: Turn | null;
+  similarity: number;
+  answerDiff: DiffOp[];
+  toolDiff: DiffOp[];
+}
+
+interface ComparedSession {
+  id: string;
+  project: string;
+  summary?: string;
+  createdAt: string;
+  messageCount: number;
+}
+
+export interface SessionComparison {
+  left: ComparedSession;
+  right: ComparedSession;
+  pairs: TurnPair[];
+}
+
+interface SessionCompareProps {
+  comparison: SessionComparison;
+  onOpen: (project: string, sessionId: string, messageIndex?: number) => void;
+  onClose: () => void;
+}
+
+type Side = 'left' | 'right';
+
+// Each column shows the text both sides share plus its own side's changes
+const DiffText = ({ ops, side }: { ops: DiffOp[]; side: Side }) => (
+  <>
+    {ops.map((op, i) => op.type === 'equal' ? (
+      <span key={i}>{op.text}</span>
+    ) : op.type === 'delete' && side === 'left' ? (
+      <span key={i} className="bg-red-500/20 text-red-300 rounded-sm">{op.text}</span>
+    ) : op.type === 'insert' && side === 'right' ? (
+      <span key={i} className="bg-emerald-500/20 text-emerald-300 rounded-sm">{op.text}</span>
+    ) : null)}
+  </>
+);
+
+const ToolSequence = ({ ops, side }: { ops: DiffOp[]; side: Side }) => {
+  const own = ops.filter(op => op.type === 'equal' || op.type === (side === 'left' ? 'delete' : 'insert'));
+  if (own.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1 mt-3">
+      {own.map((op, i) => (
+        <span
+          key={i}
+          className={`text-[10px] font-mono px-1.5 py-0.5 rounded border ${
+            op.type === 'equal'
+              ? 'bg-purple-500/10 text-purple-300/70 border-purple-500/20'
+              : side === 'left'
+                ? 'bg-red-500/15 text-red-300 border-red-500/30'
+                : 'bg-emerald-500/15 text-emerald-300 border-emerald-500/30'
+          }`}
+        >
+          {op.text}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export function SessionCompare({ comparison, onOpen, onClose }: SessionCompareProps) {
+  const { left, right, pairs } = comparison;
+  const changed = pairs.filter(p => p.answerDiff.some(op => op.type !== 'equal') || p.toolDiff.some(op => op.type !== 'equal')).length;
+
+  const sessionHeader = (session: ComparedSession, side: Side) => (
+    <button
+      onClick={() => onOpen(session.project, session.id)}
+      className="flex-1 min-w-0 text-left px-4 py-3 rounded-xl bg-white/5 border border-white/10 hover:border-cyan-500/30 transition-colors group"
+    >
+      <span className={`text-[10px] font-bold uppercase tracking-wider ${side === 'left' ? 'text-red-400/80' : 'text-emerald-400/80'}`}>
+        {side === 'left' ? 'A' : 'B'} · {new Date(session.createdAt).toLocaleString()} · {session.messageCount} msg
+      </span>
+      <p className="text-sm text-white/90 truncate group-hover:text-cyan-400 transition-colors">{session.summary || session.id}</p>
+    </button>
+  );
+
+  const column = (pair: TurnPair, side: Side, session: ComparedSession) => {
+    const turn = pair[side];
+    if (!turn) {
+      return <div className="flex-1 min-w-0 rounded-xl border border-dashed border-white/10 p-4 text-xs text-white/30 italic">No matching prompt</div>;
+    }
+    return (
+      <div className="flex-1 min-w-0 rounded-xl bg-white/5 border border-white/10 p-4">
+        {turn.promptIndex !== null && (
+          <button
+            onClick={() => onOpen(session.project, session.id, turn.promptIndex!)}
+            className="w-full flex items-start gap-2 text-left text-sm text-blue-300 hover:text-cyan-300 mb-3 group"
+          >
+            <span className="flex-1 line-clamp-3 whitespace-pre-wrap">{turn.prompt}</span>
+            <ArrowUpRight size={14} className="shrink-0 opacity-0 group-hover:opacity-100" />
+          </button>
+        )}
+        <div className="text-xs text-white/70 whitespace-pre-wrap break-words leading-relaxed max-h-96 overflow-y-auto">
+          {pair.left && pair.right
+            ? <DiffText ops={pair.answerDiff} side={side} />
+            : turn.answer || <span className="text-white/30 italic">No answer text</span>}
+        </div>
+        <ToolSequence ops={pair.toolDiff} side={side} />
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="px-8 py-5 border-b border-white/5 bg-gradient-to-r from-white/5 to-transparent">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold text-white font-cyber flex items-center gap-2">
+            <GitCompare size={18} className="text-cyan-400" /> COMPARE SESSIONS
+          </h2>
+          <div className="flex items-center gap-4">
+            <span className="text-xs text-white/40 font-mono">{pairs.length} turns · {changed} differ</span>
+            <button onClick={onClose} className="text-white/50 hover:text-white" title="Close comparison">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+        <div className="flex gap-4">
+          {sessionHeader(left, 'left')}
+          {sessionHeader(right, 'right')}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-8 py-6 space-y-4">
+        {pairs.map((pair, i) => (
+          <div key={i}>
+            {pair.left && pair.right && pair.similarity < 1 && (
+              <p className="text-[10px] text-white/30 font-mono mb-1">prompts {Math.round(pair.similarity * 100)}% alike</p>
+            )}
+            <div className="flex gap-4">
+              {column(pair, 'left', left)}
+              {column(pair, 'right', right)}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
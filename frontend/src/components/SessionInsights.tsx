@@ -1,4 +1,5 @@
 import { useMemo } from 'react';
+import { describeParallelCalls } from './SessionTimeline';
 import { Clock, MessageSquare, Terminal, User, Zap, FileCode, GitBranch, Search, Edit3, FolderOpen } from 'lucide-react';
 
 interface HistoryMessage {
@@ -7,6 +8,8 @@ interface HistoryMessage {
   timestamp?: string;
   toolName?: string;
   toolInput?: string;
+  turnId?: string;
+  isThinking?: boolean;
 }
 
 interface SessionInsightsProps {
@@ -17,7 +20,7 @@ interface SessionInsightsProps {
 export function SessionInsights({ messages }: SessionInsightsProps) {
   const insights = useMemo(() => {
     const userMessages = messages.filter(m => m.role === 'user');
-    const assistantMessages = messages.filter(m => m.role === 'assistant');
+    const assistantMessages = messages.filter(m => m.role === 'assistant' && !m.isThinking);
     const toolMessages = messages.filter(m => m.role === 'tool');
 
     // Count tools by name
@@ -27,6 +30,12 @@ export function SessionInsights({ messages }: SessionInsightsProps) {
       toolCounts[name] = (toolCounts[name] || 0) + 1;
     });
 
+    // Tool calls issued together in one assistant turn, e.g. "3 parallel Reads"
+    const parallelCounts: Record<string, number> = {};
+    describeParallelCalls(messages).forEach(label => {
+      parallelCounts[label] = (parallelCounts[label] || 0) + 1;
+    });
+
     // Calculate duration if timestamps available
     let duration = '';
     if (messages.length > 0) {
@@ -56,6 +65,7 @@ export function SessionInsights({ messages }: SessionInsightsProps) {
       assistantCount: assistantMessages.length,
       toolCount: toolMessages.length,
       toolCounts,
+      parallelCounts,
       duration,
       complexity,
       contentSize
@@ -76,6 +86,10 @@ export function SessionInsights({ messages }: SessionInsightsProps) {
     .sort((a, b) => b[1] - a[1])
     .slice(0, 5);
 
+  const parallelCalls = Object.entries(insights.parallelCounts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5);
+
   return (
     <div className="bg-white/5 rounded-xl border border-white/10 p-4">
       <div className="flex items-center gap-2 mb-3">
@@ -145,6 +159,24 @@ export function SessionInsights({ messages }: SessionInsightsProps) {
           </div>
         </div>
       )}
+
+      {/* Parallel Tool Calls */}
+      {parallelCalls.length > 0 && (
+        <div className="mt-3">
+          <span className="text-[10px] text-white/40 uppercase mb-2 block">Parallel Calls</span>
+          <div className="flex flex-wrap gap-1">
+            {parallelCalls.map(([label, count]) => (
+              <div
+                key={label}
+                className="flex items-center gap-1 px-2 py-1 bg-cyan-500/10 rounded-lg border border-cyan-500/20 text-[10px]"
+              >
+                <span className="text-white/70">{label}</span>
+                {count > 1 && <span className="text-cyan-400 font-mono">×{count}</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward, X, FileCode, Folder } from 'lucide-react';
+import { SessionTimeline } from './SessionTimeline';
+
+interface HistoryMessage {
+  role: 'user' | 'assistant' | 'tool';
+  content: string;
+  timestamp?: string;
+  toolName?: string;
+  toolInput?: string;
+  turnId?: string;
+}
+
+interface ReplayedFile {
+  content: string;
+  // False when the file existed before the session: only the edited fragments are known
+  complete: boolean;
+  lastChanged: number;
+  changes: number;
+}
+
+interface SessionReplayProps {
+  messages: HistoryMessage[];
+  // Last revealed message
+  index: number;
+  onSeek: (index: number) => void;
+  onClose: () => void;
+  cwd?: string;
+}
+
+const SPEEDS = [1, 2, 5, 10, 50];
+
+// Idle gaps (lunch, waiting on a build) are cut down so playback never stalls
+const MAX_GAP_MS = 30_000;
+const MIN_STEP_MS = 150;
+// Pace for messages without timestamps
+const DEFAULT_STEP_MS = 1000;
+
+const FRAGMENT_SEPARATOR = '\n⋯\n';
+
+interface FileEdit {
+  old_string?: unknown;
+  new_string?: unknown;
+  replace_all?: unknown;
+}
+
+function applyEdit(file: ReplayedFile, edit: FileEdit) {
+  const oldString = typeof edit.old_string === 'string' ? edit.old_string : '';
+  const newString = typeof edit.new_string === 'string' ? edit.new_string : '';
+  if (oldString && file.content.includes(oldString)) {
+    file.content = edit.replace_all === true
+      ? file.content.split(oldString).join(newString)
+      : file.content.replace(oldString, () => newString);
+  } else {
+    // The edited region was never seen; keep what was written as a fragment
+    file.content = file.content ? `${file.content}${FRAGMENT_SEPARATOR}${newString}` : newString;
+    file.complete = false;
+  }
+}
+
+// Files as they stood after message `upTo`, rebuilt from Write, Edit and MultiEdit inputs
+function replayFiles(messages: HistoryMessage[], upTo: number): Map<string, ReplayedFile> {
+  const files = new Map<string, ReplayedFile>();
+  messages.slice(0, upTo + 1).forEach((message, index) => {
+    if (message.role !== 'tool' || !message.toolInput) return;
+    if (message.toolName !== 'Write' && message.toolName !== 'Edit' && message.toolName !== 'MultiEdit') return;
+    let input;
+    try {
+      input = JSON.parse(message.toolInput);
+    } catch {
+      return;
+    }
+    if (typeof input?.file_path !== 'string') return;
+
+    const file = files.get(input.file_path) ?? { content: '', complete: false, lastChanged: index, changes: 0 };
+    if (message.toolName === 'Write') {
+      file.content = typeof input.content === 'string' ? input.content : '';
+      file.complete = true;
+    } else if (message.toolName === 'Edit') {
+      applyEdit(file, input);
+    } else if (Array.isArray(input.edits)) {
+      input.edits.forEach((edit: FileEdit) => applyEdit(file, edit));
+    }
+    file.lastChanged = index;
+    file.changes++;
+    files.set(input.file_path, file);
+  });
+  return files;
+}
+
+// Delay before revealing the message after `index`, at 1x
+function stepDelay(messages: HistoryMessage[], index: number): number {
+  const current = messages[index]?.timestamp;
+  const next = messages[index + 1]?.timestamp;
+  if (!current || !next) return DEFAULT_STEP_MS;
+  const gap = Date.parse(next) - Date.parse(current);
+  return isNaN(gap) ? DEFAULT_STEP_MS : Math.min(Math.max(gap, 0), MAX_GAP_MS);
+}
+
+const relativePath = (path: string, cwd?: string) =>
+  cwd && path.startsWith(`${cwd}/`) ? path.slice(cwd.length + 1) : path;
+
+export function SessionReplay({ messages, index, onSeek, onClose, cwd }: SessionReplayProps) {
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(() => {
+    const saved = parseInt(localStorage.getItem('deja-claude-replay-speed') || '');
+    return SPEEDS.includes(saved) ? saved : 5;
+  });
+  // Null follows whichever file changed last
+  const [pinnedFile, setPinnedFile] = useState<string | null>(null);
+
+  const atEnd = index >= messages.length - 1;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (atEnd) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onSeek(index + 1), Math.max(stepDelay(messages, index) / speed, MIN_STEP_MS));
+    return () => clearTimeout(timer);
+  }, [playing, index, speed, messages, atEnd]);
+
+  const changeSpeed = (next: number) => {
+    setSpeed(next);
+    localStorage.setItem('deja-claude-replay-speed', String(next));
+  };
+
+  const togglePlaying = () => {
+    // Playing from the end starts over
+    if (!playing && atEnd) onSeek(0);
+    setPlaying(!playing);
+  };
+
+  const files = useMemo(() => replayFiles(messages, index), [messages, index]);
+
+  const paths = useMemo(() => [...files.keys()].sort(), [files]);
+
+  const latestFile = useMemo(() => {
+    let latest: string | null = null;
+    files.forEach((file, path) => {
+      if (!latest || file.lastChanged > files.get(latest)!.lastChanged) latest = path;
+    });
+    return latest;
+  }, [files]);
+
+  const shownPath = pinnedFile && files.has(pinnedFile) ? pinnedFile : latestFile;
+  const shownFile = shownPath ? files.get(shownPath)! : null;
+
+  const timestamp = messages[index]?.timestamp;
+
+  return (
+    <div className="bg-white/5 rounded-xl border border-cyan-500/20 p-4">
+      <div className="flex items-center gap-3 mb-3">
+        <button
+          onClick={() => onSeek(Math.max(index - 1, 0))}
+          disabled={index === 0}
+          className="p-1.5 rounded-lg text-white/50 hover:text-cyan-400 disabled:opacity-30"
+          title="Previous message"
+        >
+          <SkipBack size={14} />
+        </button>
+        <button
+          onClick={togglePlaying}
+          className="p-2 rounded-lg bg-cyan-500/20 text-cyan-400 hover:bg-cyan-500/30"
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? <Pause size={16} /> : <Play size={16} />}
+        </button>
+        <button
+          onClick={() => onSeek(Math.min(index + 1, messages.length - 1))}
+          disabled={atEnd}
+          className="p-1.5 rounded-lg text-white/50 hover:text-cyan-400 disabled:opacity-30"
+          title="Next message"
+        >
+          <SkipForward size={14} />
+        </button>
+
+        <input
+          type="range"
+          min={0}
+          max={Math.max(messages.length - 1, 0)}
+          value={index}
+          onChange={e => onSeek(Number(e.target.value))}
+          className="flex-1 accent-cyan-500"
+        />
+
+        <span className="text-[10px] text-white/50 font-mono whitespace-nowrap">
+          {index + 1}/{messages.length}
+          {timestamp && ` · ${new Date(timestamp).toLocaleTimeString()}`}
+        </span>
+
+        <div className="flex items-center gap-0.5">
+          {SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => changeSpeed(s)}
+              className={`px-1.5 py-0.5 rounded text-[10px] font-mono ${
+                speed === s ? 'bg-cyan-500/20 text-cyan-400' : 'text-white/40 hover:text-white/70'
+              }`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+
+        <button onClick={onClose} className="text-white/40 hover:text-white" title="Exit replay">
+          <X size={16} />
+        </button>
+      </div>
+
+      <SessionTimeline messages={messages} onJumpTo={onSeek} activeIndex={index} />
+
+      {paths.length > 0 && (
+        <div className="mt-4 grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-3">
+          {/* Virtual file tree */}
+          <div className="max-h-72 overflow-y-auto rounded-lg bg-black/20 border border-white/5 p-2 space-y-0.5">
+            {paths.map((path, i) => {
+              const relative = relativePath(path, cwd);
+              const dir = relative.includes('/') ? relative.slice(0, relative.lastIndexOf('/')) : '';
+              const prevRelative = i > 0 ? relativePath(paths[i - 1], cwd) : '';
+              const prevDir = prevRelative.includes('/') ? prevRelative.slice(0, prevRelative.lastIndexOf('/')) : '';
+              const file = files.get(path)!;
+              return (
+                <div key={path}>
+                  {dir && dir !== prevDir && (
+                    <div className="flex items-center gap-1 text-[10px] text-white/40 font-mono pt-1">
+                      <Folder size={10} /> {dir}/
+                    </div>
+                  )}
+                  <button
+                    onClick={() => setPinnedFile(path === pinnedFile ? null : path)}
+                    className={`w-full flex items-center gap-1.5 text-left text-[11px] font-mono rounded px-1.5 py-0.5 ${dir ? 'pl-4' : ''} ${
+                      path === shownPath ? 'bg-cyan-500/15 text-cyan-300' : 'text-white/60 hover:bg-white/5'
+                    } ${file.lastChanged === index ? 'animate-pulse' : ''}`}
+                    title={path}
+                  >
+                    <FileCode size={10} className="shrink-0" />
+                    <span className="truncate">{relative.slice(dir ? dir.length + 1 : 0)}</span>
+                    <span className="ml-auto text-[9px] text-white/30">{file.changes}</span>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* File contents at this step */}
+          {shownFile && shownPath && (
+            <div className="min-w-0 rounded-lg bg-black/30 border border-white/5 overflow-hidden">
+              <div className="flex items-center justify-between px-3 py-1.5 border-b border-white/5 text-[10px] font-mono text-white/50">
+                <span className="truncate">{relativePath(shownPath, cwd)}</span>
+                <span>{pinnedFile ? 'pinned' : 'following'} · changed at #{shownFile.lastChanged + 1}</span>
+              </div>
+              {!shownFile.complete && (
+                <p className="px-3 py-1 text-[10px] text-amber-400/80 bg-amber-500/5">
+                  Existed before the session — only the edited fragments are shown
+                </p>
+              )}
+              <pre className="max-h-64 overflow-auto p-3 text-[11px] font-mono text-white/80 leading-relaxed whitespace-pre">
+                {shownFile.content || <span className="text-white/30 italic">Empty file</span>}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,32 @@ interface HistoryMessage {
   timestamp?: string;
   toolName?: string;
   toolInput?: string;
+  turnId?: string;
+}
+
+const pluralize = (name: string) => /(s|sh|ch|x)$/i.test(name) ? `${name}es` : `${name}s`;
+
+// "3 parallel Reads" for each run of tool calls issued in the same assistant turn
+export function describeParallelCalls(calls: Pick<HistoryMessage, 'role' | 'toolName' | 'turnId'>[]): string[] {
+  const batches: typeof calls[] = [];
+  calls.forEach((call, idx) => {
+    if (call.role !== 'tool') return;
+    const prev = calls[idx - 1];
+    if (prev?.role === 'tool' && call.turnId && call.turnId === prev.turnId) {
+      batches[batches.length - 1].push(call);
+    } else {
+      batches.push([call]);
+    }
+  });
+
+  return batches
+    .filter(batch => batch.length > 1)
+    .map(batch => {
+      const names = [...new Set(batch.map(c => c.toolName || 'Unknown'))];
+      return names.length === 1
+        ? `${batch.length} parallel ${pluralize(names[0])}`
+        : `${batch.length} parallel calls (${names.join(', ')})`;
+    });
 }
 
 interface SessionTimelineProps {
@@ -24,6 +50,7 @@ export function SessionTimeline({ messages, onJumpTo, activeIndex, highlightedIn
       startIndex: number;
       count: number;
       toolNames?: string[];
+      parallel?: string[];
     }> = [];
 
     let currentType: string | null = null;
@@ -38,7 +65,8 @@ export function SessionTimeline({ messages, onJumpTo, activeIndex, highlightedIn
             type: currentType as 'user' | 'assistant' | 'tool',
             startIndex: currentStart,
             count: currentCount,
-            toolNames: currentType === 'tool' ? [...currentTools] : undefined
+            toolNames: currentType === 'tool' ? [...currentTools] : undefined,
+            parallel: currentType === 'tool' ? describeParallelCalls(messages.slice(currentStart, idx)) : undefined
           });
         }
         currentType = msg.role;
@@ -58,7 +86,8 @@ export function SessionTimeline({ messages, onJumpTo, activeIndex, highlightedIn
         type: currentType as 'user' | 'assistant' | 'tool',
         startIndex: currentStart,
         count: currentCount,
-        toolNames: currentType === 'tool' ? currentTools : undefined
+        toolNames: currentType === 'tool' ? currentTools : undefined,
+        parallel: currentType === 'tool' ? describeParallelCalls(messages.slice(currentStart)) : undefined
       });
     }
 
@@ -123,10 +152,11 @@ export function SessionTimeline({ messages, onJumpTo, activeIndex, highlightedIn
                 ${isActive ? 'ring-2 ring-white/50 z-10' : ''}
                 ${isHighlighted ? 'ring-2 ring-cyan-400 z-10 animate-pulse' : ''}`}
               style={{ left: `${left}%`, width: `${Math.max(width, 1)}%` }}
-              title={`${seg.type}: ${seg.count} message${seg.count > 1 ? 's' : ''}${seg.toolNames ? ` (${seg.toolNames.join(', ')})` : ''}`}
+              title={`${seg.type}: ${seg.count} message${seg.count > 1 ? 's' : ''}${seg.toolNames ? ` (${seg.toolNames.join(', ')})` : ''}${seg.parallel?.length ? `\n${seg.parallel.join('\n')}` : ''}`}
             >
-              <span className="absolute inset-0 flex items-center justify-center text-white/80">
+              <span className="absolute inset-0 flex items-center justify-center gap-0.5 text-white/80">
                 {width > 8 && getIcon(seg.type)}
+                {width > 8 && !!seg.parallel?.length && <span className="text-[8px] font-mono">‖</span>}
               </span>
             </button>
           );
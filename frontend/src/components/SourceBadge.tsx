@@ -0,0 +1,6 @@
+// Where a transcript came from; nothing is shown for this machine's own history
+export const SourceBadge = ({ label }: { label: string | null }) => label ? (
+  <span className="shrink-0 text-[10px] font-mono px-1.5 py-0.5 rounded bg-emerald-500/10 text-emerald-400/80 border border-emerald-500/20">
+    {label}
+  </span>
+) : null;
@@ -0,0 +1,179 @@
+import { useMemo, useState } from 'react';
+import { Coins, Cpu, FolderOpen, MessageSquare, TrendingUp } from 'lucide-react';
+
+interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  cost: number;
+}
+
+export interface UsageStats {
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byProject: Array<UsageTotals & { project: string }>;
+  byModel: Array<UsageTotals & { model: string; priced: boolean }>;
+  topSessions: Array<UsageTotals & { id: string; project: string; summary: string; createdAt: string }>;
+}
+
+interface UsageAnalyticsProps {
+  stats: UsageStats;
+  days?: number;
+  onSessionSelect: (session: { id: string; project: string }) => void;
+}
+
+const formatCost = (cost: number) => cost >= 100 ? `$${cost.toFixed(0)}` : cost >= 0.01 || cost === 0 ? `$${cost.toFixed(2)}` : '<$0.01';
+
+const formatTokens = (n: number) => n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}K` : `${n}`;
+
+const totalTokens = (t: UsageTotals) => t.inputTokens + t.outputTokens + t.cacheCreationTokens + t.cacheReadTokens;
+
+export function UsageAnalytics({ stats, days = 30, onSessionSelect }: UsageAnalyticsProps) {
+  const [metric, setMetric] = useState<'cost' | 'tokens'>('cost');
+
+  // One bar per day for the last `days` days, including days with no usage
+  const daily = useMemo(() => {
+    const byDay = new Map(stats.byDay.map(d => [d.day, d]));
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const result: Array<{ day: string; value: number; totals?: UsageTotals }> = [];
+
+    for (let i = days - 1; i >= 0; i--) {
+      const date = new Date();
+      date.setDate(date.getDate() - i);
+      const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+      const totals = byDay.get(day);
+      result.push({ day, totals, value: totals ? (metric === 'cost' ? totals.cost : totalTokens(totals)) : 0 });
+    }
+    return result;
+  }, [stats, days, metric]);
+
+  const maxDaily = Math.max(...daily.map(d => d.value), Number.EPSILON);
+  const periodCost = daily.reduce((sum, d) => sum + (d.totals?.cost || 0), 0);
+  const maxProjectCost = Math.max(...stats.byProject.map(p => p.cost), Number.EPSILON);
+  const unpriced = stats.byModel.filter(m => !m.priced);
+
+  return (
+    <div className="space-y-4">
+      {/* Totals */}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="p-3 bg-emerald-500/10 rounded-xl border border-emerald-500/20">
+          <div className="flex items-center gap-1.5 text-[10px] text-white/40 uppercase tracking-wider">
+            <Coins size={10} className="text-emerald-400" /> Total spend
+          </div>
+          <div className="text-xl font-bold text-white font-mono mt-1">{formatCost(stats.totals.cost)}</div>
+          <div className="text-[10px] text-white/40 font-mono">{formatCost(periodCost)} last {days}d</div>
+        </div>
+        <div className="p-3 bg-purple-500/10 rounded-xl border border-purple-500/20">
+          <div className="flex items-center gap-1.5 text-[10px] text-white/40 uppercase tracking-wider">
+            <TrendingUp size={10} className="text-purple-400" /> Tokens
+          </div>
+          <div className="text-xl font-bold text-white font-mono mt-1">{formatTokens(totalTokens(stats.totals))}</div>
+          <div className="text-[10px] text-white/40 font-mono">
+            {formatTokens(stats.totals.inputTokens)} in · {formatTokens(stats.totals.outputTokens)} out · {formatTokens(stats.totals.cacheReadTokens)} cached
+          </div>
+        </div>
+      </div>
+
+      {/* Daily chart */}
+      <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-[10px] text-white/40 uppercase tracking-wider font-mono">Daily {metric}</span>
+          <div className="flex gap-1 p-0.5 bg-white/5 rounded-lg border border-white/10">
+            {(['cost', 'tokens'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                className={`px-2 py-0.5 rounded text-[10px] font-mono uppercase tracking-wider transition-all
+                  ${metric === m ? 'bg-cyan-500/20 text-cyan-400' : 'text-white/40 hover:text-white/70'}`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-end gap-px h-24">
+          {daily.map(d => (
+            <div
+              key={d.day}
+              className="flex-1 h-full flex items-end group"
+              title={`${d.day}: ${d.totals ? `${formatCost(d.totals.cost)} · ${formatTokens(totalTokens(d.totals))} tokens` : 'no usage'}`}
+            >
+              <div
+                className={`w-full rounded-t-sm transition-all ${d.value > 0 ? 'bg-gradient-to-t from-cyan-600 to-cyan-400 group-hover:from-cyan-500 group-hover:to-cyan-300' : 'bg-white/5'}`}
+                style={{ height: d.value > 0 ? `${Math.max((d.value / maxDaily) * 100, 3)}%` : '2px' }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between mt-1 text-[9px] text-white/30 font-mono">
+          <span>{daily[0]?.day.slice(5)}</span>
+          <span>today</span>
+        </div>
+      </div>
+
+      {/* By model */}
+      {stats.byModel.length > 0 && (
+        <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+          <span className="text-[10px] text-white/40 uppercase tracking-wider font-mono mb-2 block">By model</span>
+          <div className="space-y-1.5">
+            {stats.byModel.map(m => (
+              <div key={m.model} className="flex items-center gap-2 text-xs">
+                <Cpu size={11} className="text-orange-400/60 shrink-0" />
+                <span className="flex-1 text-white/70 truncate font-mono">{m.model}</span>
+                <span className="text-white/40 font-mono">{formatTokens(totalTokens(m))}</span>
+                <span className="w-14 text-right text-emerald-400 font-mono">{m.priced ? formatCost(m.cost) : '—'}</span>
+              </div>
+            ))}
+          </div>
+          {unpriced.length > 0 && (
+            <p className="mt-2 text-[10px] text-amber-400/70">
+              No price for {unpriced.map(m => m.model).join(', ')} — add it to ~/.deja-claude/prices.json
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* By project */}
+      {stats.byProject.length > 0 && (
+        <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+          <span className="text-[10px] text-white/40 uppercase tracking-wider font-mono mb-2 block">By project</span>
+          <div className="space-y-2">
+            {stats.byProject.slice(0, 6).map(p => (
+              <div key={p.project}>
+                <div className="flex items-center gap-2 text-xs mb-1">
+                  <FolderOpen size={11} className="text-orange-400/60 shrink-0" />
+                  <span className="flex-1 text-white/70 truncate font-mono">{p.project}</span>
+                  <span className="text-emerald-400 font-mono">{formatCost(p.cost)}</span>
+                </div>
+                <div className="h-1 bg-white/5 rounded-full overflow-hidden">
+                  <div className="h-full bg-gradient-to-r from-orange-500 to-amber-400" style={{ width: `${(p.cost / maxProjectCost) * 100}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Top sessions */}
+      {stats.topSessions.length > 0 && (
+        <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+          <span className="text-[10px] text-white/40 uppercase tracking-wider font-mono mb-2 block">Top sessions by spend</span>
+          <div className="space-y-1">
+            {stats.topSessions.map(s => (
+              <button
+                key={`${s.project}/${s.id}`}
+                onClick={() => onSessionSelect(s)}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left text-xs hover:bg-white/10 transition-colors"
+              >
+                <MessageSquare size={11} className="text-cyan-400/60 shrink-0" />
+                <span className="flex-1 text-white/70 truncate">{s.summary || 'Session'}</span>
+                <span className="text-emerald-400 font-mono">{formatCost(s.cost)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,3 +3,28 @@ export { SessionTimeline } from './SessionTimeline';
 export { SessionInsights } from './SessionInsights';
 export { ActivityHeatmap } from './ActivityHeatmap';
 export { MessageFilter } from './MessageFilter';
+export { SearchSyntaxHints } from './SearchSyntaxHints';
+export { UsageAnalytics } from './UsageAnalytics';
+export { BulkExportDialog } from './BulkExportDialog';
+export { RedactionSettings } from './RedactionSettings';
+export { SessionCompare } from './SessionCompare';
+export { SessionCommits } from './SessionCommits';
+export { SessionReplay } from './SessionReplay';
+export { FileStateDialog } from './FileStateDialog';
+export { LiveTerminal } from './LiveTerminal';
+export { LiveTerminalTabs } from './LiveTerminalTabs';
+export { SourceBadge } from './SourceBadge';
+export { highlightSpans } from './Highlight';
+export { SearchBox } from './SearchBox';
+export { SearchResultsList } from './SearchResultsList';
+export { LiveSessionList } from './LiveSessionList';
+export { FileHistoryList } from './FileHistoryList';
+export { ExportMenu } from './ExportMenu';
+export { SelectionBar } from './SelectionBar';
+export { SelectionCheckbox } from './SelectionCheckbox';
+export { ImportButton } from './ImportButton';
+export type { UsageStats } from './UsageAnalytics';
+export type { SessionComparison } from './SessionCompare';
+export type { SessionCommitList } from './SessionCommits';
+export type { SessionFile, FileHistory } from './FileStateDialog';
+export type { Span } from './Highlight';
@@ -1 +1,18 @@
 export { useDebounce } from './useDebounce';
+export { useHistoryEvents, getSocketUrl } from './useHistoryEvents';
+export { useHashRoute, parseRoute, formatRoute } from './useHashRoute';
+export { useSearch, SEARCH_MODES, SEARCH_SORTS } from './useSearch';
+export { useLiveSessions } from './useLiveSessions';
+export { useFileHistory } from './useFileHistory';
+export { useExport, EXPORT_FORMATS } from './useExport';
+export { useCompare } from './useCompare';
+export { useFileStates } from './useFileStates';
+export { useReplay } from './useReplay';
+export { useImport } from './useImport';
+export { useSessionCommits } from './useSessionCommits';
+export type { HistoryEvent, ExportProgressEvent } from './useHistoryEvents';
+export type { Route, RouteView } from './useHashRoute';
+export type { SearchMode, SearchSort, SearchMatch, SearchResult } from './useSearch';
+export type { LiveSession } from './useLiveSessions';
+export type { FileAction, FileTouch } from './useFileHistory';
+export type { ExportFormat, ArchiveSelection } from './useExport';
@@ -0,0 +1,26 @@
+import { useState } from 'react';
+import { API_URL } from '../api';
+import { toast } from '../components';
+import type { SessionComparison } from '../components';
+
+// Side-by-side comparison of two sessions, aligned by prompt
+export function useCompare() {
+  const [comparison, setComparison] = useState<SessionComparison | null>(null);
+
+  const compare = async (left: { project: string; sessionId: string }, right: { project: string; sessionId: string }) => {
+    try {
+      const res = await fetch(`${API_URL}/history/compare?${new URLSearchParams({
+        left: `${left.project}/${left.sessionId}`,
+        right: `${right.project}/${right.sessionId}`,
+      })}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setComparison(data);
+    } catch (error) {
+      console.error('Compare failed:', error);
+      toast.error('Could not compare sessions');
+    }
+  };
+
+  return { comparison, compare, close: () => setComparison(null) };
+}
@@ -0,0 +1,143 @@
+import { useMemo, useState } from 'react';
+import { API_URL } from '../api';
+import { toast } from '../components';
+import type { SearchMode } from './useSearch';
+import type { ExportProgressEvent } from './useHistoryEvents';
+
+export type ExportFormat = 'md' | 'html' | 'json' | 'txt';
+
+export const EXPORT_FORMATS: Array<{ id: ExportFormat; label: string; hint: string }> = [
+  { id: 'md', label: 'Markdown', hint: 'For notes and docs' },
+  { id: 'html', label: 'HTML', hint: 'Self-contained, print to PDF' },
+  { id: 'json', label: 'JSON', hint: 'Normalized data' },
+  { id: 'txt', label: 'Plain text', hint: 'No formatting' },
+];
+
+// Sessions for a bulk export; see ArchiveSelection on the backend
+export interface ArchiveSelection {
+  sessions?: Array<{ project: string; sessionId: string }>;
+  project?: string;
+  query?: string;
+  mode?: SearchMode;
+  from?: string;
+  to?: string;
+}
+
+interface ExportOptions {
+  // Roles shown on screen; exports leave the others out
+  roles: string[];
+  thinking: boolean;
+  // Mask detected secrets
+  redact: boolean;
+}
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Exports are rendered by the backend, honouring the filters on screen
+export function useExport({ roles, thinking, redact }: ExportOptions) {
+  const [exporting, setExporting] = useState(false);
+  // Sessions ticked for bulk export, keyed `${project}:${id}`
+  const [selection, setSelection] = useState<Set<string>>(new Set());
+  const [bulkExport, setBulkExport] = useState<{ title: string; selection: ArchiveSelection } | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<{ jobId: string; done: number; total: number; current?: string } | null>(null);
+
+  const selectedSessions = useMemo(() => [...selection].map(key => {
+    // Session ids never contain ':', project directory names can
+    const idx = key.lastIndexOf(':');
+    return { project: key.slice(0, idx), sessionId: key.slice(idx + 1) };
+  }), [selection]);
+
+  // One session, with the tool messages collapsed on screen left collapsed
+  const exportSession = async (session: { project: string; id: string }, format: ExportFormat, collapsed: Set<number>) => {
+    if (exporting) return;
+    setExporting(true);
+
+    try {
+      const params = new URLSearchParams({
+        format,
+        roles: roles.join(','),
+        thinking: String(thinking),
+        redact: String(redact),
+      });
+      if (collapsed.size > 0) {
+        params.set('collapsed', [...collapsed].join(','));
+      }
+      const res = await fetch(`${API_URL}/history/projects/${encodeURIComponent(session.project)}/sessions/${encodeURIComponent(session.id)}/export?${params}`);
+      if (!res.ok) throw new Error((await res.json()).error);
+
+      download(await res.blob(), `deja-claude-${session.id.slice(0, 8)}.${format}`);
+      toast.success(`Session exported to ${EXPORT_FORMATS.find(f => f.id === format)?.label}`);
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast.error('Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const toggleSelection = (session: { project: string; id: string }) => {
+    const key = `${session.project}:${session.id}`;
+    setSelection(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const clearSelection = () => setSelection(new Set());
+
+  // Opens the bulk export dialog for the given sessions
+  const openBulkExport = (title: string, selection: ArchiveSelection) => setBulkExport({ title, selection });
+
+  const closeBulkExport = () => setBulkExport(null);
+
+  // Zip of many sessions; progress arrives over the WebSocket tagged with our jobId
+  const runBulkExport = async (format: ExportFormat) => {
+    if (!bulkExport) return;
+    const jobId = crypto.randomUUID();
+    setBulkProgress({ jobId, done: 0, total: 0 });
+
+    try {
+      const res = await fetch(`${API_URL}/history/export`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jobId,
+          format,
+          roles,
+          thinking,
+          redact,
+          selection: bulkExport.selection,
+        }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+
+      download(await res.blob(), `deja-claude-export-${new Date().toISOString().slice(0, 10)}.zip`);
+      toast.success('Archive exported');
+      setBulkExport(null);
+      if (bulkExport.selection.sessions) clearSelection();
+    } catch (error) {
+      console.error('Bulk export failed:', error);
+      toast.error(error instanceof Error && error.message ? error.message : 'Export failed');
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const handleProgress = (event: ExportProgressEvent) => {
+    setBulkProgress(prev => prev?.jobId === event.jobId ? { ...prev, done: event.done, total: event.total, current: event.current } : prev);
+  };
+
+  return {
+    exporting, exportSession,
+    selection, selectedSessions, toggleSelection, clearSelection,
+    bulkExport, bulkProgress, openBulkExport, closeBulkExport, runBulkExport, handleProgress,
+  };
+}
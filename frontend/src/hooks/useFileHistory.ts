@@ -0,0 +1,67 @@
+import { useMemo, useState } from 'react';
+import { API_URL } from '../api';
+import { toast } from '../components';
+
+export type FileAction = 'read' | 'write' | 'edit' | 'other';
+
+// One tool call on a file, from /api/history/files
+export interface FileTouch {
+  file: string;
+  action: FileAction;
+  toolName: string;
+  id: string;
+  project: string;
+  source: string;
+  summary: string;
+  messageIndex: number;
+  timestamp: string;
+}
+
+// Every session that read or changed a file. `onLoaded` runs when a new list arrives.
+export function useFileHistory(onLoaded: () => void) {
+  const [path, setPath] = useState('');
+  // Path the listed touches belong to; `path` is the input box
+  const [activePath, setActivePath] = useState('');
+  const [touches, setTouches] = useState<FileTouch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editsOnly, setEditsOnly] = useState(true);
+
+  const visibleTouches = useMemo(
+    () => editsOnly ? touches.filter(t => t.action === 'write' || t.action === 'edit') : touches,
+    [touches, editsOnly]
+  );
+
+  // Oldest first
+  const load = async (file: string) => {
+    if (!file.trim()) return;
+    setLoading(true);
+    setActivePath(file.trim());
+    try {
+      const res = await fetch(`${API_URL}/history/files?path=${encodeURIComponent(file.trim())}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setTouches(data);
+      onLoaded();
+    } catch (error) {
+      console.error('Failed to load file history:', error);
+      toast.error('Could not load file history');
+      setTouches([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fill in the input box and load its history
+  const show = (file: string) => {
+    setPath(file);
+    return load(file);
+  };
+
+  // Restore the list from a link, refetching only when the file changed
+  const restore = async (file: string) => {
+    setPath(file);
+    if (file !== activePath) await load(file);
+  };
+
+  return { path, setPath, activePath, visibleTouches, loading, editsOnly, setEditsOnly, load, show, restore };
+}
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import { API_URL } from '../api';
+import { toast } from '../components';
+import type { FileHistory, SessionFile } from '../components';
+
+interface SessionRef {
+  project: string;
+  id: string;
+}
+
+const sessionUrl = (session: SessionRef) =>
+  `${API_URL}/history/projects/${encodeURIComponent(session.project)}/sessions/${encodeURIComponent(session.id)}`;
+
+// Files a session changed, rebuilt step by step for FileStateDialog
+export function useFileStates() {
+  const [fileStates, setFileStates] = useState<{ files: SessionFile[]; path?: string; at?: number } | null>(null);
+
+  // Files the session changed, opened on `path` as it stood after message `at`
+  const open = async (session: SessionRef, path?: string, at?: number) => {
+    try {
+      const res = await fetch(`${sessionUrl(session)}/files`);
+      if (!res.ok) throw new Error((await res.json()).error);
+      setFileStates({ files: await res.json(), path, at });
+    } catch (error) {
+      console.error('Failed to load file states:', error);
+      toast.error('Could not rebuild file states');
+    }
+  };
+
+  const loadHistory = async (session: SessionRef, path: string, at: number, from: number) => {
+    const res = await fetch(`${sessionUrl(session)}/files/${encodeURIComponent(path)}?at=${at}&from=${from}`);
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data as FileHistory;
+  };
+
+  return { fileStates, open, loadHistory, close: () => setFileStates(null) };
+}
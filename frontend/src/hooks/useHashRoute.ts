@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from 'react';
+
+export type RouteView = 'projects' | 'search' | 'stats' | 'bookmarks' | 'snippets' | 'files' | 'live';
+
+// Everything needed to restore a place in the app from its URL
+export interface Route {
+  view: RouteView;
+  project?: string;
+  sessionId?: string;
+  messageIndex?: number;
+  query?: string;
+  mode?: string;
+  sort?: string;
+  roles?: string[];
+  tool?: string;
+  from?: string;
+  to?: string;
+  // File whose history the files view shows
+  file?: string;
+}
+
+const decode = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+const VIEWS: RouteView[] = ['projects', 'search', 'stats', 'bookmarks', 'snippets', 'files', 'live'];
+
+const PARAMS = ['query', 'mode', 'sort', 'tool', 'from', 'to', 'file'] as const;
+
+const PARAM_NAMES: Record<typeof PARAMS[number], string> = {
+  query: 'q', mode: 'mode', sort: 'sort', tool: 'tool', from: 'from', to: 'to', file: 'file'
+};
+
+/**
+ * Parse `#/[view][/p/:project][/s/:session][/m/:index][?q=…&roles=…]`.
+ * The view is omitted for projects, so `#/p/:project/s/:session/m/:index` links keep working.
+ */
+export function parseRoute(hash: string): Route {
+  const [path, search = ''] = hash.replace(/^#/, '').split('?');
+  const segments = path.split('/').filter(Boolean);
+  const route: Route = { view: 'projects' };
+
+  if (VIEWS.includes(segments[0] as RouteView)) {
+    route.view = segments.shift() as RouteView;
+  }
+
+  for (let i = 0; i + 1 < segments.length; i += 2) {
+    const value = decode(segments[i + 1]);
+    if (segments[i] === 'p') route.project = value;
+    else if (segments[i] === 's') route.sessionId = value;
+    else if (segments[i] === 'm' && /^\d+$/.test(value)) route.messageIndex = Number(value);
+  }
+
+  const params = new URLSearchParams(search);
+  for (const key of PARAMS) {
+    const value = params.get(PARAM_NAMES[key]);
+    if (value) route[key] = value;
+  }
+  const roles = params.get('roles');
+  if (roles) route.roles = roles.split(',').filter(Boolean);
+
+  return route;
+}
+
+export function formatRoute(route: Route): string {
+  let path = route.view === 'projects' ? '' : `/${route.view}`;
+  if (route.project) {
+    path += `/p/${encodeURIComponent(route.project)}`;
+    if (route.sessionId) {
+      path += `/s/${encodeURIComponent(route.sessionId)}`;
+      if (route.messageIndex !== undefined) path += `/m/${route.messageIndex}`;
+    }
+  }
+
+  const params = new URLSearchParams();
+  for (const key of PARAMS) {
+    const value = route[key];
+    if (value) params.set(PARAM_NAMES[key], value);
+  }
+  if (route.roles?.length) params.set('roles', route.roles.join(','));
+
+  const search = params.toString();
+  return `#${path || '/'}${search ? `?${search}` : ''}`;
+}
+
+// Routes that differ only in query, filters or highlighted message replace each
+// other in history instead of piling up (e.g. while a search is being typed)
+const routeKey = (route: Route) => [route.view, route.project, route.sessionId].join('\n');
+
+/**
+ * Keeps location.hash in sync with `route`, and calls `onNavigate` with the route
+ * from the URL on load and on browser back/forward.
+ */
+export function useHashRoute(route: Route, onNavigate: (route: Route) => void | Promise<void>) {
+  const handlerRef = useRef(onNavigate);
+  handlerRef.current = onNavigate;
+  // State is only partly updated while a route is being applied; don't write it back
+  const applying = useRef(true);
+  const [applied, setApplied] = useState(0);
+  const hash = formatRoute(route);
+
+  useEffect(() => {
+    const apply = async () => {
+      applying.current = true;
+      try {
+        await handlerRef.current(parseRoute(window.location.hash));
+      } finally {
+        applying.current = false;
+        setApplied(n => n + 1);
+      }
+    };
+
+    apply();
+    window.addEventListener('popstate', apply);
+    return () => window.removeEventListener('popstate', apply);
+  }, []);
+
+  useEffect(() => {
+    if (applying.current || hash === window.location.hash) return;
+    if (routeKey(parseRoute(hash)) === routeKey(parseRoute(window.location.hash))) {
+      window.history.replaceState(null, '', hash);
+    } else {
+      window.history.pushState(null, '', hash);
+    }
+  }, [hash, applied]);
+}
@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+
+export interface HistoryEvent {
+  type: 'history:session-added' | 'history:session-updated' | 'history:project-added';
+  project: string;
+  sessionId?: string;
+}
+
+// Progress of a bulk export started with the given jobId
+export interface ExportProgressEvent {
+  type: 'export:progress';
+  jobId: string;
+  done: number;
+  total: number;
+  current?: string;
+  finished: boolean;
+  error?: string;
+}
+
+const RECONNECT_DELAY_MS = 3000;
+
+export function getSocketUrl() {
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  return `${protocol}://${window.location.host}/ws`;
+}
+
+// Subscribes to live transcript changes pushed by the backend, reconnecting if the socket drops
+export function useHistoryEvents(onEvent: (event: HistoryEvent | ExportProgressEvent) => void) {
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const connect = () => {
+      socket = new WebSocket(getSocketUrl());
+
+      socket.onopen = () => {
+        socket?.send(JSON.stringify({ type: 'subscribe-history' }));
+      };
+
+      socket.onmessage = (e) => {
+        try {
+          const message = JSON.parse(e.data);
+          if (typeof message.type === 'string' && (message.type.startsWith('history:') || message.type.startsWith('export:'))) {
+            handlerRef.current(message);
+          }
+        } catch {
+          // Ignore malformed messages
+        }
+      };
+
+      socket.onclose = () => {
+        if (!closed) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, []);
+}
@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { API_URL } from '../api';
+import { toast } from '../components';
+
+// Upload transcripts or tarballs of project directories into the import archive.
+// `onImported` runs once at least one transcript landed.
+export function useImport(onImported: () => void) {
+  const [importing, setImporting] = useState(false);
+
+  const importFiles = async (files: FileList) => {
+    setImporting(true);
+    let imported = 0;
+    let skipped = 0;
+    try {
+      for (const file of Array.from(files)) {
+        const res = await fetch(`${API_URL}/history/import?filename=${encodeURIComponent(file.name)}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: file,
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          toast.error(`${file.name}: ${data.error}`);
+          continue;
+        }
+        imported += data.imported.length;
+        skipped += data.skipped.length;
+      }
+      if (imported > 0) {
+        toast.success(`Imported ${imported} transcript${imported === 1 ? '' : 's'}${skipped ? `, skipped ${skipped}` : ''}`);
+        onImported();
+      } else if (skipped > 0) {
+        toast.error(`No transcripts imported, skipped ${skipped}`);
+      }
+    } catch (error) {
+      console.error('Import failed:', error);
+      toast.error('Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return { importing, importFiles };
+}
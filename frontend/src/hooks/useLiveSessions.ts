@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { API_URL } from '../api';
+import { toast } from '../components';
+
+// A PTY session from /api/sessions
+export interface LiveSession {
+  id: string;
+  name: string;
+  workingDir: string;
+  status: 'running' | 'stopped' | 'error';
+  createdAt: string;
+  claudeArgs: string[];
+  resumedFrom?: string;
+}
+
+// Live sessions and their terminal tabs; the list is refetched whenever the Live view opens
+export function useLiveSessions(active: boolean) {
+  const [sessions, setSessions] = useState<LiveSession[]>([]);
+  // Live sessions with an open terminal tab, in tab order
+  const [openTerminals, setOpenTerminals] = useState<string[]>([]);
+  const [activeTerminal, setActiveTerminal] = useState<string | null>(null);
+
+  const setStatus = (id: string, status: LiveSession['status']) =>
+    setSessions(prev => prev.map(s => s.id === id ? { ...s, status } : s));
+
+  const refresh = async () => {
+    try {
+      const res = await fetch(`${API_URL}/sessions`);
+      const sessions: LiveSession[] = await res.json();
+      setSessions(sessions);
+      // Tabs of sessions deleted elsewhere go away
+      setOpenTerminals(prev => prev.filter(id => sessions.some(s => s.id === id)));
+    } catch (error) {
+      console.error('Failed to fetch live sessions:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (active) refresh();
+  }, [active]);
+
+  const openTerminal = (id: string) => {
+    setOpenTerminals(prev => prev.includes(id) ? prev : [...prev, id]);
+    setActiveTerminal(id);
+  };
+
+  const closeTerminal = (id: string) => {
+    const remaining = openTerminals.filter(t => t !== id);
+    setOpenTerminals(remaining);
+    if (activeTerminal === id) setActiveTerminal(remaining[remaining.length - 1] ?? null);
+  };
+
+  const start = async (id: string) => {
+    try {
+      const res = await fetch(`${API_URL}/sessions/${id}/start`, { method: 'POST' });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setStatus(id, 'running');
+      openTerminal(id);
+    } catch (error) {
+      console.error('Failed to start session:', error);
+      toast.error('Could not start claude');
+    }
+  };
+
+  // Create a session and start claude in it; false when it could not be created
+  const create = async (name: string, workingDir: string): Promise<boolean> => {
+    let session: LiveSession;
+    try {
+      const res = await fetch(`${API_URL}/sessions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim() || undefined, workingDir: workingDir.trim() || undefined }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      session = await res.json();
+      setSessions(prev => [...prev, session]);
+    } catch (error) {
+      console.error('Failed to create session:', error);
+      toast.error('Could not create the terminal session');
+      return false;
+    }
+    await start(session.id);
+    return true;
+  };
+
+  // Start claude on a historical session in its working directory and attach a terminal to it.
+  // False when it could not be resumed.
+  const resume = async (history: { project: string; id: string }): Promise<boolean> => {
+    try {
+      const res = await fetch(`${API_URL}/history/projects/${encodeURIComponent(history.project)}/sessions/${encodeURIComponent(history.id)}/resume`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      const session: LiveSession = data;
+      setSessions(prev => [...prev, session]);
+      openTerminal(session.id);
+      toast.success(`Resumed with claude ${session.claudeArgs.join(' ')}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to resume session:', error);
+      toast.error((error as Error).message || 'Could not resume session');
+      return false;
+    }
+  };
+
+  const stop = async (id: string) => {
+    try {
+      const res = await fetch(`${API_URL}/sessions/${id}/stop`, { method: 'POST' });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setStatus(id, 'stopped');
+    } catch (error) {
+      console.error('Failed to stop session:', error);
+      toast.error('Could not stop the terminal session');
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      const res = await fetch(`${API_URL}/sessions/${id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setSessions(prev => prev.filter(s => s.id !== id));
+      closeTerminal(id);
+    } catch (error) {
+      console.error('Failed to delete session:', error);
+      toast.error('Could not delete the terminal session');
+    }
+  };
+
+  return {
+    sessions, openTerminals, activeTerminal, setActiveTerminal,
+    refresh, openTerminal, closeTerminal, create, start, resume, stop, remove,
+    // The PTY exited on its own
+    markExited: (id: string) => setStatus(id, 'stopped'),
+  };
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState, type RefObject } from 'react';
+
+// Step-by-step replay of the open session. Stops whenever another session is opened.
+export function useReplay(session: { project: string; id: string } | null, containerRef: RefObject<HTMLElement>) {
+  // Last message revealed by the replay player; null when not replaying
+  const [index, setIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    setIndex(null);
+  }, [session?.project, session?.id]);
+
+  // Keep the newest revealed message in view while replaying
+  useEffect(() => {
+    if (index === null || !containerRef.current) return;
+    containerRef.current.scrollTo({ top: containerRef.current.scrollHeight, behavior: 'smooth' });
+  }, [index]);
+
+  return {
+    index,
+    seek: setIndex,
+    toggle: () => setIndex(prev => prev === null ? 0 : null),
+    stop: () => setIndex(null),
+  };
+}
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { API_URL } from '../api';
+import type { Span } from '../components';
+import { useDebounce } from './useDebounce';
+
+export type SearchMode = 'literal' | 'regex' | 'fuzzy';
+
+export type SearchSort = 'relevance' | 'date';
+
+export const SEARCH_MODES: SearchMode[] = ['literal', 'regex', 'fuzzy'];
+
+export const SEARCH_SORTS: SearchSort[] = ['relevance', 'date'];
+
+export interface SearchMatch {
+  messageIndex: number;
+  preview: string;
+  previewSpans: Span[];
+  spans: Span[];
+  role: string;
+  distance?: number;
+}
+
+export interface SearchResult {
+  id: string;
+  project: string;
+  source: string;
+  createdAt: string;
+  summary?: string;
+  messageCount: number;
+  matches: SearchMatch[];
+  score: number;
+}
+
+interface SearchPage {
+  results: SearchResult[];
+  total: number;
+  totalMatches: number;
+  nextCursor: string | null;
+  truncated: boolean;
+}
+
+interface UseSearchOptions {
+  // Typing only searches while the search view is open
+  active: boolean;
+  // A search was submitted; the caller switches to the search view
+  onSearch: () => void;
+  // The first page of a new search arrived
+  onResults: () => void;
+}
+
+const PAGE_SIZE = 25;
+
+const RECENT_SEARCHES_KEY = 'deja-claude-recent-searches';
+
+export function useSearch({ active, onSearch, onResults }: UseSearchOptions) {
+  const [query, setQuery] = useState('');
+  // Query the listed results belong to; `query` is the input box
+  const [activeQuery, setActiveQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<SearchMode>(() => {
+    return (localStorage.getItem('deja-claude-search-mode') as SearchMode) || 'literal';
+  });
+  const [sort, setSort] = useState<SearchSort>(() => {
+    return (localStorage.getItem('deja-claude-search-sort') as SearchSort) || 'relevance';
+  });
+  const [total, setTotal] = useState(0);
+  const [totalMatches, setTotalMatches] = useState(0);
+  const [truncated, setTruncated] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [recentSearches, setRecentSearches] = useState<string[]>(() => {
+    const saved = localStorage.getItem(RECENT_SEARCHES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  });
+
+  const debouncedQuery = useDebounce(query, 300);
+
+  const addRecentSearch = (search: string) => {
+    if (!search.trim()) return;
+    const updated = [search, ...recentSearches.filter(s => s !== search)].slice(0, 10);
+    setRecentSearches(updated);
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(updated));
+  };
+
+  const clearRecentSearches = () => {
+    localStorage.removeItem(RECENT_SEARCHES_KEY);
+    setRecentSearches([]);
+  };
+
+  const run = async (q = query, m = mode, s = sort) => {
+    if (!q.trim()) return;
+    setIsSearching(true);
+    onSearch();
+    setActiveQuery(q);
+    addRecentSearch(q);
+    try {
+      const res = await fetch(`${API_URL}/history/search?q=${encodeURIComponent(q)}&mode=${m}&sort=${s}&limit=${PAGE_SIZE}`);
+      const data = await res.json();
+      if (!res.ok) {
+        // Query syntax errors come back as 400 with a message
+        setError(data.error || 'Search failed');
+        setResults([]);
+        setTotal(0);
+        setNextCursor(null);
+        return;
+      }
+      const page = data as SearchPage;
+      setError(null);
+      setResults(page.results);
+      setTotal(page.total);
+      setTotalMatches(page.totalMatches);
+      setTruncated(page.truncated);
+      setNextCursor(page.nextCursor);
+      onResults();
+    } catch (error) {
+      console.error('Search failed:', error);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const res = await fetch(`${API_URL}/history/search?q=${encodeURIComponent(activeQuery)}&mode=${mode}&sort=${sort}&limit=${PAGE_SIZE}&cursor=${encodeURIComponent(nextCursor)}`);
+      if (!res.ok) return;
+      const page: SearchPage = await res.json();
+      setResults(prev => [...prev, ...page.results]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more results:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Changing the mode or sort order re-runs the active search
+  const updateMode = (next: SearchMode) => {
+    setMode(next);
+    localStorage.setItem('deja-claude-search-mode', next);
+    if (activeQuery && active) {
+      run(query, next);
+    }
+  };
+
+  const updateSort = (next: SearchSort) => {
+    setSort(next);
+    localStorage.setItem('deja-claude-search-sort', next);
+    if (activeQuery && active) {
+      run(query, mode, next);
+    }
+  };
+
+  // Restore a search from a link; mode and sort come from the URL unchecked
+  const restore = async (q: string, routeMode?: string, routeSort?: string) => {
+    const m = SEARCH_MODES.find(x => x === routeMode) || mode;
+    const s = SEARCH_SORTS.find(x => x === routeSort) || sort;
+    setMode(m);
+    setSort(s);
+    setQuery(q);
+    if (q !== activeQuery || m !== mode || s !== sort) {
+      await run(q, m, s);
+    }
+  };
+
+  // Auto-search with debounce
+  useEffect(() => {
+    if (debouncedQuery.trim() && active) {
+      run();
+    }
+  }, [debouncedQuery]);
+
+  return {
+    query, setQuery, activeQuery, setActiveQuery, results, isSearching, error,
+    mode, setMode, sort, setSort, total, totalMatches, truncated, nextCursor, loadingMore,
+    recentSearches, clearRecentSearches, run, loadMore, updateMode, updateSort, restore,
+  };
+}
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { API_URL } from '../api';
+import type { SessionCommitList } from '../components';
+
+// Commits made in the session's repository; loaded once per opened session
+export function useSessionCommits(session: { project: string; id: string } | null) {
+  const [commits, setCommits] = useState<SessionCommitList | null>(null);
+  const url = session &&
+    `${API_URL}/history/projects/${encodeURIComponent(session.project)}/sessions/${encodeURIComponent(session.id)}/commits`;
+
+  useEffect(() => {
+    setCommits(null);
+    if (!url) return;
+    fetch(url)
+      .then(res => res.json())
+      .then(data => setCommits(data))
+      .catch(error => console.error('Failed to load session commits:', error));
+  }, [url]);
+
+  const loadDiff = async (hash: string) => {
+    const res = await fetch(`${url}/${hash}`);
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data as { diff: string; truncated: boolean };
+  };
+
+  return { commits, loadDiff };
+}